@@ -1,12 +1,35 @@
 #!/usr/bin/env node
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { McpAgent } from "agents/mcp";
 import { ChromaMCP } from '@chrom-ar/mcp-base';
 import { z } from 'zod';
 import dotenv from 'dotenv';
 
 import { SwapService } from './services/swapService.js';
-import type { SwapRequest } from './types/index.js';
+import { TokenResolver } from './services/tokenResolver.js';
+import { DurableObjectQuoteStore, QuoteCache, type QuoteStore } from './services/quoteCache.js';
+import {
+  DurableObjectSwapTrackStore,
+  SqliteSwapTrackStore,
+  SwapTrackingService,
+  type SwapTrackFilter,
+  type SwapTrackStoreProvider
+} from './services/swapTrackingService.js';
+import { VeloraSDKRegistry } from './services/veloraSdkRegistry.js';
+import { TransactionPreviewService } from './services/transactionPreviewService.js';
+import { WalletBalanceService } from './services/walletBalanceService.js';
+import {
+  ConditionalSwapService,
+  DurableObjectConditionalSwapStore,
+  SqliteConditionalSwapStore,
+  UsdcPriceSource,
+  type ConditionalSwapListFilter,
+  type ConditionalSwapStore
+} from './services/conditionalSwapService.js';
+import { toErrorPayload } from './utils/errors.js';
+import { MAX_PARTNER_FEE_BPS } from './utils/helpers.js';
+import type { ConditionalSwapOrder, ConditionalSwapRequest, DecodeTransactionRequest, SwapBatchRequest, SwapRequest, SwapTrackRequest, TrackedSwap, WalletBalancesRequest } from './types/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -19,19 +42,118 @@ const chromaMcp = new ChromaMCP({
   url: process.env.SERVER_URL!
 });
 
+// Shared by every session: SDKs and their circuit breaker, token metadata and transaction decoding
+const sdkRegistry = new VeloraSDKRegistry();
+const tokenResolver = new TokenResolver();
+const transactionPreviewService = new TransactionPreviewService(tokenResolver);
+
+/**
+ * Services keeping per-session state. Every session gets its own, so quotes are cached and coalesced
+ * across the calls of one session but quoteIds are never visible to another session.
+ */
+interface SessionServices {
+  swapService: SwapService;
+  swapTrackingService: SwapTrackingService;
+  walletBalanceService: WalletBalanceService;
+  conditionalSwapService: ConditionalSwapService;
+}
+
+function createSessionServices(quoteStore?: QuoteStore, swapTrackStores?: SwapTrackStoreProvider, conditionalSwapStore?: ConditionalSwapStore): SessionServices {
+  const quoteCache = new QuoteCache(quoteStore);
+  const swapService = new SwapService(sdkRegistry, undefined, undefined, undefined, undefined, undefined, undefined, quoteCache);
+
+  return {
+    swapService,
+    swapTrackingService: new SwapTrackingService(swapTrackStores, tokenResolver, quoteCache),
+    walletBalanceService: new WalletBalanceService(sdkRegistry, quoteCache),
+    conditionalSwapService: new ConditionalSwapService(conditionalSwapStore, swapService, tokenResolver, new UsdcPriceSource(sdkRegistry, quoteCache))
+  };
+}
+
+// Services of the session handling the current message, see MyMCP.onMessage
+const sessionServices = new AsyncLocalStorage<SessionServices>();
+// Used outside a Durable Object session, e.g. under Node
+const localServices = createSessionServices();
+
+function services(): SessionServices {
+  return sessionServices.getStore() ?? localServices;
+}
+
+// Name of the MyMCP instance holding every conditional swap
+const CONDITIONAL_SWAPS_OBJECT = 'conditional-swaps';
+// Name prefix of the MyMCP instances holding each wallet's tracked swaps
+const TRACKED_SWAPS_OBJECT = 'tracked-swaps';
+
+/**
+ * Conditional swaps are kept by one Durable Object, reached over RPC from every session and the cron trigger
+ */
+// @ts-ignore
+function getConditionalSwapStore(env: Env): DurableObjectConditionalSwapStore {
+  return new DurableObjectConditionalSwapStore(env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(CONDITIONAL_SWAPS_OBJECT)));
+}
+
+/**
+ * Tracked swaps are kept by one Durable Object per wallet, reached over RPC from every session of the wallet
+ */
+// @ts-ignore
+function getSwapTrackStore(env: Env, wallet: string): DurableObjectSwapTrackStore {
+  return new DurableObjectSwapTrackStore(env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(`${TRACKED_SWAPS_OBJECT}:${wallet}`)));
+}
+
+const OUTPUT_FORMAT_SCHEMA = z.enum(['transactions', 'eip5792', 'safeMultisend', 'userOperation']).optional()
+  .describe('Also encode the calls for the wallet, one bundle per chain in formatted: eip5792 (wallet_sendCalls params for smart accounts), safeMultisend (one Safe transaction through MultiSendCallOnly, approve and swap run atomically), userOperation (ERC-4337 executeBatch callData). Default transactions');
+
+const SLIPPAGE_SCHEMA = z.union([z.number(), z.literal('auto')]).optional()
+  .describe('Slippage tolerance as percentage (e.g., 0.5 for 0.5%, default 0.5, between 0.01 and 50), or auto to pick it from the pair type (stable, major or long tail) and the route depth, explained in autoSlippage');
+
+/**
+ * Tool result for a failure, carrying the error code, failed field and retryable flag as JSON
+ */
+function errorResult(error: unknown) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error: toErrorPayload(error) }, null, 2)
+      }
+    ],
+    isError: true
+  };
+}
+
 // Tool: Build swap transactions (main MCP functionality)
 // @ts-ignore  # zod dependency infinite recursion issue
 chromaMcp.server.tool(
   'build-swap-transactions',
-  'Build swap transactions ready for signing using VeloraDEX market swaps',
+  'Build swap transactions ready for signing using VeloraDEX market swaps, or a Delta order to sign. Native <-> wrapped native pairs (e.g. ETH -> WETH) are built as a direct deposit/withdraw. Each transaction has a preview to show the user before signing',
   z.object({
     amount: z.string().describe('The amount to swap'),
-    fromToken: z.string().describe('Source token symbol or address'),
+    fromToken: z.string().describe('Source token symbol or address, native tokens by symbol (ETH, POL/MATIC, AVAX)'),
     toToken: z.string().describe('Target token symbol or address'),
     fromAddress: z.string().describe('Source wallet address'),
     fromChain: z.string().describe('Source blockchain name (e.g., ETHEREUM, ARBITRUM)'),
-    mode: z.enum(['market']).optional().describe('Trading mode: market (direct swap)'),
-    slippage: z.number().optional().describe('Slippage tolerance as percentage (e.g., 0.5 for 0.5%)')
+    toChain: z.string().optional().describe('Destination blockchain name for cross-chain swaps, toToken is resolved on it (default fromChain). Cross-chain swaps use bridged Delta orders'),
+    mode: z.enum(['market', 'delta', 'all']).optional().describe('Trading mode: market (direct swap), delta (signed order executed by VeloraDEX agents), all (delta when available, otherwise market)'),
+    slippage: SLIPPAGE_SCHEMA,
+    side: z.enum(['SELL', 'BUY']).optional().describe('SELL: amount is exactly what you spend (default). BUY: amount is exactly what you receive, in target token units'),
+    usePermit: z.boolean().optional().describe('Use a permit signature instead of an approve transaction: EIP-2612 when the token supports it, otherwise Permit2 when the token is already approved to Permit2 (SELL only)'),
+    permitSignature: z.string().optional().describe('Signature of approval.permit.typedData returned by a previous call with usePermit'),
+    permitDeadline: z.number().optional().describe('approval.permit.deadline of the signed permit'),
+    permitNonce: z.string().optional().describe('approval.permit.nonce of a signed Permit2 permit'),
+    preflight: z.enum(['warn', 'strict', 'skip']).optional().describe('Balance and gas checks: warn (default, report issues), strict (refuse to build when the wallet cannot fund the swap), skip'),
+    simulate: z.boolean().optional().describe('Simulate the approve + swap transactions in order and report success, revert reasons, gas used and balance changes (market mode)'),
+    gasSpeed: z.enum(['slow', 'normal', 'fast']).optional().describe('EIP-1559 fee tier for the returned transactions, from recent fee history (default normal)'),
+    acceptHighImpact: z.boolean().optional().describe('Build even when the route exceeds the price impact or gas cost limits (only honored when the server allows overrides)'),
+    acceptUnverifiedGuardrails: z.boolean().optional().describe('Build even when VeloraDEX has no USD price for the tokens, so the price impact limit cannot be checked (the notional cap still applies)'),
+    outputFormat: OUTPUT_FORMAT_SCHEMA,
+    quoteId: z.string().optional().describe('quoteId from get-swap-quote, to build exactly the route that was shown instead of quoting again (same chain, tokens, amount, side and mode)'),
+    strategy: z.enum(['default', 'bestPrice']).optional().describe('default builds market swaps with VeloraDEX, bestPrice quotes every provider enabled in SWAP_PROVIDERS and builds with the one returning the most after gas (same-chain market swaps only)'),
+    receiver: z.string().optional().describe('Address receiving the output tokens, e.g. a cold wallet or contract (default fromAddress). Mixed-case addresses must have a valid checksum'),
+    deadline: z.number().optional().describe('Deadline after which the swap reverts: seconds from now (e.g. 600), or an absolute unix timestamp'),
+    partner: z.string().optional().describe('Partner name reported to VeloraDEX'),
+    partnerAddress: z.string().optional().describe('Address collecting the partner fee and, with positiveSlippageToPartner, the positive slippage'),
+    partnerFeeBps: z.number().optional().describe(`Partner fee taken from the output in basis points, at most ${MAX_PARTNER_FEE_BPS} (requires partnerAddress)`),
+    positiveSlippageToPartner: z.boolean().optional().describe('Send positive slippage to partnerAddress instead of the receiver')
   }).shape,
   async (args) => {
     try {
@@ -42,9 +164,7 @@ chromaMcp.server.tool(
         fromAddress: swapRequest.fromAddress?.substring(0, 8) + '...'
       });
 
-      // Initialize swap service
-      const swapService = new SwapService();
-      const result = await swapService.buildSwapTransaction(swapRequest);
+      const result = await services().swapService.buildSwapTransaction(swapRequest);
 
       console.debug(`Successfully built ${result.transactions.length} transactions for signing`);
 
@@ -56,30 +176,504 @@ chromaMcp.server.tool(
               transactionCount: result.transactions.length,
               transactions: result.transactions,
               quote: result.quote,
-              mode: swapRequest.mode || 'market'
+              mode: result.mode,
+              deltaOrder: result.deltaOrder,
+              crossChain: result.crossChain,
+              approval: result.approval,
+              preflight: result.preflight,
+              simulation: result.simulation,
+              guardrails: result.guardrails,
+              side: result.side,
+              maxAmountIn: result.maxAmountIn,
+              formatted: result.formatted,
+              quoteId: result.quoteId,
+              provider: result.provider,
+              deadline: result.deadline,
+              autoSlippage: result.autoSlippage
             }, null, 2)
           }
         ]
       };
     } catch (error) {
       console.error('Error building swap transaction:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Build several swaps for one wallet in a single call
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'build-swap-batch',
+  'Build several market swaps for one wallet at once (e.g. a portfolio rebalance): quotes are fetched concurrently, swaps spending the same token share one approval, and the batch fails as a whole if any swap is invalid',
+  z.object({
+    fromAddress: z.string().describe('Wallet address executing every swap'),
+    swaps: z.array(z.object({
+      amount: z.string().describe('The amount to swap'),
+      fromToken: z.string().describe('Source token symbol or address'),
+      toToken: z.string().describe('Target token symbol or address'),
+      fromChain: z.string().describe('Blockchain name (e.g., ETHEREUM, ARBITRUM), swaps cannot cross chains'),
+      slippage: SLIPPAGE_SCHEMA,
+      side: z.enum(['SELL', 'BUY']).optional().describe('SELL: amount is exactly what you spend (default). BUY: amount is exactly what you receive'),
+      acceptHighImpact: z.boolean().optional().describe('Build this swap even when it exceeds the price impact or gas cost limits (only honored when the server allows overrides)'),
+      acceptUnverifiedGuardrails: z.boolean().optional().describe('Build this swap even when it has no USD prices to check the price impact limit against')
+    })).describe('Swaps to build, in execution order'),
+    preflight: z.enum(['warn', 'strict', 'skip']).optional().describe('Balance and gas checks over the summed amounts per source token: warn (default), strict, skip'),
+    gasSpeed: z.enum(['slow', 'normal', 'fast']).optional().describe('EIP-1559 fee tier for the returned transactions (default normal)'),
+    outputFormat: OUTPUT_FORMAT_SCHEMA
+  }).shape,
+  async (args) => {
+    try {
+      const batchRequest: SwapBatchRequest = args as SwapBatchRequest;
+
+      const result = await services().swapService.buildSwapBatch(batchRequest);
+
+      console.debug(`Successfully built ${result.transactions.length} transactions for ${result.legs.length} swaps`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              transactionCount: result.transactions.length,
+              transactions: result.transactions,
+              legs: result.legs,
+              approvals: result.approvals,
+              preflight: result.preflight,
+              formatted: result.formatted
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error building swap batch:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Get a swap quote without building transactions
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'get-swap-quote',
+  'Get a VeloraDEX market swap quote with human-readable pricing, without building transactions. Pass the returned quoteId to build-swap-transactions to build the same route',
+  z.object({
+    amount: z.string().describe('The amount to swap'),
+    fromToken: z.string().describe('Source token symbol or address'),
+    toToken: z.string().describe('Target token symbol or address'),
+    fromAddress: z.string().describe('Source wallet address'),
+    fromChain: z.string().describe('Source blockchain name (e.g., ETHEREUM, ARBITRUM)'),
+    slippage: SLIPPAGE_SCHEMA.describe('Slippage tolerance as percentage used for the minimum received (e.g., 0.5 for 0.5%), or auto to pick it from the pair type and route depth, explained in autoSlippage'),
+    side: z.enum(['SELL', 'BUY']).optional().describe('SELL: amount is exactly what you spend (default). BUY: amount is exactly what you receive, in target token units')
+  }).shape,
+  async (args) => {
+    try {
+      const swapRequest: SwapRequest = args as SwapRequest;
+
+      const quote = await services().swapService.getSwapQuoteSummary(swapRequest);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(quote, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error getting swap quote:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Submit a signed Delta order
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'submit-delta-order',
+  'Submit a Delta order signed from build-swap-transactions (deltaOrder.typedData) and report its status',
+  z.object({
+    fromChain: z.string().describe('Blockchain name the order was built for (e.g., ETHEREUM, ARBITRUM)'),
+    order: z.record(z.any()).describe('The deltaOrder.order object returned by build-swap-transactions'),
+    signature: z.string().describe('EIP-712 signature of deltaOrder.typedData by the order owner')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await services().swapService.submitDeltaOrder(args.fromChain, args.order, args.signature);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error submitting delta order:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Search the token registry
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'search-tokens',
+  'Search known tokens by symbol, name or address, to find the exact address to swap when a symbol is ambiguous',
+  z.object({
+    query: z.string().describe('Token symbol, part of its name, or contract address'),
+    chain: z.string().optional().describe('Blockchain name to search on (e.g., ETHEREUM, BASE), all chains when omitted'),
+    limit: z.number().int().positive().optional().describe('Maximum number of results (default 20)')
+  }).shape,
+  async (args) => {
+    try {
+      const tokens = await tokenResolver.searchTokens(args.query, args.chain, args.limit);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ count: tokens.length, tokens }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error searching tokens:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Wallet portfolio
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'get-wallet-balances',
+  'List what a wallet holds before swapping: native and known ERC-20 balances on each chain, valued in USD at the VeloraDEX price of one token against USDC, with per-chain and total values',
+  z.object({
+    address: z.string().describe('Wallet address'),
+    chains: z.array(z.string()).optional().describe('Blockchain names to read (e.g., ["ETHEREUM", "BASE"]), every supported mainnet when omitted')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await services().walletBalanceService.getWalletBalances(args as WalletBalancesRequest);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error reading wallet balances:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Create a conditional or scheduled swap
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'create-conditional-swap',
+  'Store a swap that is built later, when a price condition holds and/or at a scheduled time, e.g. swap 1000 USDC to ETH when ETH is below $2500, or a DCA buying with 100 USDC every day. Orders are re-quoted every 10 minutes, those whose conditions are met get freshly built transactions to sign (status ready, or done after their last run), see list-conditional-swaps',
+  z.object({
+    amount: z.string().describe('The amount to swap on each execution'),
+    fromToken: z.string().describe('Source token symbol or address, native tokens by symbol (ETH, POL/MATIC, AVAX)'),
+    toToken: z.string().describe('Target token symbol or address'),
+    fromAddress: z.string().describe('Source wallet address'),
+    fromChain: z.string().describe('Blockchain name (e.g., ETHEREUM, ARBITRUM)'),
+    mode: z.enum(['market', 'delta', 'all']).optional().describe('Trading mode of the built swap (default market)'),
+    slippage: SLIPPAGE_SCHEMA,
+    side: z.enum(['SELL', 'BUY']).optional().describe('SELL: amount is exactly what you spend (default). BUY: amount is exactly what you receive, in target token units'),
+    receiver: z.string().optional().describe('Address receiving the output tokens (default fromAddress)'),
+    gasSpeed: z.enum(['slow', 'normal', 'fast']).optional().describe('EIP-1559 fee tier of the built transactions (default normal)'),
+    outputFormat: OUTPUT_FORMAT_SCHEMA,
+    condition: z.object({
+      token: z.string().optional().describe('Token whose USD price is watched, symbol or address (default toToken)'),
+      below: z.number().optional().describe('Trigger when the price is below this USD value'),
+      above: z.number().optional().describe('Trigger when the price is above this USD value')
+    }).optional().describe('Price condition, quoted against USDC on fromChain. With both bounds the price must be in between'),
+    startAt: z.number().optional().describe('Unix timestamp (seconds) of the first execution (default now)'),
+    intervalSeconds: z.number().optional().describe('Repeat every interval, e.g. 86400 for daily (at least 600)'),
+    executions: z.number().optional().describe('Number of executions of a repeating order (default until cancelled or expired)'),
+    expiresAt: z.number().optional().describe('Unix timestamp (seconds) after which the order stops')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await services().conditionalSwapService.createOrder(args as ConditionalSwapRequest);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error creating conditional swap:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: List conditional swaps
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'list-conditional-swaps',
+  'List the conditional and scheduled swaps of a wallet, most recent first. Ready and done orders carry the transactions built by their last execution, failed orders the error of their last run',
+  z.object({
+    address: z.string().describe('Wallet address the orders were created for (their fromAddress)'),
+    chain: z.string().optional().describe('Only orders on this blockchain (e.g., ETHEREUM, BASE)'),
+    status: z.enum(['pending', 'ready', 'done', 'failed', 'cancelled', 'expired']).optional().describe('Only orders with this status'),
+    limit: z.number().int().positive().optional().describe('Maximum number of orders (default 20, at most 100)')
+  }).shape,
+  async (args) => {
+    try {
+      const orders = await services().conditionalSwapService.listOrders(args.address, args);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ count: orders.length, orders }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error listing conditional swaps:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Cancel a conditional swap
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'cancel-conditional-swap',
+  'Cancel a pending or ready conditional swap so it is not executed again',
+  z.object({
+    id: z.string().describe('Order id returned by create-conditional-swap'),
+    address: z.string().describe('Wallet address the order was created for (its fromAddress)')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await services().conditionalSwapService.cancelOrder(args.id, args.address);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error cancelling conditional swap:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Quote cache statistics
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'get-quote-cache-stats',
+  'Report quote cache hits, misses and requests coalesced with an identical quote in flight',
+  z.object({}).shape,
+  async () => {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(services().swapService.quoteCache.getStats(), null, 2)
+        }
+      ]
+    };
+  }
+);
+
+// Tool: Explain calldata
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'decode-transaction',
+  'Explain a transaction before signing it: approvals, transfers and wraps of ERC-20 tokens and VeloraDEX AugustusV6 swaps are decoded into tokens, amounts, limits and known contract names',
+  z.object({
+    chain: z.string().describe('Blockchain name the transaction is for (e.g., ETHEREUM, ARBITRUM)'),
+    to: z.string().describe('Contract the transaction calls'),
+    data: z.string().describe('Calldata, 0x-prefixed hex'),
+    value: z.string().optional().describe('Native amount sent along, in wei')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await transactionPreviewService.decodeTransaction(args as DecodeTransactionRequest);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error decoding transaction:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: Track a broadcast swap
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'track-swap',
+  'Follow a signed and broadcast swap transaction: status, receipt, the amount actually received from the Transfer logs and the realized slippage against the quote, or the revert reason when it failed. Tracked swaps are kept per wallet for list-tracked-swaps',
+  z.object({
+    txHash: z.string().describe('Hash of the broadcast swap transaction'),
+    chain: z.string().describe('Blockchain name the transaction was sent on (e.g., ETHEREUM, ARBITRUM)'),
+    fromAddress: z.string().describe('Wallet address that sent the transaction'),
+    quoteId: z.string().optional().describe('quoteId the swap was built from, to compare the received amount with the quote'),
+    toToken: z.string().optional().describe('Without a quoteId: token the swap should deliver (symbol or address)'),
+    expectedAmount: z.string().optional().describe('Without a quoteId: quoted output amount in toToken units'),
+    receiver: z.string().optional().describe('receiver the swap was built with, whose received amount is measured (default the sender)'),
+    waitSeconds: z.number().min(0).max(60).optional().describe('How long to wait for the receipt when the transaction is not mined yet (default 15)')
+  }).shape,
+  async (args) => {
+    try {
+      const result = await services().swapTrackingService.trackSwap(args as SwapTrackRequest);
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error building swap transactions: ${error instanceof Error ? error.message : 'Unknown error'}`
+            text: JSON.stringify(result, null, 2)
           }
-        ],
-        isError: true
+        ]
       };
+    } catch (error) {
+      console.error('Error tracking swap:', error);
+      return errorResult(error);
+    }
+  }
+);
+
+// Tool: List tracked swaps
+// @ts-ignore  # zod dependency infinite recursion issue
+chromaMcp.server.tool(
+  'list-tracked-swaps',
+  'List the swaps of a wallet previously followed with track-swap, most recent first, from any session',
+  z.object({
+    address: z.string().describe('Wallet address that sent the swaps'),
+    chain: z.string().optional().describe('Only swaps on this blockchain (e.g., ETHEREUM, BASE)'),
+    status: z.enum(['pending', 'success', 'reverted', 'not_found']).optional().describe('Only swaps with this status'),
+    limit: z.number().int().positive().optional().describe('Maximum number of swaps (default 20, at most 100)')
+  }).shape,
+  async (args) => {
+    try {
+      const swaps = await services().swapTrackingService.listTrackedSwaps(args.address, args);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ count: swaps.length, swaps }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error listing tracked swaps:', error);
+      return errorResult(error);
     }
   }
 );
 
 export class MyMCP extends McpAgent {
   server = chromaMcp.server;
+  private sessionServices?: SessionServices;
+  private conditionalSwaps?: SqliteConditionalSwapStore;
+  private trackedSwaps?: SqliteSwapTrackStore;
 
-  async init() {};
+  async init() {
+    this.getSessionServices();
+  };
+
+  // Every tool call arrives through one of these, and runs with this session's services
+
+  async onMessage(...args: Parameters<McpAgent['onMessage']>): Promise<void> {
+    return sessionServices.run(this.getSessionServices(), () => super.onMessage(...args));
+  }
+
+  async onSSEMcpMessage(...args: Parameters<McpAgent['onSSEMcpMessage']>): Promise<Error | null> {
+    return sessionServices.run(this.getSessionServices(), () => super.onSSEMcpMessage(...args));
+  }
+
+  private getSessionServices(): SessionServices {
+    this.sessionServices ??= createSessionServices(
+      // Quotes live in this session's Durable Object so quoteIds outlive the worker isolate
+      new DurableObjectQuoteStore(this.ctx.storage),
+      // Tracked swaps live in the object of the sending wallet, so later sessions can list them
+      wallet => getSwapTrackStore(this.env, wallet),
+      // Conditional swaps live in the shared orders object, where the cron trigger finds them
+      getConditionalSwapStore(this.env)
+    );
+    return this.sessionServices;
+  }
+
+  // RPC methods of the orders object, backed by its SQLite database
+
+  async getConditionalSwap(id: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.getConditionalSwaps().get(id);
+  }
+
+  async putConditionalSwap(order: ConditionalSwapOrder): Promise<void> {
+    return this.getConditionalSwaps().put(order);
+  }
+
+  async listConditionalSwaps(filter: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]> {
+    return this.getConditionalSwaps().list(filter);
+  }
+
+  async listDueConditionalSwaps(now: string): Promise<ConditionalSwapOrder[]> {
+    return this.getConditionalSwaps().listDue(now);
+  }
+
+  async claimConditionalSwap(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.getConditionalSwaps().claim(id, now, leaseUntil);
+  }
+
+  async completeConditionalSwap(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean> {
+    return this.getConditionalSwaps().complete(order, leaseUntil);
+  }
+
+  async cancelConditionalSwap(id: string, now: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.getConditionalSwaps().cancel(id, now);
+  }
+
+  private getConditionalSwaps(): SqliteConditionalSwapStore {
+    this.conditionalSwaps ??= new SqliteConditionalSwapStore(this.ctx.storage.sql);
+    return this.conditionalSwaps;
+  }
+
+  // RPC methods of a wallet's tracked swaps object, backed by its SQLite database
+
+  async getTrackedSwap(id: string): Promise<TrackedSwap | undefined> {
+    return this.getTrackedSwaps().get(id);
+  }
+
+  async putTrackedSwap(id: string, swap: TrackedSwap): Promise<void> {
+    return this.getTrackedSwaps().put(id, swap);
+  }
+
+  async listTrackedSwaps(filter: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]> {
+    return this.getTrackedSwaps().list(filter);
+  }
+
+  private getTrackedSwaps(): SqliteSwapTrackStore {
+    this.trackedSwaps ??= new SqliteSwapTrackStore(this.ctx.storage.sql);
+    return this.trackedSwaps;
+  }
 }
 
 
@@ -99,7 +693,13 @@ export default {
     return new Response("Not found", { status: 404 });
   },
 
-  async scheduled(_controller, env, _ctx) {
+  async scheduled(_controller, env, ctx) {
+    // Re-quote due conditional swaps and build the ones whose time or price has come, even when registering fails
+    const { conditionalSwapService } = createSessionServices(undefined, undefined, getConditionalSwapStore(env));
+    ctx.waitUntil(conditionalSwapService.runDueOrders().catch(error => {
+      console.error('Error running conditional swaps:', error);
+    }));
+
     await chromaMcp.register(env.SERVER_URL!);
   },
 };
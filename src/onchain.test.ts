@@ -0,0 +1,499 @@
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  compactSignatureToSignature,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  hexToBigInt,
+  parseCompactSignature,
+  recoverTypedDataAddress,
+  serializeSignature,
+  size,
+  slice,
+  type Hex
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TokenResolver } from './services/tokenResolver';
+import { SwapService } from './services/swapService';
+import { ERC20_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS, PERMIT2_ADDRESS, PERMIT_ABI } from './utils/abis';
+
+// Mock VeloraDEX SDK
+const mockGetQuote = vi.fn();
+const mockBuildTx = vi.fn();
+const mockGetSpender = vi.fn();
+
+vi.mock('@velora-dex/sdk', () => {
+  return {
+    constructSimpleSDK: vi.fn().mockImplementation(() => ({
+      quote: { getQuote: mockGetQuote },
+      swap: { buildTx: mockBuildTx, getSpender: mockGetSpender },
+    })),
+    SwapSide: { SELL: 'SELL', BUY: 'BUY' },
+    DEFAULT_VERSION: '6.2',
+  };
+});
+
+// --- Local JSON-RPC stub ---
+// Serves a tiny in-memory chain: contract code per address and contract view functions per token.
+// Token entries are either constant results or functions of the decoded call arguments.
+
+type StubToken = Record<string, unknown>;
+
+const STUB_ABI = [...ERC20_ABI, ...PERMIT_ABI];
+
+// eth_simulateV1 runs calls against a copy of this ledger, so state carries from one call to the next.
+// Balances are keyed by token address ('native' for the gas token), then holder.
+interface StubLedger {
+  balances: Record<string, Record<string, bigint>>;
+  allowances: Record<string, bigint>; // `${token}:${owner}:${spender}`
+}
+
+type StubContract = (ledger: StubLedger, call: { from: string; value: bigint; data: Hex }) => Hex;
+
+class StubRevert extends Error {}
+
+const stubChain: {
+  code: Record<string, Hex>;
+  tokens: Record<string, StubToken>;
+  nativeBalances: Record<string, bigint>;
+  gasPrice: bigint;
+  ledger: StubLedger;
+  contracts: Record<string, StubContract>;
+  calls: string[];
+} = { code: {}, tokens: {}, nativeBalances: {}, gasPrice: 1_000_000_000n, ledger: { balances: {}, allowances: {} }, contracts: {}, calls: [] };
+
+function moveBalance(ledger: StubLedger, token: string, from: string, to: string, amount: bigint) {
+  const balances = ledger.balances[token.toLowerCase()] ??= {};
+  if ((balances[from.toLowerCase()] ?? 0n) < amount) {
+    throw new StubRevert('ERC20: transfer amount exceeds balance');
+  }
+  balances[from.toLowerCase()] -= amount;
+  balances[to.toLowerCase()] = (balances[to.toLowerCase()] ?? 0n) + amount;
+}
+
+// Used by stub routers to pull tokens the way transferFrom would
+function spendAllowance(ledger: StubLedger, token: string, owner: string, spender: string, amount: bigint) {
+  const key = `${token}:${owner}:${spender}`.toLowerCase();
+  if ((ledger.allowances[key] ?? 0n) < amount) {
+    throw new StubRevert('ERC20: insufficient allowance');
+  }
+  ledger.allowances[key] -= amount;
+}
+
+function executeSimulatedCall(ledger: StubLedger, call: { from: string; to: string; data: Hex; value?: Hex }): Hex {
+  const to = call.to.toLowerCase();
+  const value = BigInt(call.value ?? '0x0');
+  if (value > 0n) {
+    moveBalance(ledger, 'native', call.from, to, value);
+  }
+
+  if (to === MULTICALL3_ADDRESS.toLowerCase()) {
+    const { args } = decodeFunctionData({ abi: MULTICALL3_ABI, data: call.data });
+    const balance = ledger.balances.native?.[(args![0] as string).toLowerCase()] ?? 0n;
+    return encodeFunctionResult({ abi: MULTICALL3_ABI, functionName: 'getEthBalance', result: balance } as any);
+  }
+
+  if (stubChain.contracts[to]) {
+    return stubChain.contracts[to](ledger, { from: call.from, value, data: call.data });
+  }
+
+  const { functionName, args = [] } = decodeFunctionData({ abi: ERC20_ABI, data: call.data });
+  if (functionName === 'balanceOf') {
+    const balance = ledger.balances[to]?.[(args[0] as string).toLowerCase()] ?? 0n;
+    return encodeFunctionResult({ abi: ERC20_ABI, functionName, result: balance } as any);
+  }
+  if (functionName === 'approve') {
+    ledger.allowances[`${to}:${call.from}:${args[0]}`.toLowerCase()] = BigInt(args[1] as string);
+    return encodeFunctionResult({ abi: [{ name: 'approve', type: 'function', inputs: [], outputs: [{ type: 'bool' }] }], result: true } as any);
+  }
+  throw new StubRevert(`${functionName} not supported by stub`);
+}
+
+function simulateCalls(calls: { from: string; to: string; data: Hex; value?: Hex }[]) {
+  const ledger: StubLedger = structuredClone(stubChain.ledger);
+
+  return calls.map(call => {
+    try {
+      return { status: '0x1', returnData: executeSimulatedCall(ledger, call), gasUsed: '0xc350', logs: [] };
+    } catch (error) {
+      if (!(error instanceof StubRevert)) {
+        throw error;
+      }
+      const data = encodeErrorResult({
+        abi: [{ name: 'Error', type: 'error', inputs: [{ name: 'message', type: 'string' }] }],
+        errorName: 'Error',
+        args: [error.message]
+      });
+      return { status: '0x0', returnData: data, gasUsed: '0x7530', logs: [], error: { code: 3, message: 'execution reverted', data } };
+    }
+  });
+}
+
+function handleRpc(method: string, params: any[]): unknown {
+  stubChain.calls.push(method);
+
+  switch (method) {
+    case 'eth_chainId':
+      return '0x1';
+    case 'eth_gasPrice':
+      return `0x${stubChain.gasPrice.toString(16)}`;
+    case 'eth_getBalance':
+      return `0x${(stubChain.nativeBalances[params[0].toLowerCase()] ?? 0n).toString(16)}`;
+    case 'eth_simulateV1': {
+      const [{ blockStateCalls }] = params;
+      return blockStateCalls.map((block: any, index: number) => ({
+        number: `0x${(index + 1).toString(16)}`,
+        timestamp: '0x0',
+        gasLimit: '0x1c9c380',
+        baseFeePerGas: '0x0',
+        calls: simulateCalls(block.calls)
+      }));
+    }
+    case 'eth_getCode':
+      return stubChain.code[params[0].toLowerCase()] ?? '0x';
+    case 'eth_call': {
+      const { to, data } = params[0];
+      const token = stubChain.tokens[to.toLowerCase()];
+      const { functionName, args = [] } = decodeFunctionData({ abi: STUB_ABI, data });
+      const entry = token?.[functionName];
+      const value = typeof entry === 'function' ? entry(...args) : entry;
+      if (value === undefined) {
+        throw new Error('execution reverted');
+      }
+      return encodeFunctionResult({ abi: STUB_ABI, functionName, result: value } as any);
+    }
+    default:
+      throw new Error(`Method ${method} not supported by stub`);
+  }
+}
+
+function startRpcStub(): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const respond = ({ id, method, params }: any) => {
+        try {
+          return { jsonrpc: '2.0', id, result: handleRpc(method, params) };
+        } catch (error) {
+          return { jsonrpc: '2.0', id, error: { code: 3, message: (error as Error).message } };
+        }
+      };
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(Array.isArray(payload) ? payload.map(respond) : respond(payload)));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('On-chain integrations (local RPC stub)', () => {
+  let server: Server;
+  const sampleFromAddress = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+  beforeAll(async () => {
+    server = await startRpcStub();
+    process.env.ETHEREUM_RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    delete process.env.ETHEREUM_RPC_URL;
+    server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stubChain.code = {};
+    stubChain.tokens = {};
+    stubChain.nativeBalances = {};
+    stubChain.ledger = { balances: {}, allowances: {} };
+    stubChain.contracts = {};
+    stubChain.calls = [];
+  });
+
+  function deployToken(address: string, token: StubToken) {
+    stubChain.code[address.toLowerCase()] = '0x6080';
+    stubChain.tokens[address.toLowerCase()] = token;
+  }
+
+  // --- Token address resolution Tests ---
+  describe('TokenResolver', () => {
+    test('should read decimals and symbol for a raw token address', async () => {
+      const address = '0x1000000000000000000000000000000000000001';
+      deployToken(address, { symbol: 'WBTC', decimals: 8 });
+
+      const token = await new TokenResolver().resolveToken('ETHEREUM', address);
+
+      expect(token).toEqual({ symbol: 'WBTC', address, decimals: 8 });
+    });
+
+    test('should cache resolved metadata per chain and address', async () => {
+      const address = '0x1000000000000000000000000000000000000002';
+      deployToken(address, { symbol: 'PEPE', decimals: 18 });
+
+      await new TokenResolver().resolveToken('ETHEREUM', address);
+      const callsAfterFirstLookup = stubChain.calls.length;
+      await new TokenResolver().resolveToken('ETHEREUM', address.toLowerCase());
+
+      expect(stubChain.calls.length).toBe(callsAfterFirstLookup);
+    });
+
+    test('should reject addresses without contract code', async () => {
+      const address = '0x1000000000000000000000000000000000000003';
+
+      await expect(new TokenResolver().resolveToken('ETHEREUM', address))
+        .rejects.toThrow(`Token ${address} is not a contract on ETHEREUM`);
+    });
+
+    test('should reject contracts without ERC20 decimals', async () => {
+      const address = '0x1000000000000000000000000000000000000004';
+      deployToken(address, {});
+
+      await expect(new TokenResolver().resolveToken('ETHEREUM', address))
+        .rejects.toThrow('does not expose ERC20 decimals');
+    });
+
+    test('should resolve symbols without touching the RPC', async () => {
+      const token = await new TokenResolver().resolveToken('ETHEREUM', 'usdc');
+
+      expect(token.symbol).toBe('USDC');
+      expect(token.decimals).toBe(6);
+      expect(stubChain.calls).toHaveLength(0);
+    });
+
+    test('should quote raw addresses with their on-chain decimals', async () => {
+      const wbtc = '0x1000000000000000000000000000000000000005';
+      deployToken(wbtc, { symbol: 'WBTC', decimals: 8 });
+      mockGetQuote.mockResolvedValue({ destAmount: '1' });
+
+      await new SwapService().getSwapQuote({
+        amount: '0.5',
+        fromToken: wbtc,
+        toToken: 'USDC',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+      });
+
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({
+        srcToken: wbtc,
+        srcDecimals: 8,
+        amount: '50000000',
+      }));
+    });
+  });
+
+  // --- Permit approval Tests ---
+  describe('Permits', () => {
+    const owner = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+    const spender = '0x6A000F20005980200259B80c5102003040001068';
+    const permitToken = '0x2000000000000000000000000000000000000001';
+    const request = {
+      amount: '25',
+      fromToken: permitToken,
+      toToken: 'USDC',
+      fromAddress: owner.address,
+      fromChain: 'ETHEREUM',
+      usePermit: true,
+    };
+
+    beforeEach(() => {
+      deployToken(permitToken, {
+        symbol: 'PRMT',
+        decimals: 18,
+        name: 'Permit Token',
+        version: '2',
+        DOMAIN_SEPARATOR: `0x${'ab'.repeat(32)}`,
+        nonces: (address: string) => address === owner.address ? 7n : undefined,
+        allowance: () => 0n,
+        balanceOf: () => 10n ** 20n,
+      });
+      stubChain.nativeBalances[owner.address.toLowerCase()] = 10n ** 18n;
+      mockGetQuote.mockResolvedValue({ srcAmount: '25000000000000000000', destAmount: '25000000', srcUSD: '25', destUSD: '25' });
+      mockGetSpender.mockResolvedValue(spender);
+      mockBuildTx.mockResolvedValue({ to: spender, data: '0x1234', value: '0' });
+    });
+
+    test('should return permit typed data instead of an approve transaction', async () => {
+      const result = await new SwapService().buildSwapTransaction(request);
+
+      expect(result.transactions).toHaveLength(0);
+      expect(mockBuildTx).not.toHaveBeenCalled();
+      expect(result.approval?.strategy).toBe('permit');
+      expect(result.approval?.permit?.typedData).toMatchObject({
+        domain: { name: 'Permit Token', version: '2', chainId: 1, verifyingContract: permitToken },
+        primaryType: 'Permit',
+        message: { owner: owner.address, spender, value: '25000000000000000000', nonce: '7' },
+      });
+    });
+
+    test('should build the swap with the signed permit and no approve', async () => {
+      const { approval } = await new SwapService().buildSwapTransaction(request);
+      const { typedData, deadline } = approval!.permit!;
+      const signature = await owner.signTypedData(typedData as any);
+
+      const result = await new SwapService().buildSwapTransaction({ ...request, permitSignature: signature, permitDeadline: deadline });
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.approval?.strategy).toBe('permit');
+      const { permit } = mockBuildTx.mock.calls[0][0];
+      const [permitOwner, permitSpender, value, permitDeadline] = decodeAbiParameters(
+        [{ type: 'address' }, { type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'uint8' }, { type: 'bytes32' }, { type: 'bytes32' }],
+        permit
+      );
+      expect([permitOwner, permitSpender, value, permitDeadline]).toEqual([owner.address, spender, 25000000000000000000n, BigInt(deadline)]);
+    });
+
+    test('should fall back to approve for tokens without EIP-2612', async () => {
+      const plainToken = '0x2000000000000000000000000000000000000002';
+      deployToken(plainToken, { symbol: 'PLN', decimals: 18, allowance: () => 0n, balanceOf: () => 10n ** 20n });
+
+      const result = await new SwapService().buildSwapTransaction({ ...request, fromToken: plainToken });
+
+      expect(result.approval?.strategy).toBe('approve');
+      expect(result.transactions).toHaveLength(2);
+    });
+
+    test('should sign a Permit2 transfer for tokens already approved to Permit2', async () => {
+      const permit2Token = '0x2000000000000000000000000000000000000003';
+      deployToken(permit2Token, {
+        symbol: 'P2',
+        decimals: 18,
+        allowance: (_owner: string, allowed: string) => allowed === PERMIT2_ADDRESS ? 2n ** 160n - 1n : 0n,
+        balanceOf: () => 10n ** 20n,
+      });
+
+      const { approval, transactions } = await new SwapService().buildSwapTransaction({ ...request, fromToken: permit2Token });
+
+      expect(transactions).toHaveLength(0);
+      expect(approval?.strategy).toBe('permit2');
+      const { typedData, deadline, nonce } = approval!.permit!;
+      expect(typedData).toMatchObject({
+        domain: { name: 'Permit2', chainId: 1, verifyingContract: PERMIT2_ADDRESS },
+        primaryType: 'PermitTransferFrom',
+        message: { permitted: { token: permit2Token, amount: '25000000000000000000' }, spender, nonce, deadline: deadline.toString() },
+      });
+
+      const signature = await owner.signTypedData(typedData as any);
+      const result = await new SwapService().buildSwapTransaction({ ...request, fromToken: permit2Token, permitSignature: signature, permitDeadline: deadline, permitNonce: nonce });
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.deadline).toBe(deadline);
+      // abi.encodePacked(nonce, compact signature), built with the deadline the permit was signed for
+      const { permit, deadline: swapDeadline } = mockBuildTx.mock.calls[0][0];
+      expect(size(permit)).toBe(96);
+      expect(hexToBigInt(slice(permit, 0, 32))).toBe(BigInt(nonce!));
+      expect(swapDeadline).toBe(deadline.toString());
+      const recovered = await recoverTypedDataAddress({
+        ...(typedData as any),
+        signature: serializeSignature(compactSignatureToSignature(parseCompactSignature(slice(permit, 32))))
+      });
+      expect(recovered).toBe(owner.address);
+    });
+
+    test('should require the Permit2 nonce along with the signature', async () => {
+      const permit2Token = '0x2000000000000000000000000000000000000003';
+      deployToken(permit2Token, { symbol: 'P2', decimals: 18, allowance: (_owner: string, allowed: string) => allowed === PERMIT2_ADDRESS ? 10n ** 30n : 0n, balanceOf: () => 10n ** 20n });
+
+      await expect(new SwapService().buildSwapTransaction({ ...request, fromToken: permit2Token, permitSignature: `0x${'11'.repeat(65)}`, permitDeadline: 2_000_000_000 }))
+        .rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'permitNonce' });
+    });
+  });
+
+  // --- Simulation Tests ---
+  describe('Transaction simulation', () => {
+    const router = '0x6A000F20005980200259B80c5102003040001068';
+    const srcToken = '0x3000000000000000000000000000000000000001';
+    const destToken = '0x3000000000000000000000000000000000000002';
+    const srcAmount = 50n * 10n ** 18n;
+    const quotedDest = 100_000_000n; // 100 units with 6 decimals
+    const request = {
+      amount: '50',
+      fromToken: srcToken,
+      toToken: destToken,
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+      slippage: 1,
+      simulate: true,
+    };
+
+    // Router pulls srcAmount through the allowance and pays out the given dest amount
+    function deployRouter(payout: bigint, revertReason?: string) {
+      stubChain.contracts[router.toLowerCase()] = (ledger, { from }) => {
+        if (revertReason) {
+          throw new StubRevert(revertReason);
+        }
+        spendAllowance(ledger, srcToken, from, router, srcAmount);
+        moveBalance(ledger, srcToken, from, router, srcAmount);
+        moveBalance(ledger, destToken, router, from, payout);
+        return '0x';
+      };
+    }
+
+    beforeEach(() => {
+      deployToken(srcToken, { symbol: 'SRC', decimals: 18, allowance: () => 0n, balanceOf: () => srcAmount });
+      deployToken(destToken, { symbol: 'DST', decimals: 6 });
+      stubChain.nativeBalances[sampleFromAddress.toLowerCase()] = 10n ** 18n;
+      stubChain.ledger.balances[srcToken] = { [sampleFromAddress.toLowerCase()]: srcAmount };
+      stubChain.ledger.balances[destToken] = { [router.toLowerCase()]: 10n ** 12n };
+
+      mockGetQuote.mockResolvedValue({ srcAmount: srcAmount.toString(), destAmount: quotedDest.toString(), gasCost: '150000', srcUSD: '100', destUSD: '100' });
+      mockGetSpender.mockResolvedValue(router);
+      mockBuildTx.mockResolvedValue({ to: router, data: '0xdeadbeef', value: '0' });
+    });
+
+    test('should run approve then swap and report balance changes against the quote', async () => {
+      deployRouter(99_800_000n);
+
+      const { simulation } = await new SwapService().buildSwapTransaction(request);
+
+      expect(simulation?.success).toBe(true);
+      expect(simulation?.transactions).toEqual([
+        { index: 0, to: srcToken, success: true, gasUsed: '50000' },
+        { index: 1, to: router, success: true, gasUsed: '50000' },
+      ]);
+      expect(simulation?.fromTokenChange?.change).toEqual({ raw: '-50000000000000000000', formatted: '-50' });
+      expect(simulation?.toTokenChange?.change).toEqual({ raw: '99800000', formatted: '99.8' });
+      expect(simulation?.expectedDestAmount.raw).toBe('100000000');
+      expect(simulation?.minDestAmount.raw).toBe('99000000');
+      expect(simulation?.destAmountDeviationBps).toBe(-20);
+      expect(simulation?.withinSlippage).toBe(true);
+    });
+
+    test('should flag a received amount below the slippage limit', async () => {
+      deployRouter(90_000_000n);
+
+      const { simulation } = await new SwapService().buildSwapTransaction(request);
+
+      expect(simulation?.success).toBe(true);
+      expect(simulation?.destAmountDeviationBps).toBe(-1000);
+      expect(simulation?.withinSlippage).toBe(false);
+    });
+
+    test('should decode the revert reason of a failing swap', async () => {
+      deployRouter(0n, 'Received amount of tokens are less then expected');
+
+      const { simulation } = await new SwapService().buildSwapTransaction(request);
+
+      expect(simulation?.success).toBe(false);
+      expect(simulation?.transactions[0].success).toBe(true);
+      expect(simulation?.transactions[1]).toMatchObject({
+        success: false,
+        revertReason: 'Received amount of tokens are less then expected',
+      });
+      expect(simulation?.withinSlippage).toBeUndefined();
+    });
+
+    test('should not simulate unless asked to', async () => {
+      deployRouter(99_800_000n);
+
+      const { simulation } = await new SwapService().buildSwapTransaction({ ...request, simulate: false });
+
+      expect(simulation).toBeUndefined();
+      expect(stubChain.calls).not.toContain('eth_simulateV1');
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  parseSignature,
+  serializeCompactSignature,
+  signatureToCompactSignature,
+  toHex,
+  type Address,
+  type Hex
+} from 'viem';
+import { getChainId, isNativeToken } from '../utils/helpers.js';
+import { getPublicClient } from '../utils/rpc.js';
+import { APPROVE_ABI, ERC20_ABI, PERMIT2_ADDRESS, PERMIT_ABI } from '../utils/abis.js';
+import { ValidationError } from '../utils/errors.js';
+import { getTokenRegistry } from '../utils/tokenRegistry.js';
+import type { ApprovalInfo, PermitToSign, Transaction } from '../types/index.js';
+
+// Tokens that revert when changing a non-zero allowance to another non-zero value, on any chain
+const RESET_ALLOWANCE_TOKENS = new Set([
+  '0xdac17f958d2ee523a2206206994597c13d831ec7', // USDT (Ethereum)
+  '0xdd974d5c2e2928dea5f71b9825b8b646686bd200' // KNC legacy (Ethereum)
+]);
+
+// Registry symbols reset the same way wherever they are deployed, an extra reset is harmless
+const RESET_ALLOWANCE_SYMBOLS = ['USDT'];
+
+// Tokens exposing nonces()/DOMAIN_SEPARATOR() with a non EIP-2612 permit (DAI-style)
+const NON_EIP2612_PERMIT_TOKENS: Record<number, string[]> = {
+  1: ['0x6b175474e89094c44da98b954eedeac495271d0f'], // DAI
+};
+
+const DEFAULT_PERMIT_VALIDITY_SECONDS = 30 * 60;
+
+export interface ApprovalRequest {
+  chainName: string;
+  token: string;
+  owner: string;
+  spender: string;
+  amount: string;
+  usePermit?: boolean;
+  permitSignature?: string;
+  permitDeadline?: number;
+  permitNonce?: string;
+  deadline?: number; // Swap deadline (unix seconds), which a Permit2 permit has to share
+}
+
+export interface ApprovalPlan {
+  approval: ApprovalInfo;
+  transactions: Transaction[];
+  permit?: string; // Encoded permit to pass to VeloraDEX buildTx
+}
+
+/**
+ * Decides how the spender gets access to the source token: nothing, an existing allowance,
+ * approve (with a reset for USDT-style tokens), an EIP-2612 permit signature, or a Permit2
+ * signature for tokens the owner already approved to Permit2.
+ */
+export class ApprovalService {
+  /**
+   * Plan the approval for a swap, reading the current allowance on-chain
+   */
+  async planApproval(request: ApprovalRequest): Promise<ApprovalPlan> {
+    const { chainName, token, owner, spender, amount } = request;
+    const chainId = getChainId(chainName);
+    const approval: ApprovalInfo = { strategy: 'none', token, spender, requiredAmount: amount };
+
+    if (isNativeToken(token)) {
+      return { approval, transactions: [] };
+    }
+
+    const currentAllowance = await this.getAllowance(chainName, token, owner, spender);
+    if (currentAllowance !== undefined) {
+      approval.currentAllowance = currentAllowance.toString();
+
+      if (currentAllowance >= BigInt(amount)) {
+        return { approval: { ...approval, strategy: 'existing' }, transactions: [] };
+      }
+    }
+
+    if (request.usePermit && await this.supportsEip2612(chainName, chainId, token, owner)) {
+      return this.planPermit(request, chainId, approval);
+    }
+
+    if (request.usePermit) {
+      const permit2Allowance = await this.getAllowance(chainName, token, owner, PERMIT2_ADDRESS);
+      if (permit2Allowance !== undefined && permit2Allowance >= BigInt(amount)) {
+        return this.planPermit2(request, chainId, approval);
+      }
+    }
+
+    const approveTransaction = this.buildApproveTransaction(chainId, token, spender, amount);
+
+    // If the allowance could not be read, reset defensively since approve would otherwise revert
+    const needsReset = needsAllowanceReset(chainId, token) && (currentAllowance === undefined || currentAllowance > 0n);
+    if (needsReset) {
+      return {
+        approval: { ...approval, strategy: 'reset-and-approve' },
+        transactions: [this.buildApproveTransaction(chainId, token, spender, '0'), approveTransaction]
+      };
+    }
+
+    return { approval: { ...approval, strategy: 'approve' }, transactions: [approveTransaction] };
+  }
+
+  /**
+   * Build an ERC20 approve transaction
+   */
+  buildApproveTransaction(chainId: number, token: string, spender: string, amount: string): Transaction {
+    return {
+      chainId,
+      to: token,
+      value: '0',
+      data: encodeFunctionData({
+        abi: APPROVE_ABI,
+        functionName: "approve",
+        args: [spender, amount]
+      })
+    };
+  }
+
+  /**
+   * Either return the EIP-2612 payload to sign, or encode the signature the caller sent back
+   */
+  private async planPermit(request: ApprovalRequest, chainId: number, approval: ApprovalInfo): Promise<ApprovalPlan> {
+    const { owner, spender, amount, permitSignature, permitDeadline } = request;
+
+    if (permitSignature) {
+      if (!permitDeadline) {
+        throw new ValidationError('INVALID_REQUEST', 'permitDeadline is required together with permitSignature', 'permitDeadline');
+      }
+
+      return {
+        approval: { ...approval, strategy: 'permit' },
+        transactions: [],
+        permit: encodeEip2612Permit(owner, spender, amount, permitDeadline, permitSignature)
+      };
+    }
+
+    return {
+      approval: { ...approval, strategy: 'permit', permit: await this.buildPermitToSign(request, chainId) },
+      transactions: []
+    };
+  }
+
+  /**
+   * Either return the Permit2 SignatureTransfer payload to sign, or encode the signature the caller sent back.
+   * AugustusV6 checks the signature against the swap deadline, so the permit and the swap share it.
+   */
+  private planPermit2(request: ApprovalRequest, chainId: number, approval: ApprovalInfo): ApprovalPlan {
+    const { token, spender, amount, permitSignature, permitDeadline, permitNonce } = request;
+
+    if (permitSignature) {
+      if (!permitDeadline || !permitNonce || !/^\d+$/.test(permitNonce)) {
+        throw new ValidationError('INVALID_REQUEST', 'permitDeadline and permitNonce are required together with a Permit2 permitSignature', 'permitNonce');
+      }
+
+      return {
+        approval: { ...approval, strategy: 'permit2' },
+        transactions: [],
+        permit: encodePermit2TransferFrom(permitNonce, permitSignature)
+      };
+    }
+
+    // Permit2 nonces are unordered, any unused value works
+    const nonce = BigInt(toHex(crypto.getRandomValues(new Uint8Array(16)))).toString();
+    const deadline = request.deadline ?? Math.floor(Date.now() / 1000) + DEFAULT_PERMIT_VALIDITY_SECONDS;
+
+    return {
+      approval: {
+        ...approval,
+        strategy: 'permit2',
+        permit: {
+          deadline,
+          nonce,
+          typedData: {
+            domain: { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+            types: {
+              PermitTransferFrom: [
+                { name: 'permitted', type: 'TokenPermissions' },
+                { name: 'spender', type: 'address' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'deadline', type: 'uint256' }
+              ],
+              TokenPermissions: [
+                { name: 'token', type: 'address' },
+                { name: 'amount', type: 'uint256' }
+              ]
+            },
+            primaryType: 'PermitTransferFrom',
+            message: { permitted: { token, amount }, spender, nonce, deadline: deadline.toString() }
+          }
+        }
+      },
+      transactions: []
+    };
+  }
+
+  /**
+   * Build the EIP-712 typed data of an EIP-2612 permit
+   */
+  private async buildPermitToSign(request: ApprovalRequest, chainId: number): Promise<PermitToSign> {
+    const { chainName, token, owner, spender, amount } = request;
+    const client = getPublicClient(chainName);
+    const address = token as Address;
+
+    const [name, nonce] = await Promise.all([
+      client.readContract({ address, abi: PERMIT_ABI, functionName: 'name' }) as Promise<string>,
+      client.readContract({ address, abi: PERMIT_ABI, functionName: 'nonces', args: [owner] }) as Promise<bigint>
+    ]);
+
+    let version = '1';
+    try {
+      version = await client.readContract({ address, abi: PERMIT_ABI, functionName: 'version' }) as string;
+    } catch (error) {
+      // version() is optional, most tokens use "1"
+    }
+
+    const deadline = Math.floor(Date.now() / 1000) + DEFAULT_PERMIT_VALIDITY_SECONDS;
+
+    return {
+      deadline,
+      typedData: {
+        domain: { name, version, chainId, verifyingContract: token },
+        types: {
+          Permit: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'value', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' }
+          ]
+        },
+        primaryType: 'Permit',
+        message: { owner, spender, value: amount, nonce: nonce.toString(), deadline: deadline.toString() }
+      }
+    };
+  }
+
+  /**
+   * Read the current allowance, or undefined when the RPC call fails
+   */
+  private async getAllowance(chainName: string, token: string, owner: string, spender: string): Promise<bigint | undefined> {
+    try {
+      return await getPublicClient(chainName).readContract({
+        address: token as Address,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [owner, spender]
+      }) as bigint;
+    } catch (error) {
+      console.warn(`Could not read allowance of ${token} on ${chainName}, falling back to approve:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * A token supports EIP-2612 when it exposes DOMAIN_SEPARATOR() and nonces(owner)
+   */
+  private async supportsEip2612(chainName: string, chainId: number, token: string, owner: string): Promise<boolean> {
+    if (NON_EIP2612_PERMIT_TOKENS[chainId]?.includes(token.toLowerCase())) {
+      return false;
+    }
+
+    try {
+      const client = getPublicClient(chainName);
+      await Promise.all([
+        client.readContract({ address: token as Address, abi: PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' }),
+        client.readContract({ address: token as Address, abi: PERMIT_ABI, functionName: 'nonces', args: [owner] })
+      ]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+function needsAllowanceReset(chainId: number, token: string): boolean {
+  if (RESET_ALLOWANCE_TOKENS.has(token.toLowerCase())) {
+    return true;
+  }
+
+  const symbol = getTokenRegistry().findByAddress(chainId, token)?.symbol.toUpperCase();
+  return symbol !== undefined && RESET_ALLOWANCE_SYMBOLS.includes(symbol);
+}
+
+/**
+ * Encode a Permit2 SignatureTransfer permit the way AugustusV6 expects it: abi.encodePacked(nonce, compact signature)
+ */
+export function encodePermit2TransferFrom(nonce: string, signature: string): Hex {
+  const compact = serializeCompactSignature(signatureToCompactSignature(parseSignature(signature as Hex)));
+  return encodePacked(['uint256', 'bytes'], [BigInt(nonce), compact]);
+}
+
+/**
+ * Encode an EIP-2612 permit the way VeloraDEX expects it: abi.encode(owner, spender, value, deadline, v, r, s)
+ */
+export function encodeEip2612Permit(owner: string, spender: string, value: string, deadline: number, signature: string): Hex {
+  const { r, s, v, yParity } = parseSignature(signature as Hex);
+
+  return encodeAbiParameters(
+    [
+      { type: 'address' },
+      { type: 'address' },
+      { type: 'uint256' },
+      { type: 'uint256' },
+      { type: 'uint8' },
+      { type: 'bytes32' },
+      { type: 'bytes32' }
+    ],
+    [owner as Address, spender as Address, BigInt(value), BigInt(deadline), Number(v ?? 27n + BigInt(yParity)), r, s]
+  );
+}
@@ -0,0 +1,560 @@
+import { formatUnits, getAddress } from 'viem';
+import { assertValidSwapRequest, getChainId, isChecksummedAddress } from '../utils/helpers.js';
+import { RouteError, ValidationError } from '../utils/errors.js';
+import { findUsdc, loadConfiguredTokenLists } from '../utils/tokenRegistry.js';
+import { SwapService } from './swapService.js';
+import { TokenResolver } from './tokenResolver.js';
+import { VeloraProvider } from './veloraProvider.js';
+import { VeloraSDKRegistry } from './veloraSdkRegistry.js';
+import { QuoteCache } from './quoteCache.js';
+import type { SqlStorageLike } from './swapTrackingService.js';
+import type {
+  ConditionalSwapExecution,
+  ConditionalSwapOrder,
+  ConditionalSwapRequest,
+  ConditionalSwapRunSummary,
+  ConditionalSwapStatus,
+  TokenInfo
+} from '../types/index.js';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// The cron trigger runs every 10 minutes, shorter intervals could not be honoured
+const MIN_INTERVAL_SECONDS = 600;
+
+// Executions kept on an order, the swaps built by older ones are stale anyway
+const MAX_KEPT_EXECUTIONS = 10;
+
+// Orders the cron still runs
+const ACTIVE_STATUSES: ConditionalSwapStatus[] = ['pending', 'ready'];
+
+// How long a cron run holds an order, shorter than the cron interval so a crashed run does not block the next
+const RUN_LEASE_MS = 5 * 60_000;
+
+// Consecutive failed runs before an order is marked failed, retried after 10, 20, 40 and 80 minutes
+const MAX_FAILED_ATTEMPTS = 5;
+
+/**
+ * Current time in milliseconds, Date itself fits
+ */
+export interface Clock {
+  now(): number;
+}
+
+export interface PriceSource {
+  getUsdPrice(chainName: string, token: TokenInfo, userAddress: string): Promise<number>;
+}
+
+/**
+ * Prices a whole token with a VeloraDEX quote against the chain's USDC
+ */
+export class UsdcPriceSource implements PriceSource {
+  private readonly velora: VeloraProvider;
+
+  constructor(sdkRegistry: VeloraSDKRegistry = new VeloraSDKRegistry(), quoteCache: QuoteCache = new QuoteCache()) {
+    this.velora = new VeloraProvider(sdkRegistry, quoteCache);
+  }
+
+  async getUsdPrice(chainName: string, token: TokenInfo, userAddress: string): Promise<number> {
+    const chainId = getChainId(chainName);
+    const usdc = findUsdc(chainId);
+    if (!usdc) {
+      throw new RouteError('NO_ROUTE', `No USDC on ${chainName} to price ${token.symbol} against`);
+    }
+    if (token.address.toLowerCase() === usdc.address.toLowerCase()) {
+      return 1;
+    }
+
+    const quote = await this.velora.quote({
+      chainId,
+      srcToken: token.address,
+      srcDecimals: token.decimals,
+      destToken: usdc.address,
+      destDecimals: usdc.decimals,
+      amount: (10n ** BigInt(token.decimals)).toString(),
+      side: 'SELL',
+      userAddress
+    });
+    return Number(formatUnits(BigInt(quote.destAmount), usdc.decimals));
+  }
+}
+
+export interface ConditionalSwapFilter {
+  chain?: string;
+  status?: ConditionalSwapStatus;
+  limit?: number;
+}
+
+// What the stores list: one owner's orders
+export type ConditionalSwapListFilter = ConditionalSwapFilter & { owner: string; limit: number };
+
+/**
+ * Where conditional orders live, by id. claim, complete and cancel check and update an order in one step,
+ * so overlapping cron runs never run an order twice and a cancelled order is never brought back.
+ */
+export interface ConditionalSwapStore {
+  get(id: string): Promise<ConditionalSwapOrder | undefined>;
+  put(order: ConditionalSwapOrder): Promise<void>;
+  list(filter: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]>;
+  listDue(now: string): Promise<ConditionalSwapOrder[]>; // Active orders whose nextRunAt has passed
+  claim(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined>; // Undefined when not due or already running
+  complete(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean>; // False when the claim was lost, e.g. to a cancel
+  cancel(id: string, now: string): Promise<ConditionalSwapOrder | undefined>; // Undefined when the order is no longer active
+}
+
+/**
+ * Process-local store, used when running under Node
+ */
+export class MemoryConditionalSwapStore implements ConditionalSwapStore {
+  private orders = new Map<string, ConditionalSwapOrder>();
+
+  async get(id: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.orders.get(id);
+  }
+
+  async put(order: ConditionalSwapOrder): Promise<void> {
+    this.orders.set(order.id, order);
+  }
+
+  async claim(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined> {
+    const claimed = claimOrder(this.orders.get(id), now, leaseUntil);
+    if (claimed) {
+      this.orders.set(id, claimed);
+    }
+    return claimed;
+  }
+
+  async complete(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean> {
+    if (!isClaimedBy(this.orders.get(order.id), leaseUntil)) {
+      return false;
+    }
+    this.orders.set(order.id, order);
+    return true;
+  }
+
+  async cancel(id: string, now: string): Promise<ConditionalSwapOrder | undefined> {
+    const cancelled = cancelOrder(this.orders.get(id), now);
+    if (cancelled) {
+      this.orders.set(id, cancelled);
+    }
+    return cancelled;
+  }
+
+  async list({ owner, chain, status, limit }: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]> {
+    return [...this.orders.values()]
+      .filter(order => order.owner === owner && (!chain || order.swap.fromChain === chain) && (!status || order.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  async listDue(now: string): Promise<ConditionalSwapOrder[]> {
+    return [...this.orders.values()]
+      .filter(order => ACTIVE_STATUSES.includes(order.status) && order.nextRunAt !== undefined && order.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt!.localeCompare(b.nextRunAt!));
+  }
+}
+
+/**
+ * SQLite storage of a Durable Object. Each method reads and writes without awaiting in between,
+ * which the Durable Object runs as a single transaction.
+ */
+export class SqliteConditionalSwapStore implements ConditionalSwapStore {
+  constructor(private readonly sql: SqlStorageLike) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS conditional_swaps (
+      id TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      chain TEXT NOT NULL,
+      status TEXT NOT NULL,
+      next_run_at TEXT,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    )`);
+  }
+
+  async get(id: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.read(id);
+  }
+
+  async put(order: ConditionalSwapOrder): Promise<void> {
+    this.write(order);
+  }
+
+  async claim(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined> {
+    const claimed = claimOrder(this.read(id), now, leaseUntil);
+    if (claimed) {
+      this.write(claimed);
+    }
+    return claimed;
+  }
+
+  async complete(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean> {
+    if (!isClaimedBy(this.read(order.id), leaseUntil)) {
+      return false;
+    }
+    this.write(order);
+    return true;
+  }
+
+  async cancel(id: string, now: string): Promise<ConditionalSwapOrder | undefined> {
+    const cancelled = cancelOrder(this.read(id), now);
+    if (cancelled) {
+      this.write(cancelled);
+    }
+    return cancelled;
+  }
+
+  async list({ owner, chain, status, limit }: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]> {
+    const conditions = ['owner = ?'];
+    const bindings: unknown[] = [owner];
+    if (chain) {
+      conditions.push('chain = ?');
+      bindings.push(chain);
+    }
+    if (status) {
+      conditions.push('status = ?');
+      bindings.push(status);
+    }
+
+    return this.sql
+      .exec(`SELECT data FROM conditional_swaps WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ?`, ...bindings, limit)
+      .toArray()
+      .map(row => JSON.parse(String(row.data)));
+  }
+
+  async listDue(now: string): Promise<ConditionalSwapOrder[]> {
+    return this.sql
+      .exec(
+        `SELECT data FROM conditional_swaps WHERE status IN (${ACTIVE_STATUSES.map(() => '?').join(', ')}) AND next_run_at <= ? ORDER BY next_run_at`,
+        ...ACTIVE_STATUSES, now
+      )
+      .toArray()
+      .map(row => JSON.parse(String(row.data)));
+  }
+
+  private read(id: string): ConditionalSwapOrder | undefined {
+    const [row] = this.sql.exec('SELECT data FROM conditional_swaps WHERE id = ?', id).toArray();
+    return row && JSON.parse(String(row.data));
+  }
+
+  private write(order: ConditionalSwapOrder): void {
+    this.sql.exec(
+      `INSERT INTO conditional_swaps (id, owner, chain, status, next_run_at, created_at, data) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET status = excluded.status, next_run_at = excluded.next_run_at, data = excluded.data`,
+      order.id, order.owner, order.swap.fromChain, order.status, order.nextRunAt ?? null, order.createdAt, JSON.stringify(order)
+    );
+  }
+}
+
+/**
+ * Store methods exposed over Durable Object RPC by the object holding the orders
+ */
+export interface ConditionalSwapStoreStub {
+  getConditionalSwap(id: string): Promise<ConditionalSwapOrder | undefined>;
+  putConditionalSwap(order: ConditionalSwapOrder): Promise<void>;
+  listConditionalSwaps(filter: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]>;
+  listDueConditionalSwaps(now: string): Promise<ConditionalSwapOrder[]>;
+  claimConditionalSwap(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined>;
+  completeConditionalSwap(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean>;
+  cancelConditionalSwap(id: string, now: string): Promise<ConditionalSwapOrder | undefined>;
+}
+
+/**
+ * Orders kept by a single Durable Object, so the cron trigger sees the orders of every MCP session
+ */
+export class DurableObjectConditionalSwapStore implements ConditionalSwapStore {
+  constructor(private readonly stub: ConditionalSwapStoreStub) {}
+
+  async get(id: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.stub.getConditionalSwap(id);
+  }
+
+  async put(order: ConditionalSwapOrder): Promise<void> {
+    await this.stub.putConditionalSwap(order);
+  }
+
+  async list(filter: ConditionalSwapListFilter): Promise<ConditionalSwapOrder[]> {
+    return this.stub.listConditionalSwaps(filter);
+  }
+
+  async listDue(now: string): Promise<ConditionalSwapOrder[]> {
+    return this.stub.listDueConditionalSwaps(now);
+  }
+
+  async claim(id: string, now: string, leaseUntil: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.stub.claimConditionalSwap(id, now, leaseUntil);
+  }
+
+  async complete(order: ConditionalSwapOrder, leaseUntil: string): Promise<boolean> {
+    return this.stub.completeConditionalSwap(order, leaseUntil);
+  }
+
+  async cancel(id: string, now: string): Promise<ConditionalSwapOrder | undefined> {
+    return this.stub.cancelConditionalSwap(id, now);
+  }
+}
+
+/**
+ * Swaps that wait for a time or a price. Orders are stored when created and re-checked by the cron
+ * trigger: a due order whose price condition holds (or that has none) gets a freshly built swap to sign.
+ * Repeating orders (DCA) are then marked ready and scheduled one interval later, orders without runs
+ * left are done. Failed runs are recorded on the order and retried with a growing delay, until
+ * MAX_FAILED_ATTEMPTS consecutive failures mark the order failed.
+ */
+export class ConditionalSwapService {
+  constructor(
+    private readonly store: ConditionalSwapStore = new MemoryConditionalSwapStore(),
+    private readonly swapService: SwapService = new SwapService(),
+    private readonly tokenResolver: TokenResolver = new TokenResolver(),
+    private readonly priceSource: PriceSource = new UsdcPriceSource(),
+    private readonly clock: Clock = Date
+  ) {}
+
+  async createOrder(request: ConditionalSwapRequest): Promise<ConditionalSwapOrder> {
+    await loadConfiguredTokenLists();
+    assertValidSwapRequest(request);
+
+    const nowMs = this.clock.now();
+    validateSchedule(request, nowMs);
+
+    const fromChain = request.fromChain.toUpperCase();
+    // Unknown tokens are rejected now rather than on every run
+    await this.tokenResolver.resolveToken(fromChain, request.fromToken);
+    const toToken = await this.tokenResolver.resolveToken(fromChain, request.toToken);
+    const { condition } = request;
+    const conditionToken = condition?.token ? await this.tokenResolver.resolveToken(fromChain, condition.token) : toToken;
+
+    const now = new Date(nowMs).toISOString();
+    const repeating = request.intervalSeconds !== undefined;
+    const order: ConditionalSwapOrder = {
+      id: crypto.randomUUID(),
+      owner: getAddress(request.fromAddress),
+      status: 'pending',
+      swap: {
+        amount: request.amount,
+        fromToken: request.fromToken,
+        toToken: request.toToken,
+        fromAddress: request.fromAddress,
+        fromChain,
+        ...(request.mode && { mode: request.mode }),
+        ...(request.slippage !== undefined && { slippage: request.slippage }),
+        ...(request.side && { side: request.side }),
+        ...(request.receiver && { receiver: request.receiver }),
+        ...(request.gasSpeed && { gasSpeed: request.gasSpeed }),
+        ...(request.outputFormat && { outputFormat: request.outputFormat })
+      },
+      ...(condition && {
+        condition: {
+          token: conditionToken,
+          ...(condition.below !== undefined && { below: condition.below }),
+          ...(condition.above !== undefined && { above: condition.above })
+        }
+      }),
+      ...(repeating && { intervalSeconds: request.intervalSeconds }),
+      ...((!repeating || request.executions !== undefined) && { remainingExecutions: request.executions ?? 1 }),
+      nextRunAt: request.startAt ? new Date(request.startAt * 1000).toISOString() : now,
+      ...(request.expiresAt && { expiresAt: new Date(request.expiresAt * 1000).toISOString() }),
+      executions: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.put(order);
+    return order;
+  }
+
+  async listOrders(owner: string, filter: ConditionalSwapFilter = {}): Promise<ConditionalSwapOrder[]> {
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    return this.store.list({ ...filter, owner: toOwner(owner), chain: filter.chain?.toUpperCase(), limit });
+  }
+
+  async cancelOrder(id: string, owner: string): Promise<ConditionalSwapOrder> {
+    const order = await this.store.get(id);
+    // Other wallets' orders are reported as missing, so ids cannot be probed
+    if (!order || order.owner !== toOwner(owner)) {
+      throw new ValidationError('ORDER_NOT_FOUND', `Conditional swap ${id} not found`, 'id');
+    }
+
+    const cancelled = await this.store.cancel(id, new Date(this.clock.now()).toISOString());
+    if (!cancelled) {
+      const current = await this.store.get(id);
+      throw new ValidationError('INVALID_REQUEST', `Conditional swap ${id} is already ${current?.status ?? order.status}`, 'id');
+    }
+    return cancelled;
+  }
+
+  /**
+   * Run every due order, one after the other. Called by the cron trigger.
+   */
+  async runDueOrders(): Promise<ConditionalSwapRunSummary> {
+    await loadConfiguredTokenLists();
+    const nowMs = this.clock.now();
+    const now = new Date(nowMs).toISOString();
+    const leaseUntil = new Date(nowMs + RUN_LEASE_MS).toISOString();
+    const due = await this.store.listDue(now);
+    const summary: ConditionalSwapRunSummary = { checked: 0, triggered: [], expired: [], failed: [] };
+
+    for (const { id } of due) {
+      // Orders an overlapping run holds, or that were cancelled meanwhile, are skipped
+      const order = await this.store.claim(id, now, leaseUntil);
+      if (!order) {
+        continue;
+      }
+      summary.checked++;
+
+      // Orders cancelled while being quoted stay cancelled
+      const updated = await this.runOrder(order, now);
+      if (!(await this.store.complete(updated, leaseUntil))) {
+        continue;
+      }
+
+      if (updated.status === 'expired') {
+        summary.expired.push(id);
+      } else if (updated.lastError) {
+        summary.failed.push(id);
+      } else if (updated.executions.length > order.executions.length) {
+        summary.triggered.push(id);
+      }
+    }
+
+    return summary;
+  }
+
+  private async runOrder(order: ConditionalSwapOrder, now: string): Promise<ConditionalSwapOrder> {
+    const { lastError: _lastError, failedAttempts = 0, runningUntil: _runningUntil, nextRunAt, ...rest } = order;
+    const checked = { ...rest, lastCheckedAt: now, updatedAt: now };
+
+    if (order.expiresAt && order.expiresAt <= now) {
+      return { ...checked, status: 'expired' };
+    }
+
+    let priceUsd: number | undefined;
+    try {
+      if (order.condition) {
+        priceUsd = await this.priceSource.getUsdPrice(order.swap.fromChain, order.condition.token, order.swap.fromAddress);
+        if (!isConditionMet(order.condition, priceUsd)) {
+          return { ...checked, nextRunAt, lastPriceUsd: priceUsd };
+        }
+      }
+
+      const execution: ConditionalSwapExecution = {
+        triggeredAt: now,
+        ...(priceUsd !== undefined && { priceUsd }),
+        swap: await this.swapService.buildSwapTransaction(order.swap)
+      };
+      const remainingExecutions = order.remainingExecutions === undefined ? undefined : order.remainingExecutions - 1;
+      const next = order.intervalSeconds && remainingExecutions !== 0 ? getNextRun(nextRunAt!, order.intervalSeconds, now) : undefined;
+
+      return {
+        ...checked,
+        status: next ? 'ready' : 'done',
+        ...(remainingExecutions !== undefined && { remainingExecutions }),
+        ...(next && { nextRunAt: next }),
+        ...(priceUsd !== undefined && { lastPriceUsd: priceUsd }),
+        executions: [...order.executions, execution].slice(-MAX_KEPT_EXECUTIONS)
+      };
+    } catch (error) {
+      console.warn(`Conditional swap ${order.id} failed:`, error);
+      const attempts = failedAttempts + 1;
+      const retryAt = new Date(Date.parse(now) + MIN_INTERVAL_SECONDS * 1000 * 2 ** (attempts - 1)).toISOString();
+      return {
+        ...checked,
+        ...(attempts < MAX_FAILED_ATTEMPTS ? { nextRunAt: retryAt } : { status: 'failed' }),
+        failedAttempts: attempts,
+        ...(priceUsd !== undefined && { lastPriceUsd: priceUsd }),
+        lastError: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+function validateSchedule(request: ConditionalSwapRequest, nowMs: number): void {
+  const { condition, startAt, intervalSeconds, executions, expiresAt } = request;
+  if (!condition && startAt === undefined && intervalSeconds === undefined) {
+    throw new ValidationError('INVALID_REQUEST', 'A conditional swap needs a price condition, a startAt time or an intervalSeconds schedule', 'condition');
+  }
+
+  if (condition) {
+    const bounds = [condition.below, condition.above].filter(bound => bound !== undefined);
+    if (bounds.length === 0 || bounds.some(bound => !Number.isFinite(bound) || bound! <= 0)) {
+      throw new ValidationError('INVALID_REQUEST', 'Price condition needs a positive below and/or above USD price', 'condition');
+    }
+    if (condition.below !== undefined && condition.above !== undefined && condition.above >= condition.below) {
+      throw new ValidationError('INVALID_REQUEST', 'Price condition above must be lower than below, the order triggers in between', 'condition');
+    }
+  }
+
+  if (intervalSeconds !== undefined && (!Number.isInteger(intervalSeconds) || intervalSeconds < MIN_INTERVAL_SECONDS)) {
+    throw new ValidationError('INVALID_REQUEST', `intervalSeconds must be an integer of at least ${MIN_INTERVAL_SECONDS}`, 'intervalSeconds');
+  }
+  if (executions !== undefined && (!Number.isInteger(executions) || executions < 1)) {
+    throw new ValidationError('INVALID_REQUEST', 'executions must be a positive integer', 'executions');
+  }
+  if (executions !== undefined && executions > 1 && intervalSeconds === undefined) {
+    throw new ValidationError('INVALID_REQUEST', 'Repeated executions need an intervalSeconds schedule', 'executions');
+  }
+
+  for (const [field, value] of [['startAt', startAt], ['expiresAt', expiresAt]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new ValidationError('INVALID_REQUEST', `${field} must be a unix timestamp in seconds`, field);
+    }
+  }
+  if (expiresAt !== undefined && (expiresAt * 1000 <= nowMs || (startAt !== undefined && expiresAt <= startAt))) {
+    throw new ValidationError('INVALID_REQUEST', 'expiresAt must be in the future and after startAt', 'expiresAt');
+  }
+}
+
+/**
+ * The price is below `below` and above `above`, for the bounds that are set
+ */
+function isConditionMet(condition: NonNullable<ConditionalSwapOrder['condition']>, priceUsd: number): boolean {
+  return (condition.below === undefined || priceUsd < condition.below) && (condition.above === undefined || priceUsd > condition.above);
+}
+
+/**
+ * The order marked as run until leaseUntil, undefined when it is not due or another run holds it
+ */
+function claimOrder(order: ConditionalSwapOrder | undefined, now: string, leaseUntil: string): ConditionalSwapOrder | undefined {
+  const due = order && ACTIVE_STATUSES.includes(order.status) && order.nextRunAt !== undefined && order.nextRunAt <= now;
+  if (!due || (order.runningUntil !== undefined && order.runningUntil > now)) {
+    return undefined;
+  }
+  return { ...order, runningUntil: leaseUntil };
+}
+
+/**
+ * The order is still active and held by the run that claimed it until leaseUntil
+ */
+function isClaimedBy(order: ConditionalSwapOrder | undefined, leaseUntil: string): boolean {
+  return order !== undefined && ACTIVE_STATUSES.includes(order.status) && order.runningUntil === leaseUntil;
+}
+
+/**
+ * The order cancelled, undefined when it is no longer active. A run holding it loses its claim.
+ */
+function cancelOrder(order: ConditionalSwapOrder | undefined, now: string): ConditionalSwapOrder | undefined {
+  if (!order || !ACTIVE_STATUSES.includes(order.status)) {
+    return undefined;
+  }
+  const { nextRunAt: _nextRunAt, runningUntil: _runningUntil, ...rest } = order;
+  return { ...rest, status: 'cancelled', updatedAt: now };
+}
+
+/**
+ * Next slot of the schedule after now, runs missed while the cron was down are skipped
+ */
+function getNextRun(scheduledAt: string, intervalSeconds: number, now: string): string {
+  const intervalMs = intervalSeconds * 1000;
+  const elapsed = Date.parse(now) - Date.parse(scheduledAt);
+  return new Date(Date.parse(scheduledAt) + (Math.floor(elapsed / intervalMs) + 1) * intervalMs).toISOString();
+}
+
+/**
+ * Checksummed owner address, the key orders are listed and cancelled by
+ */
+function toOwner(address: string): string {
+  if (!isChecksummedAddress(address)) {
+    throw new ValidationError('INVALID_ADDRESS', 'Invalid wallet address or checksum', 'address');
+  }
+  return getAddress(address);
+}
@@ -0,0 +1,128 @@
+import type { Address, Hex } from 'viem';
+import { getPublicClient } from '../utils/rpc.js';
+import type { GasSpeed, Transaction } from '../types/index.js';
+
+// Blocks of fee history the priority fee is derived from
+const FEE_HISTORY_BLOCKS = 10;
+
+// Priority fee percentile of recent blocks, and headroom over the next base fee so the
+// transaction stays valid if the base fee keeps rising for a few blocks
+const SPEED_TIERS: Record<GasSpeed, { rewardPercentile: number; baseFeeMultiplierPercent: bigint }> = {
+  slow: { rewardPercentile: 10, baseFeeMultiplierPercent: 125n },
+  normal: { rewardPercentile: 50, baseFeeMultiplierPercent: 150n },
+  fast: { rewardPercentile: 90, baseFeeMultiplierPercent: 200n },
+};
+
+// Headroom over eth_estimateGas, the state can move between estimation and inclusion
+const GAS_LIMIT_BUFFER_PERCENT = 120n;
+
+export interface FeeEstimate {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface ApplyFeesRequest {
+  chainName: string;
+  owner: string;
+  transactions: Transaction[];
+  speed?: GasSpeed;
+}
+
+/**
+ * Prices transactions as EIP-1559 from eth_feeHistory, sets their gas limits from eth_estimateGas
+ * and numbers them with sequential nonces, so the approve + swap bundle can be sent back-to-back
+ * without the wallet re-estimating.
+ */
+export class FeeService {
+  /**
+   * Estimate EIP-1559 fees for a speed tier
+   */
+  async estimateFees(chainName: string, speed: GasSpeed = 'normal'): Promise<FeeEstimate> {
+    const { rewardPercentile, baseFeeMultiplierPercent } = SPEED_TIERS[speed];
+    const feeHistory = await getPublicClient(chainName).getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      rewardPercentiles: [rewardPercentile],
+      blockTag: 'latest'
+    });
+
+    // The last entry is the base fee of the next block
+    const nextBaseFee = feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1];
+    if (nextBaseFee === undefined) {
+      throw new Error(`Chain ${chainName} did not report an EIP-1559 base fee`);
+    }
+
+    const maxPriorityFeePerGas = median((feeHistory.reward ?? []).map(rewards => rewards[0]));
+
+    return {
+      maxFeePerGas: nextBaseFee * baseFeeMultiplierPercent / 100n + maxPriorityFeePerGas,
+      maxPriorityFeePerGas
+    };
+  }
+
+  /**
+   * Return the transactions with EIP-1559 fees, gas limits and nonces starting at the owner's pending nonce.
+   * When the RPC cannot be read they are returned unchanged and the wallet fills the fields in.
+   */
+  async applyFees(request: ApplyFeesRequest): Promise<Transaction[]> {
+    const { chainName, owner, transactions, speed } = request;
+    if (transactions.length === 0) {
+      return transactions;
+    }
+
+    let fees: FeeEstimate;
+    let nonce: number;
+    let gasLimits: (string | undefined)[];
+    try {
+      [fees, nonce, gasLimits] = await Promise.all([
+        this.estimateFees(chainName, speed),
+        getPublicClient(chainName).getTransactionCount({ address: owner as Address, blockTag: 'pending' }),
+        this.estimateGasLimits(chainName, owner, transactions)
+      ]);
+    } catch (error) {
+      console.warn(`Fee estimation unavailable on ${chainName}:`, error);
+      return transactions;
+    }
+
+    // gasPrice from VeloraDEX is dropped, wallets reject it together with EIP-1559 fields
+    return transactions.map(({ gasPrice, ...tx }, index) => ({
+      ...tx,
+      type: 'eip1559',
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      ...(gasLimits[index] && { gasLimit: gasLimits[index] }),
+      nonce: nonce + index
+    }));
+  }
+
+  /**
+   * Buffered eth_estimateGas of each transaction. A call that depends on an earlier transaction
+   * of the bundle (a swap after its approve) reverts when estimated alone, it keeps the gas limit
+   * the provider built it with.
+   */
+  private async estimateGasLimits(chainName: string, owner: string, transactions: Transaction[]): Promise<(string | undefined)[]> {
+    const client = getPublicClient(chainName);
+
+    return Promise.all(transactions.map(async tx => {
+      try {
+        const gas = await client.estimateGas({
+          account: owner as Address,
+          to: tx.to as Address,
+          data: tx.data as Hex | undefined,
+          value: BigInt(tx.value)
+        });
+        return (gas * GAS_LIMIT_BUFFER_PERCENT / 100n).toString();
+      } catch (error) {
+        return tx.gasLimit;
+      }
+    }));
+  }
+}
+
+function median(values: bigint[]): bigint {
+  if (values.length === 0) {
+    return 0n;
+  }
+
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
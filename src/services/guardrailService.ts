@@ -0,0 +1,114 @@
+import { getGasToTradePercent, getNotionalUsd, getPriceImpactPercent } from '../utils/quote.js';
+import { RouteError } from '../utils/errors.js';
+import type { GuardrailPolicy, GuardrailResult, GuardrailViolation } from '../types/index.js';
+
+const DEFAULT_MAX_PRICE_IMPACT_PERCENT = 5;
+const DEFAULT_MAX_GAS_TO_TRADE_PERCENT = 20;
+
+// Violations acceptHighImpact can bypass, the notional cap always applies
+const OVERRIDABLE_VIOLATIONS: GuardrailViolation['code'][] = ['PRICE_IMPACT_TOO_HIGH', 'GAS_COST_TOO_HIGH'];
+
+export interface GuardrailRequest {
+  chainName: string;
+  priceRoute: { srcUSD?: string; destUSD?: string; gasCostUSD?: string };
+  acceptHighImpact?: boolean;
+  acceptUnverifiedGuardrails?: boolean;
+}
+
+/**
+ * Read the guardrail policy for a chain. Each limit can be set globally (e.g. MAX_PRICE_IMPACT_PERCENT)
+ * and overridden per chain (e.g. BASE_MAX_PRICE_IMPACT_PERCENT). A limit of 0 or below disables it.
+ */
+export function getGuardrailPolicy(chainName: string): GuardrailPolicy {
+  const read = (name: string): string | undefined =>
+    process.env[`${chainName.toUpperCase()}_${name}`] ?? process.env[name];
+  const readLimit = (name: string, fallback?: number): number | undefined => {
+    const value = read(name);
+    const limit = value !== undefined && value !== '' ? Number(value) : fallback;
+    return limit !== undefined && Number.isFinite(limit) && limit > 0 ? limit : undefined;
+  };
+
+  return {
+    maxPriceImpactPercent: readLimit('MAX_PRICE_IMPACT_PERCENT', DEFAULT_MAX_PRICE_IMPACT_PERCENT),
+    maxGasToTradePercent: readLimit('MAX_GAS_TO_TRADE_PERCENT', DEFAULT_MAX_GAS_TO_TRADE_PERCENT),
+    maxNotionalUsd: readLimit('MAX_NOTIONAL_USD'),
+    allowOverride: read('ALLOW_HIGH_IMPACT_OVERRIDE') === 'true'
+  };
+}
+
+/**
+ * Rejects routes that lose too much value to price impact or gas, or that trade more than
+ * the configured notional, based on the USD values VeloraDEX returns with each price.
+ * Routes without those USD values are rejected too, as the limits cannot be checked.
+ */
+export class GuardrailService {
+  /**
+   * Evaluate a price route against the chain policy, throwing a RouteError when it is rejected
+   */
+  check(request: GuardrailRequest): GuardrailResult {
+    const { chainName, priceRoute, acceptHighImpact = false, acceptUnverifiedGuardrails = false } = request;
+    const policy = getGuardrailPolicy(chainName);
+    const priceImpactPercent = getPriceImpactPercent(priceRoute);
+    const gasToTradePercent = getGasToTradePercent(priceRoute);
+    const notionalUsd = getNotionalUsd(priceRoute);
+
+    // Fail closed: a limit that cannot be evaluated rejects the route, the notional cap even when the caller accepts it
+    const unverified = [
+      ...(priceImpactPercent === undefined && policy.maxPriceImpactPercent !== undefined ? ['maxPriceImpactPercent'] : []),
+      ...(notionalUsd === undefined && policy.maxNotionalUsd !== undefined ? ['maxNotionalUsd'] : [])
+    ];
+    if (unverified.length > 0 && (!acceptUnverifiedGuardrails || unverified.includes('maxNotionalUsd'))) {
+      const hint = unverified.includes('maxNotionalUsd') ? '' : ' (pass acceptUnverifiedGuardrails to build anyway)';
+      throw new RouteError(
+        'GUARDRAIL_UNVERIFIABLE',
+        `Swap rejected by guardrails: the route has no USD values to check ${unverified.join(' and ')} against${hint}`,
+        { details: { unverified } }
+      );
+    }
+
+    const violations: GuardrailViolation[] = [];
+    if (priceImpactPercent !== undefined && policy.maxPriceImpactPercent !== undefined && priceImpactPercent > policy.maxPriceImpactPercent) {
+      violations.push({
+        code: 'PRICE_IMPACT_TOO_HIGH',
+        message: `Price impact of ${priceImpactPercent}% exceeds the ${policy.maxPriceImpactPercent}% limit`,
+        value: priceImpactPercent,
+        limit: policy.maxPriceImpactPercent
+      });
+    }
+    if (gasToTradePercent !== undefined && policy.maxGasToTradePercent !== undefined && gasToTradePercent > policy.maxGasToTradePercent) {
+      violations.push({
+        code: 'GAS_COST_TOO_HIGH',
+        message: `Gas costs ${gasToTradePercent}% of the trade value, above the ${policy.maxGasToTradePercent}% limit`,
+        value: gasToTradePercent,
+        limit: policy.maxGasToTradePercent
+      });
+    }
+    if (notionalUsd !== undefined && policy.maxNotionalUsd !== undefined && notionalUsd > policy.maxNotionalUsd) {
+      violations.push({
+        code: 'NOTIONAL_TOO_HIGH',
+        message: `Trade value of $${notionalUsd} exceeds the $${policy.maxNotionalUsd} limit`,
+        value: notionalUsd,
+        limit: policy.maxNotionalUsd
+      });
+    }
+
+    const overridable = violations.every(violation => OVERRIDABLE_VIOLATIONS.includes(violation.code));
+    const overridden = violations.length > 0 && acceptHighImpact && policy.allowOverride && overridable;
+
+    if (violations.length > 0 && !overridden) {
+      const reasons = violations.map(violation => violation.message).join('; ');
+      const hint = acceptHighImpact && !policy.allowOverride ? ' (acceptHighImpact overrides are disabled on this server)' : '';
+      throw new RouteError(violations[0].code, `Swap rejected by guardrails: ${reasons}${hint}`, { details: { violations } });
+    }
+
+    return {
+      passed: violations.length === 0,
+      priceImpactPercent,
+      gasToTradePercent,
+      notionalUsd,
+      overridden,
+      violations,
+      ...(unverified.length > 0 && { unverified })
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { Address } from 'viem';
+import { isNativeToken } from '../utils/helpers.js';
+import { getPublicClient } from '../utils/rpc.js';
+import { ERC20_ABI } from '../utils/abis.js';
+import { toTokenAmount } from '../utils/quote.js';
+import type { PreflightIssue, PreflightResult } from '../types/index.js';
+
+// Typical gas usage when the route or RPC does not give a better estimate
+export const APPROVE_GAS_ESTIMATE = 60_000n;
+export const DEFAULT_SWAP_GAS_ESTIMATE = 300_000n;
+export const WRAP_GAS_ESTIMATE = 50_000n;
+
+const NATIVE_DECIMALS = 18;
+
+export interface PreflightRequest {
+  chainName: string;
+  owner: string;
+  token: string; // Source token address
+  tokenSymbol: string;
+  tokenDecimals: number;
+  amount: string; // Source amount the swap can spend
+  approvalCount: number; // Approve transactions sent before the swap
+  swapGas?: string; // Gas units of the swap itself, 0 when nothing is executed on-chain
+}
+
+/**
+ * Checks that the wallet can fund the swap: source token balance, and native balance
+ * for the gas of the approve + swap bundle (plus the amount itself for native swaps).
+ */
+export class PreflightService {
+  async check(request: PreflightRequest): Promise<PreflightResult> {
+    const { chainName, owner, token, tokenSymbol, tokenDecimals, amount, approvalCount } = request;
+    const estimatedGas = BigInt(approvalCount) * APPROVE_GAS_ESTIMATE +
+      (request.swapGas !== undefined ? BigInt(request.swapGas) : DEFAULT_SWAP_GAS_ESTIMATE);
+    const native = isNativeToken(token);
+
+    let gasPrice: bigint;
+    let nativeBalance: bigint;
+    let tokenBalance: bigint;
+    try {
+      const client = getPublicClient(chainName);
+
+      [gasPrice, nativeBalance, tokenBalance] = await Promise.all([
+        client.getGasPrice(),
+        client.getBalance({ address: owner as Address }),
+        native
+          ? Promise.resolve(0n)
+          : client.readContract({ address: token as Address, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] }) as Promise<bigint>
+      ]);
+      if (native) {
+        tokenBalance = nativeBalance;
+      }
+    } catch (error) {
+      console.warn(`Pre-flight checks unavailable on ${chainName}:`, error);
+      return {
+        passed: true,
+        estimatedGas: estimatedGas.toString(),
+        issues: [{
+          code: 'PREFLIGHT_UNAVAILABLE',
+          message: `Could not read balances on ${chainName}, the wallet was not checked`
+        }]
+      };
+    }
+
+    const issues: PreflightIssue[] = [];
+    const required = BigInt(amount);
+    const gasCost = estimatedGas * gasPrice;
+
+    if (tokenBalance < required) {
+      issues.push(buildShortfallIssue('INSUFFICIENT_BALANCE', `Insufficient ${tokenSymbol} balance`, token, required, tokenBalance, tokenDecimals));
+    }
+
+    // For native swaps the amount and the gas come out of the same balance
+    const nativeRequired = native ? required + gasCost : gasCost;
+    if ((!native || tokenBalance >= required) && nativeBalance < nativeRequired) {
+      issues.push(buildShortfallIssue('INSUFFICIENT_GAS', 'Insufficient native balance for gas', 'native', nativeRequired, nativeBalance, NATIVE_DECIMALS));
+    }
+
+    return {
+      passed: issues.length === 0,
+      estimatedGas: estimatedGas.toString(),
+      gasPrice: gasPrice.toString(),
+      estimatedGasCost: toTokenAmount(gasCost, NATIVE_DECIMALS),
+      issues
+    };
+  }
+}
+
+function buildShortfallIssue(
+  code: PreflightIssue['code'],
+  description: string,
+  token: string,
+  required: bigint,
+  available: bigint,
+  decimals: number
+): PreflightIssue {
+  const shortfall = toTokenAmount(required - available, decimals);
+
+  return {
+    code,
+    message: `${description}: short by ${shortfall.formatted}`,
+    token,
+    required: toTokenAmount(required, decimals),
+    available: toTokenAmount(available, decimals),
+    shortfall
+  };
+}
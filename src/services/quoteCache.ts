@@ -0,0 +1,213 @@
+import { ValidationError } from '../utils/errors.js';
+import type { CachedQuote, QuoteCacheStats } from '../types/index.js';
+
+// Identical quotes are reused for a few seconds, a quoteId stays buildable a bit longer
+const DEFAULT_REUSE_SECONDS = 10;
+const DEFAULT_QUOTE_ID_SECONDS = 120;
+
+// Expired entries are swept from persistent storage every this many writes
+const PRUNE_EVERY_WRITES = 100;
+
+export interface QuoteCacheParams {
+  srcToken: string;
+  destToken: string;
+  amount: string;
+  side: string;
+  mode: string;
+  destChainId?: number;
+  userAddress?: string; // Taker the quote was requested for
+}
+
+/**
+ * Where cached quotes live, by cache key and by quoteId
+ */
+export interface QuoteStore {
+  get(key: string): Promise<CachedQuote | undefined>;
+  put(key: string, entry: CachedQuote): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Subset of the Durable Object storage API used by DurableObjectQuoteStore
+ */
+export interface DurableObjectStorageLike {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list<T>(options: { prefix: string }): Promise<Map<string, T>>;
+}
+
+/**
+ * Process-local store, used when running under Node
+ */
+export class MemoryQuoteStore implements QuoteStore {
+  private entries = new Map<string, CachedQuote>();
+
+  async get(key: string): Promise<CachedQuote | undefined> {
+    return this.entries.get(key);
+  }
+
+  async put(key: string, entry: CachedQuote): Promise<void> {
+    const now = Date.now();
+    for (const [existingKey, existing] of this.entries) {
+      if (existing.expiresAt <= now) {
+        this.entries.delete(existingKey);
+      }
+    }
+
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Durable Object storage of a MyMCP session, so quotes survive between requests to the same session
+ */
+export class DurableObjectQuoteStore implements QuoteStore {
+  private static readonly PREFIX = 'quote:';
+  private writes = 0;
+
+  constructor(private readonly storage: DurableObjectStorageLike) {}
+
+  async get(key: string): Promise<CachedQuote | undefined> {
+    return this.storage.get<CachedQuote>(DurableObjectQuoteStore.PREFIX + key);
+  }
+
+  async put(key: string, entry: CachedQuote): Promise<void> {
+    await this.storage.put(DurableObjectQuoteStore.PREFIX + key, entry);
+
+    if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+      const now = Date.now();
+      const entries = await this.storage.list<CachedQuote>({ prefix: DurableObjectQuoteStore.PREFIX });
+      await Promise.all([...entries]
+        .filter(([, stored]) => stored.expiresAt <= now)
+        .map(([storedKey]) => this.storage.delete(storedKey)));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(DurableObjectQuoteStore.PREFIX + key);
+  }
+}
+
+/**
+ * Short-lived VeloraDEX quote cache. Identical requests (same chains, tokens, amount, side, mode and taker)
+ * share one quote for QUOTE_CACHE_TTL_SECONDS, identical requests already in flight are coalesced
+ * into a single call, and every quote gets a quoteId that can be built for QUOTE_ID_TTL_SECONDS.
+ */
+export class QuoteCache {
+  private inFlight = new Map<string, Promise<CachedQuote>>();
+  private stats = { hits: 0, misses: 0, coalesced: 0 };
+  private readonly reuseMs: number;
+  private readonly quoteIdMs: number;
+
+  constructor(private readonly store: QuoteStore = new MemoryQuoteStore()) {
+    this.reuseMs = readSeconds('QUOTE_CACHE_TTL_SECONDS', DEFAULT_REUSE_SECONDS) * 1000;
+    this.quoteIdMs = Math.max(readSeconds('QUOTE_ID_TTL_SECONDS', DEFAULT_QUOTE_ID_SECONDS) * 1000, this.reuseMs);
+  }
+
+  /**
+   * Return a fresh cached quote for the request, or fetch (once) and cache a new one
+   */
+  async getQuote(chainId: number, params: QuoteCacheParams, fetchQuote: () => Promise<any>): Promise<CachedQuote> {
+    const key = getQuoteCacheKey(chainId, params);
+
+    const cached = await this.store.get(`key:${key}`);
+    if (cached && cached.reuseUntil > Date.now()) {
+      this.stats.hits++;
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    this.stats.misses++;
+    const request = this.fetchAndStore(key, fetchQuote).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Look up a quote by the quoteId returned with it, checking it was made for the same request
+   */
+  async getByQuoteId(quoteId: string, chainId: number, params: QuoteCacheParams): Promise<CachedQuote> {
+    const cached = await this.store.get(`id:${quoteId}`);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      throw new ValidationError('QUOTE_EXPIRED', `Quote ${quoteId} is unknown or expired, request a new quote`, 'quoteId');
+    }
+
+    if (cached.key !== getQuoteCacheKey(chainId, params)) {
+      throw new ValidationError('INVALID_REQUEST', `Quote ${quoteId} was made for a different chain, token pair, amount, side, mode or wallet`, 'quoteId');
+    }
+
+    this.stats.hits++;
+    return cached;
+  }
+
+  /**
+   * The quote shown under quoteId while it has not expired, whatever request it was made for.
+   * Only quotes of this cache are found, so each session looks up its own quoteIds.
+   */
+  async findByQuoteId(quoteId: string): Promise<CachedQuote | undefined> {
+    const cached = await this.store.get(`id:${quoteId}`);
+    return cached && cached.expiresAt > Date.now() ? cached : undefined;
+  }
+
+  getStats(): QuoteCacheStats {
+    const { hits, misses, coalesced } = this.stats;
+    const total = hits + misses + coalesced;
+
+    return { hits, misses, coalesced, hitRate: total === 0 ? 0 : (hits + coalesced) / total };
+  }
+
+  private async fetchAndStore(key: string, fetchQuote: () => Promise<any>): Promise<CachedQuote> {
+    const quote = await fetchQuote();
+    const now = Date.now();
+    const entry: CachedQuote = {
+      quoteId: crypto.randomUUID(),
+      key,
+      quote,
+      createdAt: now,
+      reuseUntil: now + this.reuseMs,
+      expiresAt: now + this.quoteIdMs
+    };
+
+    // Empty quotes are handed back but never reused
+    if (quote) {
+      await Promise.all([
+        this.store.put(`key:${key}`, entry),
+        this.store.put(`id:${entry.quoteId}`, entry)
+      ]);
+    }
+
+    return entry;
+  }
+}
+
+/**
+ * Cache key of a quote request. The taker is part of it, so a quoteId only builds for the wallet it was shown to.
+ */
+export function getQuoteCacheKey(chainId: number, params: QuoteCacheParams): string {
+  return [
+    chainId,
+    params.destChainId ?? chainId,
+    params.srcToken.toLowerCase(),
+    params.destToken.toLowerCase(),
+    params.amount,
+    params.side,
+    params.mode,
+    params.userAddress?.toLowerCase() ?? ''
+  ].join(':');
+}
+
+function readSeconds(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -0,0 +1,137 @@
+import { decodeFunctionResult, encodeFunctionData, numberToHex, type Address, type Hex } from 'viem';
+import { isNativeToken } from '../utils/helpers.js';
+import { getSimulationClient } from '../utils/rpc.js';
+import { ERC20_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../utils/abis.js';
+import { decodeRevertReason } from '../utils/revert.js';
+import { toTokenAmount } from '../utils/quote.js';
+import type { BalanceChange, SimulatedTransaction, SimulationResult, Transaction } from '../types/index.js';
+
+export interface SimulationRequest {
+  chainName: string;
+  owner: string;
+  recipient?: string; // Receives the destination token (default owner)
+  transactions: Transaction[];
+  fromToken: { address: string; decimals: number };
+  toToken: { address: string; decimals: number };
+  expectedDestAmount: string;
+  minDestAmount: string;
+}
+
+/**
+ * Simulates the returned transactions in order with eth_simulateV1. All calls share one
+ * simulated block, so the approve's allowance is already in state when the swap executes.
+ * Balance reads are placed around the bundle to measure the token balance changes.
+ */
+export class SimulationService {
+  async simulate(request: SimulationRequest): Promise<SimulationResult> {
+    const { chainName, owner, transactions, fromToken, toToken } = request;
+    const expectedDestAmount = toTokenAmount(request.expectedDestAmount, toToken.decimals);
+    const minDestAmount = toTokenAmount(request.minDestAmount, toToken.decimals);
+
+    const balanceCalls = [
+      buildBalanceCall(owner, fromToken.address),
+      buildBalanceCall(request.recipient ?? owner, toToken.address)
+    ];
+    const calls = [
+      ...balanceCalls,
+      ...transactions.map(tx => ({
+        from: owner as Address,
+        to: tx.to as Address,
+        data: (tx.data ?? '0x') as Hex,
+        value: numberToHex(BigInt(tx.value || 0))
+      })),
+      ...balanceCalls
+    ];
+
+    let results: readonly { status: Hex; returnData: Hex; gasUsed: Hex; error?: { message: string; data?: Hex } }[];
+    try {
+      const [block] = await getSimulationClient(chainName).request({
+        method: 'eth_simulateV1',
+        params: [{ blockStateCalls: [{ calls }] }, 'latest']
+      });
+      results = block.calls;
+    } catch (error) {
+      console.warn(`Simulation unavailable on ${chainName}:`, error);
+      return {
+        success: false,
+        transactions: [],
+        expectedDestAmount,
+        minDestAmount,
+        error: `Simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+
+    const simulatedTransactions: SimulatedTransaction[] = transactions.map((tx, index) => {
+      const result = results[balanceCalls.length + index];
+      const success = result.status === '0x1';
+
+      return {
+        index,
+        to: tx.to,
+        success,
+        gasUsed: BigInt(result.gasUsed).toString(),
+        ...(!success && { revertReason: decodeRevertReason(result.error?.data ?? result.returnData, result.error?.message) })
+      };
+    });
+    const success = simulatedTransactions.every(tx => tx.success);
+
+    const afterOffset = balanceCalls.length + transactions.length;
+    const fromTokenChange = buildBalanceChange(fromToken, results[0], results[afterOffset]);
+    const toTokenChange = buildBalanceChange(toToken, results[1], results[afterOffset + 1]);
+
+    const result: SimulationResult = {
+      success,
+      transactions: simulatedTransactions,
+      fromTokenChange,
+      toTokenChange,
+      expectedDestAmount,
+      minDestAmount
+    };
+
+    if (success && toTokenChange) {
+      const received = BigInt(toTokenChange.change.raw);
+      const expected = BigInt(request.expectedDestAmount);
+      result.destAmountDeviationBps = expected === 0n ? 0 : Number((received - expected) * 10_000n / expected);
+      result.withinSlippage = received >= BigInt(request.minDestAmount);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * balanceOf for ERC20s, Multicall3.getEthBalance for the native token
+ */
+function buildBalanceCall(owner: string, token: string) {
+  return isNativeToken(token)
+    ? {
+      to: MULTICALL3_ADDRESS as Address,
+      data: encodeFunctionData({ abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [owner] })
+    }
+    : {
+      to: token as Address,
+      data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] })
+    };
+}
+
+function buildBalanceChange(
+  token: { address: string; decimals: number },
+  before: { status: Hex; returnData: Hex },
+  after: { status: Hex; returnData: Hex }
+): BalanceChange | undefined {
+  if (before?.status !== '0x1' || after?.status !== '0x1') {
+    return undefined;
+  }
+
+  // balanceOf and getEthBalance share the same uint256 return shape
+  const decodeBalance = (data: Hex) => decodeFunctionResult({ abi: MULTICALL3_ABI, functionName: 'getEthBalance', data }) as bigint;
+  const beforeBalance = decodeBalance(before.returnData);
+  const afterBalance = decodeBalance(after.returnData);
+
+  return {
+    token: token.address,
+    before: toTokenAmount(beforeBalance, token.decimals),
+    after: toTokenAmount(afterBalance, token.decimals),
+    change: toTokenAmount(afterBalance - beforeBalance, token.decimals)
+  };
+}
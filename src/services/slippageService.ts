@@ -0,0 +1,101 @@
+import { SUPPORTED_CHAINS, type PairClass, type SlippageRecommendation, type SwapSideType } from '../types/index.js';
+import { getChainId } from '../utils/helpers.js';
+import { getTokenRegistry } from '../utils/tokenRegistry.js';
+import { getDepthImpactBps } from '../utils/quote.js';
+
+// Base slippage and the range it may be widened in, per pair class (basis points)
+const SLIPPAGE_POLICY: Record<PairClass, { base: number; min: number; max: number }> = {
+  stable: { base: 5, min: 1, max: 50 },
+  major: { base: 30, min: 10, max: 200 },
+  longTail: { base: 100, min: 50, max: 500 }
+};
+
+// The probe quotes 1% of the amount, amounts too small to split are not probed
+const PROBE_DIVISOR = 100n;
+
+const PAIR_LABELS: Record<PairClass, string> = {
+  stable: 'stable/stable',
+  major: 'major/major',
+  longTail: 'long-tail'
+};
+
+type PricedAmounts = { srcAmount: string; destAmount: string };
+
+export interface SlippageRequest {
+  chainName: string;
+  destChainName?: string; // Cross-chain swaps only
+  srcToken: string;
+  destToken: string;
+  side: SwapSideType;
+  amount: string; // Quoted amount: source units for SELL, destination units for BUY
+  quote: PricedAmounts;
+  probe: (amount: string) => Promise<PricedAmounts>; // Quotes the same pair and side for a smaller amount
+}
+
+/**
+ * Classify a pair from the registry tags: stablecoin, major and native (wrapped natives count as majors)
+ */
+export function classifyPair(chainName: string, srcToken: string, destToken: string, destChainName: string = chainName): PairClass {
+  const src = getTokenKind(chainName, srcToken);
+  const dest = getTokenKind(destChainName, destToken);
+  if (src === 'stablecoin' && dest === 'stablecoin') {
+    return 'stable';
+  }
+  return src && dest ? 'major' : 'longTail';
+}
+
+function getTokenKind(chainName: string, address: string): 'stablecoin' | 'major' | undefined {
+  const tags = getTokenRegistry().findByAddress(getChainId(chainName), address)?.tags ?? [];
+  if (tags.includes('stablecoin')) {
+    return 'stablecoin';
+  }
+
+  const wrappedNative = SUPPORTED_CHAINS[chainName.toUpperCase()]?.wrappedNative.toLowerCase() === address.toLowerCase();
+  return tags.includes('major') || tags.includes('native') || wrappedNative ? 'major' : undefined;
+}
+
+/**
+ * Picks slippage for slippage auto. Each pair class starts from a base tolerance, widened by half
+ * of the depth impact (how much worse the full amount prices than a 1% probe), since thin routes
+ * move more between quoting and execution. The result is kept within the class bounds.
+ */
+export class SlippageService {
+  async recommend(request: SlippageRequest): Promise<SlippageRecommendation> {
+    const { chainName, srcToken, destToken, destChainName } = request;
+    const pairClass = classifyPair(chainName, srcToken, destToken, destChainName);
+    const policy = SLIPPAGE_POLICY[pairClass];
+
+    const depthImpactBps = await this.probeDepth(request);
+    const widenedBps = policy.base + Math.ceil((depthImpactBps ?? 0) / 2);
+    const bps = Math.min(Math.max(widenedBps, policy.min), policy.max);
+    const slippage = bps / 100;
+
+    const depth = depthImpactBps === undefined
+      ? 'route depth could not be probed, using the base tolerance'
+      : `the full amount prices ${depthImpactBps / 100}% worse than a 1% probe`;
+    const capped = widenedBps > policy.max ? `, capped at the ${policy.max / 100}% maximum` : '';
+
+    return {
+      slippage,
+      pairClass,
+      ...(depthImpactBps !== undefined && { depthImpactBps }),
+      min: policy.min / 100,
+      max: policy.max / 100,
+      reason: `${slippage}% for a ${PAIR_LABELS[pairClass]} pair (base ${policy.base / 100}%): ${depth}${capped}`
+    };
+  }
+
+  private async probeDepth(request: SlippageRequest): Promise<number | undefined> {
+    const probeAmount = BigInt(request.amount) / PROBE_DIVISOR;
+    if (probeAmount === 0n) {
+      return undefined;
+    }
+
+    try {
+      return getDepthImpactBps(await request.probe(probeAmount.toString()), request.quote, request.side);
+    } catch (error) {
+      console.warn(`Slippage depth probe failed on ${request.chainName}:`, error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import type { SwapSideType } from '../types/index.js';
+import { ZeroExProvider } from './zeroExProvider.js';
+
+export interface ProviderQuoteRequest {
+  chainId: number;
+  srcToken: string;
+  srcDecimals: number;
+  destToken: string;
+  destDecimals: number;
+  amount: string; // Source token units for SELL, destination token units for BUY
+  side: SwapSideType;
+  userAddress: string;
+}
+
+/**
+ * A provider's price, normalized so quotes can be compared and checked by the guardrails.
+ * route is the provider's own quote, which is handed back to it when building.
+ */
+export interface ProviderQuote {
+  provider: string;
+  srcAmount: string;
+  destAmount: string;
+  gasCost?: string; // Gas units
+  gasCostUSD?: string;
+  srcUSD?: string;
+  destUSD?: string;
+  route: any;
+}
+
+/**
+ * Where the output goes, until when the swap can execute and who earns a fee on it
+ */
+export interface SwapBuildOptions {
+  receiver?: string;
+  deadline?: number; // Unix seconds
+  partner?: string;
+  partnerAddress?: string;
+  partnerFeeBps?: number;
+  positiveSlippageToPartner?: boolean;
+}
+
+export interface ProviderBuildRequest extends ProviderQuoteRequest, SwapBuildOptions {
+  slippage: number; // Percent
+  quote: ProviderQuote;
+  permit?: string;
+}
+
+export interface ProviderTransaction {
+  to: string;
+  data: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+}
+
+/**
+ * The build options a request sets, undefined when it sets none
+ */
+export function getBuildOptions(request: SwapBuildOptions): SwapBuildOptions | undefined {
+  const options = Object.fromEntries(Object.entries({
+    receiver: request.receiver,
+    deadline: request.deadline,
+    partner: request.partner,
+    partnerAddress: request.partnerAddress,
+    partnerFeeBps: request.partnerFeeBps,
+    positiveSlippageToPartner: request.positiveSlippageToPartner
+  }).filter(([, value]) => value !== undefined));
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * An aggregator able to quote and build same-chain market swaps
+ */
+export interface SwapProvider {
+  readonly name: string; // Used in SWAP_PROVIDERS and reported in responses
+  readonly label: string; // Human-readable, for error messages
+  readonly supportsBuy: boolean;
+  readonly supportsPermit: boolean;
+  readonly supportsBuildOptions: boolean; // receiver, deadline and partner fees
+  quote(request: ProviderQuoteRequest): Promise<ProviderQuote>;
+  getSpender(chainId: number, quote: ProviderQuote): Promise<string>;
+  buildTx(request: ProviderBuildRequest): Promise<ProviderTransaction>;
+}
+
+export interface RankedQuote {
+  quote: ProviderQuote;
+  netAmount: bigint;
+  gasCostUSD?: number;
+}
+
+/**
+ * Rank quotes best first by what the wallet ends up with after gas: SELL maximizes the output minus
+ * gas, BUY minimizes the input plus gas. Gas is valued in USD (a quote's own gasCostUSD, or its gas
+ * units at the USD price per gas of another quote) and converted with the token's USD price from any
+ * quote. Without USD prices gas cannot be converted and quotes are ranked on their amounts alone.
+ */
+export function rankQuotes(quotes: ProviderQuote[], side: SwapSideType): RankedQuote[] {
+  const amountOf = (quote: ProviderQuote) => side === 'BUY' ? quote.srcAmount : quote.destAmount;
+  const usdOf = (quote: ProviderQuote) => side === 'BUY' ? quote.srcUSD : quote.destUSD;
+
+  const usdPerGas = findRatio(quotes, quote => quote.gasCostUSD, quote => quote.gasCost);
+  const tokenPerUsd = findRatio(quotes, amountOf, usdOf);
+
+  return quotes
+    .map(quote => {
+      const gasCostUSD = quote.gasCostUSD !== undefined
+        ? Number(quote.gasCostUSD)
+        : usdPerGas !== undefined && quote.gasCost !== undefined ? Number(quote.gasCost) * usdPerGas : undefined;
+      const gasInToken = gasCostUSD !== undefined && tokenPerUsd !== undefined ? BigInt(Math.round(gasCostUSD * tokenPerUsd)) : 0n;
+      const amount = BigInt(amountOf(quote));
+
+      return { quote, gasCostUSD, netAmount: side === 'BUY' ? amount + gasInToken : amount - gasInToken };
+    })
+    .sort((a, b) => {
+      const better = side === 'BUY' ? a.netAmount < b.netAmount : a.netAmount > b.netAmount;
+      return a.netAmount === b.netAmount ? 0 : better ? -1 : 1;
+    });
+}
+
+/**
+ * Fill in the USD values a quote lacks (0x prices carry none) from the token and gas USD prices
+ * of the other quotes for the same pair, so every quote can be ranked and checked by the guardrails.
+ * Values no quote can price are left out, and the guardrails reject those routes.
+ */
+export function priceQuotes(quotes: ProviderQuote[]): ProviderQuote[] {
+  const usdPerSrc = findRatio(quotes, quote => quote.srcUSD, quote => quote.srcAmount);
+  const usdPerDest = findRatio(quotes, quote => quote.destUSD, quote => quote.destAmount);
+  const usdPerGas = findRatio(quotes, quote => quote.gasCostUSD, quote => quote.gasCost);
+  const toUsd = (amount: string | undefined, usdPerUnit: number | undefined) =>
+    amount !== undefined && usdPerUnit !== undefined ? (Number(amount) * usdPerUnit).toString() : undefined;
+
+  return quotes.map(quote => {
+    const priced = {
+      srcUSD: quote.srcUSD ?? toUsd(quote.srcAmount, usdPerSrc),
+      destUSD: quote.destUSD ?? toUsd(quote.destAmount, usdPerDest),
+      gasCostUSD: quote.gasCostUSD ?? toUsd(quote.gasCost, usdPerGas)
+    };
+    return { ...quote, ...Object.fromEntries(Object.entries(priced).filter(([, value]) => value !== undefined)) };
+  });
+}
+
+/**
+ * How much worse a net amount is than the best one, in basis points (negative when worse)
+ */
+export function getDiffBps(netAmount: bigint, bestNetAmount: bigint, side: SwapSideType): number {
+  if (bestNetAmount === 0n) {
+    return 0;
+  }
+
+  const diff = side === 'BUY' ? bestNetAmount - netAmount : netAmount - bestNetAmount;
+  return Number(diff * 10_000n / bestNetAmount);
+}
+
+/**
+ * Providers enabled in SWAP_PROVIDERS (comma separated, default velora), in that order.
+ * Unknown names and providers missing their API key are skipped with a warning.
+ */
+export function getConfiguredProviders(velora: SwapProvider): SwapProvider[] {
+  const names = (process.env.SWAP_PROVIDERS ?? 'velora').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const providers: SwapProvider[] = [];
+
+  for (const name of new Set(names)) {
+    if (name === 'velora') {
+      providers.push(velora);
+    } else if (name === '0x') {
+      const apiKey = process.env.ZEROEX_API_KEY;
+      if (apiKey) {
+        providers.push(new ZeroExProvider({ apiKey, apiURL: process.env.ZEROEX_API_URL }));
+      } else {
+        console.warn('Swap provider 0x needs ZEROEX_API_KEY, skipping it');
+      }
+    } else {
+      console.warn(`Unknown swap provider ${name} in SWAP_PROVIDERS, skipping it`);
+    }
+  }
+
+  return providers.length > 0 ? providers : [velora];
+}
+
+/**
+ * Ratio numerator/denominator of the first quote that has both values
+ */
+function findRatio(
+  quotes: ProviderQuote[],
+  numerator: (quote: ProviderQuote) => string | undefined,
+  denominator: (quote: ProviderQuote) => string | undefined
+): number | undefined {
+  for (const quote of quotes) {
+    const top = Number(numerator(quote));
+    const bottom = Number(denominator(quote));
+    if (Number.isFinite(top) && Number.isFinite(bottom) && bottom > 0) {
+      return top / bottom;
+    }
+  }
+
+  return undefined;
+}
@@ -1,35 +1,110 @@
-import { encodeFunctionData } from 'viem';
-import { constructSimpleSDK, type SimpleFetchSDK, DEFAULT_VERSION } from '@velora-dex/sdk';
-import { SwapSide } from '@velora-dex/sdk';
-import axios, { isAxiosError } from 'axios';
-import { getChainId, getTokenAmount, getTokenAddress, validateSwapRequest, getTokenDecimals } from '../utils/helpers.js';
-import { APPROVE_ABI } from '../utils/abis.js';
-import type { SwapRequest, SwapResponse, Transaction } from '../types/index.js';
+import { SwapSide, type SimpleFetchSDK, type BridgePrice, type DeltaPrice, type DeltaAuctionOrder } from '@velora-dex/sdk';
+import { encodeFunctionData, hashTypedData, type TypedDataDefinition } from 'viem';
+import { assertValidSwapBatch, assertValidSwapRequest, getChainId, getTokenAmountForDecimals, getTokenAddress, getWrapDirection, isNativeToken, resolveDeadline } from '../utils/helpers.js';
+import { WRAPPED_NATIVE_ABI } from '../utils/abis.js';
+import { RouteError, SwapError, UpstreamError, ValidationError, fromVeloraError, toBatchLegError } from '../utils/errors.js';
+import { loadConfiguredTokenLists } from '../utils/tokenRegistry.js';
+import { formatTransactions } from '../utils/outputFormat.js';
+import { VeloraSDKRegistry } from './veloraSdkRegistry.js';
+import { TokenResolver } from './tokenResolver.js';
+import { ApprovalService } from './approvalService.js';
+import { DEFAULT_SWAP_GAS_ESTIMATE, PreflightService, WRAP_GAS_ESTIMATE, type PreflightRequest } from './preflightService.js';
+import { SimulationService } from './simulationService.js';
+import { FeeService } from './feeService.js';
+import { GuardrailService } from './guardrailService.js';
+import { QuoteCache, type QuoteCacheParams } from './quoteCache.js';
+import { VeloraProvider, fromVeloraPriceRoute } from './veloraProvider.js';
+import { TransactionPreviewService, type SwapPreviewContext } from './transactionPreviewService.js';
+import { SlippageService, type SlippageRequest } from './slippageService.js';
+import { getBuildOptions, getConfiguredProviders, getDiffBps, priceQuotes, rankQuotes, type ProviderQuote, type ProviderQuoteRequest, type ProviderTransaction, type SwapBuildOptions, type SwapProvider } from './swapProvider.js';
+import { getMarketPriceRoute, getMaxAmountAfterSlippage, getMinAmountAfterSlippage, summarizePriceRoute, toTokenAmount } from '../utils/quote.js';
+import type { ApprovalInfo, CrossChainInfo, DeltaOrderStatus, DeltaOrderToSign, GasSpeed, GuardrailResult, PreflightMode, ProviderCandidate, ProviderSelection, PreflightResult, SlippageRecommendation, SwapBatchLeg, SwapBatchLegResult, SwapBatchPreflight, SwapBatchRequest, SwapBatchResponse, SwapQuoteSummary, SwapMode, SwapRequest, SwapResponse, SwapSideType, TokenInfo, Transaction } from '../types/index.js';
+
+// A batch leg after token resolution and quoting, before anything is built
+interface PreparedBatchLeg {
+  index: number;
+  chainName: string;
+  chainId: number;
+  fromToken: TokenInfo;
+  toToken: TokenInfo;
+  side: SwapSideType;
+  slippage: number;
+  autoSlippage?: SlippageRecommendation;
+  quoteAmount: string;
+  fromTokenAmount: string; // Most of the source token the leg can spend
+  quote: any;
+  wrapDirection?: 'wrap' | 'unwrap';
+  guardrails?: GuardrailResult;
+}
 
 export class SwapService {
-  private simpleSDK: SimpleFetchSDK;
-
-  constructor() {
-    // Initialize VeloraDEX SimpleSDK with default axios
-    this.simpleSDK = constructSimpleSDK({ 
-      chainId: 1, // Default to Ethereum mainnet
-      apiURL: 'https://api.velora.xyz', // Default VeloraDEX API URL
-      version: DEFAULT_VERSION, // Use default version from the SDK
-      axios: axios
-    });
+  private sdkRegistry: VeloraSDKRegistry;
+  private tokenResolver: TokenResolver;
+  private approvalService: ApprovalService;
+  private preflightService: PreflightService;
+  private simulationService: SimulationService;
+  private feeService: FeeService;
+  private guardrailService: GuardrailService;
+  private veloraProvider: VeloraProvider;
+  private providers: SwapProvider[];
+  private previewService: TransactionPreviewService;
+  private slippageService: SlippageService;
+  readonly quoteCache: QuoteCache;
+
+  constructor(
+    sdkRegistry: VeloraSDKRegistry = new VeloraSDKRegistry(),
+    tokenResolver: TokenResolver = new TokenResolver(),
+    approvalService: ApprovalService = new ApprovalService(),
+    preflightService: PreflightService = new PreflightService(),
+    simulationService: SimulationService = new SimulationService(),
+    feeService: FeeService = new FeeService(),
+    guardrailService: GuardrailService = new GuardrailService(),
+    quoteCache: QuoteCache = new QuoteCache(),
+    providers?: SwapProvider[], // Defaults to the providers enabled in SWAP_PROVIDERS
+    previewService: TransactionPreviewService = new TransactionPreviewService(tokenResolver),
+    slippageService: SlippageService = new SlippageService()
+  ) {
+    // VeloraDEX SimpleSDK instances are built per chain on first use
+    this.sdkRegistry = sdkRegistry;
+    this.tokenResolver = tokenResolver;
+    this.approvalService = approvalService;
+    this.preflightService = preflightService;
+    this.simulationService = simulationService;
+    this.feeService = feeService;
+    this.guardrailService = guardrailService;
+    this.quoteCache = quoteCache;
+    this.veloraProvider = new VeloraProvider(sdkRegistry, quoteCache);
+    this.providers = providers ?? getConfiguredProviders(this.veloraProvider);
+    this.previewService = previewService;
+    this.slippageService = slippageService;
   }
 
   /**
    * Build swap transaction using VeloraDEX SDK.
-   * Supports market swaps only.
+   * Market mode returns transactions to sign, delta mode returns an order to sign,
+   * all mode prefers delta when VeloraDEX offers it and falls back to market.
+   * Cross-chain swaps (toChain differs from fromChain) always go through a bridged Delta order.
+   * Native <-> wrapped native pairs (e.g. ETH -> WETH) skip VeloraDEX and call the wrapper directly.
+   * The bestPrice strategy builds same-chain market swaps with whichever enabled provider nets the most.
+   * Every transaction carries a human-readable preview, and the transactions are also encoded
+   * in request.outputFormat when one is given.
    */
-  async buildSwapTransaction(request: SwapRequest & { mode?: 'market'; slippage?: number }): Promise<SwapResponse> {
+  async buildSwapTransaction(request: SwapRequest): Promise<SwapResponse> {
+    const built = await this.buildSwapResponse(request);
+    const slippage = built.autoSlippage?.slippage ?? (request.slippage === 'auto' ? undefined : request.slippage) ?? 0.5;
+    const swapContext = getSwapPreviewContext(built, slippage);
+    const transactions = await this.previewService.addPreviews(request.fromChain, request.fromAddress, built.transactions, () => swapContext);
+    const response = { ...built, transactions };
+    const formatted = formatTransactions(transactions, request.outputFormat, request.fromAddress);
+
+    return formatted ? { ...response, formatted } : response;
+  }
+
+  private async buildSwapResponse(request: SwapRequest): Promise<SwapResponse> {
     try {
-      // Validate the request
-      const validation = validateSwapRequest(request);
-      if (!validation.isValid) {
-        throw new Error(`Invalid request: ${validation.errors.join(', ')}`);
-      }
+      // Validate the request against the token lists configured in TOKEN_LIST_URLS
+      await loadConfiguredTokenLists();
+      assertValidSwapRequest(request);
 
       const {
         amount,
@@ -37,110 +112,390 @@ export class SwapService {
         toToken,
         fromAddress,
         fromChain,
-        slippage = 0.5, // Default 0.5% slippage
-        mode = 'market' // Default to market mode for direct swaps
+        toChain = fromChain,
+        side = 'SELL', // Default to exact-input swaps
+        preflight: preflightMode = 'warn',
+        gasSpeed = 'normal'
       } = request;
 
       const fromChainId = getChainId(fromChain);
-      const fromTokenAddress = getTokenAddress(fromChain, fromToken);
-      const toTokenAddress = getTokenAddress(fromChain, toToken);
-      const fromTokenAmount = getTokenAmount(amount, fromChain, fromToken);
-      const fromTokenDecimals = getTokenDecimals(fromChain, fromToken);
-      const toTokenDecimals = getTokenDecimals(fromChain, toToken);
-
-      // 1. Get quote from VeloraDEX
-      const quote = await this.simpleSDK.quote.getQuote({
+      const toChainId = getChainId(toChain);
+      const crossChain = toChainId !== fromChainId;
+      const mode = this.getTradeMode(request.mode, crossChain);
+
+      const { address: fromTokenAddress, decimals: fromTokenDecimals, symbol: fromTokenSymbol } = await this.tokenResolver.resolveToken(fromChain, fromToken);
+      const { address: toTokenAddress, decimals: toTokenDecimals } = await this.tokenResolver.resolveToken(toChain, toToken);
+      // SELL amounts are in source token units, BUY amounts in destination token units
+      const quoteAmount = getTokenAmountForDecimals(amount, side === 'BUY' ? toTokenDecimals : fromTokenDecimals);
+      // Receiver, deadline and partner fee go to the build call, with relative deadlines fixed now
+      const buildOptions = getBuildOptions({
+        ...request,
+        deadline: request.deadline !== undefined ? resolveDeadline(request.deadline) : undefined
+      });
+
+      // Wrapping is always 1:1, so there is nothing to quote and SELL and BUY amounts are the same
+      const wrapDirection = crossChain ? undefined : getWrapDirection(fromChain, fromTokenAddress, toTokenAddress);
+      if (wrapDirection) {
+        if (buildOptions) {
+          const [field] = Object.keys(buildOptions);
+          throw new ValidationError('INVALID_REQUEST', 'Wrapping always pays the sender and takes no deadline or partner fee', field);
+        }
+        return await this.buildWrapSwap(wrapDirection, {
+          chainName: fromChain,
+          chainId: fromChainId,
+          owner: fromAddress,
+          srcToken: fromTokenAddress,
+          srcSymbol: fromTokenSymbol,
+          srcDecimals: fromTokenDecimals,
+          destToken: toTokenAddress,
+          destDecimals: toTokenDecimals,
+          amount: quoteAmount,
+          side,
+          preflightMode,
+          gasSpeed,
+          simulate: request.simulate
+        });
+      }
+
+      // What auto slippage classifies and probes, the quote and probe are added per route
+      const slippagePair = { chainName: fromChain, destChainName: toChain, srcToken: fromTokenAddress, destToken: toTokenAddress, side, amount: quoteAmount };
+
+      const marketParams = {
+        chainName: fromChain,
+        chainId: fromChainId,
+        owner: fromAddress,
         srcToken: fromTokenAddress,
+        srcSymbol: fromTokenSymbol,
+        srcDecimals: fromTokenDecimals,
         destToken: toTokenAddress,
-        amount: fromTokenAmount,
+        destDecimals: toTokenDecimals,
+        amount: quoteAmount,
+        side,
+        preflightMode,
+        gasSpeed,
+        acceptHighImpact: request.acceptHighImpact,
+        acceptUnverifiedGuardrails: request.acceptUnverifiedGuardrails,
+        usePermit: request.usePermit,
+        permitSignature: request.permitSignature,
+        permitDeadline: request.permitDeadline,
+        permitNonce: request.permitNonce,
+        simulate: request.simulate,
+        buildOptions
+      };
+
+      // bestPrice compares market routes of every enabled provider instead of quoting VeloraDEX alone
+      if (request.strategy === 'bestPrice') {
+        if (mode !== 'market' || crossChain) {
+          throw new ValidationError('INVALID_REQUEST', 'The bestPrice strategy only builds same-chain market swaps', 'strategy');
+        }
+        if (request.quoteId) {
+          throw new ValidationError('INVALID_REQUEST', 'quoteId cannot be combined with the bestPrice strategy', 'quoteId');
+        }
+
+        const providerRequest = {
+          chainId: fromChainId,
+          srcToken: fromTokenAddress,
+          srcDecimals: fromTokenDecimals,
+          destToken: toTokenAddress,
+          destDecimals: toTokenDecimals,
+          amount: quoteAmount,
+          side,
+          userAddress: fromAddress
+        };
+        const { provider, quote, selection } = await this.selectBestPrice(providerRequest, buildOptions);
+        const { slippage, autoSlippage } = await this.resolveSlippage(request.slippage, {
+          ...slippagePair,
+          quote,
+          probe: probeAmount => provider.quote({ ...providerRequest, amount: probeAmount })
+        });
+        const market = await this.buildMarketSwap(provider, quote, { ...marketParams, slippage });
+
+        return { ...market, provider: selection, ...(autoSlippage && { autoSlippage }) };
+      }
+
+      const sdk = this.sdkRegistry.getSDK(fromChainId);
+
+      // 1. Get quote from VeloraDEX, or the one the caller was shown
+      const quoteParams = {
+        srcToken: fromTokenAddress,
+        destToken: toTokenAddress,
+        amount: quoteAmount,
         userAddress: fromAddress,
         srcDecimals: fromTokenDecimals,
         destDecimals: toTokenDecimals,
-        side: SwapSide.SELL, // We are selling the source token
-        mode: mode
-      });
+        side: side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+        mode: mode,
+        ...(crossChain && { destChainId: toChainId })
+      };
+      const { quote, quoteId } = await this.fetchQuote(fromChainId, quoteParams, request.quoteId);
 
       if (!quote) {
-        throw new Error('Failed to get quote from VeloraDEX');
+        throw new RouteError('NO_ROUTE', 'Failed to get quote from VeloraDEX');
       }
 
-      const transactions: Transaction[] = [];
-
-      // Market swap mode - user submits transaction themselves
-      const priceRoute = 'market' in quote ? quote.market : quote as any; // Handle market quote properly
-      
-      if (!priceRoute || !priceRoute.destAmount) {
-        throw new Error('Invalid market quote received from VeloraDEX');
-      }
+      // Delta mode - user signs an order that VeloraDEX agents execute (and bridge, for cross-chain swaps)
+      if (mode === 'delta' || crossChain || (mode === 'all' && 'delta' in quote && quote.delta)) {
+        if (!('delta' in quote) || !quote.delta) {
+          throw new RouteError('NO_ROUTE', 'Delta pricing not available for this swap');
+        }
+        if (isNativeToken(fromTokenAddress)) {
+          throw new ValidationError('INVALID_REQUEST', 'Delta orders do not support native source tokens', 'fromToken');
+        }
 
-      // 2. Get spender address for approval
-      const spender = await this.simpleSDK.swap.getSpender();
-      
-      // 3. Build approval transaction (if not native token)
-      if (fromTokenAddress.toLowerCase() !== '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' && 
-          fromTokenAddress.toLowerCase() !== '0x0000000000000000000000000000000000000000') {
-        const approveTransaction: Transaction = {
+        const { slippage, autoSlippage } = await this.resolveSlippage(request.slippage, {
+          ...slippagePair,
+          quote: quote.delta,
+          probe: this.probeVeloraQuote(fromChainId, quoteParams, probeQuote => probeQuote?.delta)
+        });
+        const deltaSwap = await this.buildDeltaSwap(sdk, quote.delta, {
+          chainName: fromChain,
           chainId: fromChainId,
-          to: fromTokenAddress,
-          value: '0',
-          data: encodeFunctionData({
-            abi: APPROVE_ABI,
-            functionName: "approve",
-            args: [spender, fromTokenAmount]
-          })
-        };
-        transactions.push(approveTransaction);
+          owner: fromAddress,
+          srcToken: fromTokenAddress,
+          srcSymbol: fromTokenSymbol,
+          srcDecimals: fromTokenDecimals,
+          destToken: toTokenAddress,
+          destDecimals: toTokenDecimals,
+          slippage,
+          side,
+          preflightMode,
+          gasSpeed,
+          acceptHighImpact: request.acceptHighImpact,
+          acceptUnverifiedGuardrails: request.acceptUnverifiedGuardrails,
+          buildOptions,
+          ...(crossChain && { destChainId: toChainId })
+        });
+
+        return { ...deltaSwap, quoteId, ...(autoSlippage && { autoSlippage }) };
       }
 
-      // 4. Build swap transaction
-      const txParams = await this.simpleSDK.swap.buildTx({
-        srcToken: fromTokenAddress,
-        destToken: toTokenAddress,
-        srcAmount: fromTokenAmount,
-        slippage: slippage * 100, // VeloraDEX expects slippage in basis points (0.5% = 50)
-        priceRoute: priceRoute,
-        userAddress: fromAddress
+      // Market swap mode - user submits transaction themselves
+      const marketQuote = fromVeloraPriceRoute(getMarketPriceRoute(quote));
+      const { slippage, autoSlippage } = await this.resolveSlippage(request.slippage, {
+        ...slippagePair,
+        quote: marketQuote,
+        probe: this.probeVeloraQuote(fromChainId, { ...quoteParams, mode: 'market' })
       });
+      const market = await this.buildMarketSwap(this.veloraProvider, marketQuote, { ...marketParams, slippage });
 
-      if (!txParams || !txParams.to || !txParams.data) {
-        throw new Error('Failed to build swap transaction from VeloraDEX');
-      }
+      return { ...market, quoteId, ...(autoSlippage && { autoSlippage }) };
 
-      const swapTransaction: Transaction = {
-        chainId: fromChainId,
-        to: txParams.to,
-        data: txParams.data,
-        value: txParams.value || '0',
-        gasPrice: txParams.gasPrice ? BigInt(txParams.gasPrice).toString() : undefined,
-        gasLimit: txParams.gas ? BigInt(txParams.gas).toString() : undefined,
-      };
-      transactions.push(swapTransaction);
+    } catch (error) {
+      console.error("Error in buildSwapTransaction:", error);
+      throw fromVeloraError(error);
+    }
+  }
+
+  /**
+   * Build a market swap from a provider's quote: approval of the provider's spender, pre-flight
+   * checks, the swap transaction and optionally a simulation, priced as one nonce sequence
+   */
+  private async buildMarketSwap(
+    provider: SwapProvider,
+    quote: ProviderQuote,
+    params: {
+      chainName: string;
+      chainId: number;
+      owner: string;
+      srcToken: string;
+      srcSymbol: string;
+      srcDecimals: number;
+      destToken: string;
+      destDecimals: number;
+      amount: string;
+      slippage: number;
+      side: SwapSideType;
+      preflightMode: PreflightMode;
+      gasSpeed: GasSpeed;
+      acceptHighImpact?: boolean;
+      acceptUnverifiedGuardrails?: boolean;
+      usePermit?: boolean;
+      permitSignature?: string;
+      permitDeadline?: number;
+      permitNonce?: string;
+      simulate?: boolean;
+      buildOptions?: SwapBuildOptions;
+    }
+  ): Promise<SwapResponse> {
+    const { chainName, chainId, owner, srcToken, srcSymbol, srcDecimals, destToken, destDecimals, amount, slippage, side, preflightMode, gasSpeed, buildOptions } = params;
+    let transactions: Transaction[] = [];
+
+    // Reject routes losing too much value before anything is approved or built
+    const guardrails = this.guardrailService.check({ chainName, priceRoute: quote, acceptHighImpact: params.acceptHighImpact, acceptUnverifiedGuardrails: params.acceptUnverifiedGuardrails });
+
+    // For BUY the source amount is only an estimate, so approve and cap spending at the slippage-adjusted maximum
+    const fromTokenAmount = side === 'BUY'
+      ? getMaxAmountAfterSlippage(quote.srcAmount, slippage).toString()
+      : amount;
+
+    // 2. Get spender address for approval
+    const spender = await provider.getSpender(chainId, quote);
 
+    // 3. Plan the approval from the current allowance (skip, approve, reset-and-approve, permit or permit2)
+    // Permits are only offered for SELL, where the signed amount does not move between quotes
+    const { approval, transactions: approvalTransactions, permit } = await this.approvalService.planApproval({
+      chainName,
+      token: srcToken,
+      owner,
+      spender,
+      amount: fromTokenAmount,
+      usePermit: params.usePermit && side === 'SELL' && provider.supportsPermit,
+      permitSignature: params.permitSignature,
+      permitDeadline: params.permitDeadline,
+      permitNonce: params.permitNonce,
+      deadline: buildOptions?.deadline
+    });
+    transactions.push(...approvalTransactions);
+
+    // 4. Pre-flight balance and gas checks (strict mode throws before anything is built)
+    const preflight = await this.runPreflight(preflightMode, {
+      chainName,
+      owner,
+      token: srcToken,
+      tokenSymbol: srcSymbol,
+      tokenDecimals: srcDecimals,
+      amount: fromTokenAmount,
+      approvalCount: approvalTransactions.length,
+      swapGas: quote.gasCost
+    });
+
+    // The permit has to be signed before the swap can be built with it
+    if ((approval.strategy === 'permit' || approval.strategy === 'permit2') && !permit) {
       return {
         transactions,
-        quote: priceRoute
+        quote: quote.route,
+        mode: 'market',
+        side,
+        approval,
+        preflight,
+        guardrails
       };
+    }
 
-    } catch (error) {
-      console.error("Error in buildSwapTransaction:", error);
-      if (isAxiosError(error) && error.response) {
-        console.error("VeloraDEX API Error Data:", error.response.data);
-        const apiErrorMessage = error.response.data?.message || error.response.data?.error || 'VeloraDEX API request failed';
-        throw new Error(apiErrorMessage);
+    // A Permit2 signature is only valid with the deadline it was signed for
+    const deadline = approval.strategy === 'permit2' ? params.permitDeadline : buildOptions?.deadline;
+
+    // 5. Build swap transaction
+    const txParams = await provider.buildTx({
+      chainId,
+      srcToken,
+      srcDecimals,
+      destToken,
+      destDecimals,
+      amount,
+      side,
+      userAddress: owner,
+      slippage,
+      quote,
+      ...buildOptions,
+      ...(permit && { permit }),
+      ...(deadline !== undefined && { deadline })
+    });
+
+    transactions.push(this.toSwapTransaction(chainId, txParams, srcToken, fromTokenAmount, provider.label));
+
+    // 6. Optionally simulate the bundle and compare the received amount with the quote
+    const simulation = params.simulate
+      ? await this.simulationService.simulate({
+        chainName,
+        owner,
+        recipient: buildOptions?.receiver,
+        transactions,
+        fromToken: { address: srcToken, decimals: srcDecimals },
+        toToken: { address: destToken, decimals: destDecimals },
+        expectedDestAmount: quote.destAmount,
+        minDestAmount: side === 'BUY' ? amount : getMinAmountAfterSlippage(quote.destAmount, slippage).toString()
+      })
+      : undefined;
+
+    // 7. Price the bundle as EIP-1559 and number it with sequential nonces
+    transactions = await this.feeService.applyFees({ chainName, owner, transactions, speed: gasSpeed });
+
+    return {
+      transactions,
+      quote: quote.route,
+      mode: 'market',
+      side,
+      approval,
+      preflight,
+      simulation,
+      guardrails,
+      ...(side === 'BUY' && { maxAmountIn: toTokenAmount(fromTokenAmount, srcDecimals) }),
+      ...(deadline !== undefined && { deadline })
+    };
+  }
+
+  /**
+   * Quote every enabled provider in parallel and pick the best output after gas.
+   * Providers that fail (or cannot quote the side or build options) are reported but never block the others.
+   */
+  private async selectBestPrice(
+    request: ProviderQuoteRequest,
+    buildOptions?: SwapBuildOptions
+  ): Promise<{ provider: SwapProvider; quote: ProviderQuote; selection: ProviderSelection }> {
+    const results = await Promise.allSettled(this.providers.map(provider => {
+      if (request.side === 'BUY' && !provider.supportsBuy) {
+        return Promise.reject(new ValidationError('INVALID_REQUEST', `${provider.label} does not support BUY swaps`, 'side'));
+      }
+      if (buildOptions && !provider.supportsBuildOptions) {
+        return Promise.reject(new ValidationError('INVALID_REQUEST', `${provider.label} does not support receivers, deadlines or partner fees`, Object.keys(buildOptions)[0]));
       }
-      throw error;
+      return provider.quote(request);
+    }));
+
+    const quotes = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failures = new Map(results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') {
+        return [];
+      }
+      const error = fromVeloraError(result.reason);
+      return [[this.providers[index].name, error instanceof Error ? error.message : String(error)] as const];
+    }));
+
+    if (quotes.length === 0) {
+      const reasons = [...failures].map(([name, message]) => `${name} (${message})`).join(', ');
+      throw new RouteError('NO_ROUTE', `No provider could quote this swap: ${reasons}`, { details: { failures: Object.fromEntries(failures) } });
     }
+
+    // Quotes without USD values are priced from the others, so a winning 0x route still passes through the guardrails
+    const ranked = rankQuotes(priceQuotes(quotes), request.side);
+    const [best] = ranked;
+
+    const candidates: ProviderCandidate[] = this.providers.map(provider => {
+      const rankedQuote = ranked.find(({ quote }) => quote.provider === provider.name);
+      if (!rankedQuote) {
+        return { provider: provider.name, selected: false, error: failures.get(provider.name) };
+      }
+
+      return {
+        provider: provider.name,
+        selected: rankedQuote === best,
+        srcAmount: rankedQuote.quote.srcAmount,
+        destAmount: rankedQuote.quote.destAmount,
+        ...(rankedQuote.gasCostUSD !== undefined && { gasCostUSD: rankedQuote.gasCostUSD.toString() }),
+        netAmount: rankedQuote.netAmount.toString(),
+        diffBps: getDiffBps(rankedQuote.netAmount, best.netAmount, request.side)
+      };
+    });
+
+    return {
+      provider: this.providers.find(provider => provider.name === best.quote.provider)!,
+      quote: best.quote,
+      selection: { strategy: 'bestPrice', selected: best.quote.provider, candidates }
+    };
   }
 
   /**
    * Get quote without building transactions (for estimation purposes)
    */
-  async getSwapQuote(request: SwapRequest & { mode?: 'market' }) {
+  async getSwapQuote(request: SwapRequest) {
+    return (await this.getCachedSwapQuote(request)).quote;
+  }
+
+  private async getCachedSwapQuote(request: SwapRequest) {
     try {
-      const validation = validateSwapRequest(request);
-      if (!validation.isValid) {
-        throw new Error(`Invalid request: ${validation.errors.join(', ')}`);
-      }
+      await loadConfiguredTokenLists();
+      assertValidSwapRequest(request);
 
       const {
         amount,
@@ -148,45 +503,631 @@ export class SwapService {
         toToken,
         fromAddress,
         fromChain,
-        mode = 'market'
+        toChain = fromChain,
+        side = 'SELL'
       } = request;
 
       const fromChainId = getChainId(fromChain);
-      const fromTokenAmount = getTokenAmount(amount, fromChain, fromToken);
-      const fromTokenAddress = getTokenAddress(fromChain, fromToken);
-      const toTokenAddress = getTokenAddress(fromChain, toToken);
-      const fromTokenDecimals = getTokenDecimals(fromChain, fromToken);
-      const toTokenDecimals = getTokenDecimals(fromChain, toToken);
+      const toChainId = getChainId(toChain);
+      const crossChain = toChainId !== fromChainId;
+      const mode = this.getTradeMode(request.mode, crossChain);
 
+      const { address: fromTokenAddress, decimals: fromTokenDecimals } = await this.tokenResolver.resolveToken(fromChain, fromToken);
+      const { address: toTokenAddress, decimals: toTokenDecimals } = await this.tokenResolver.resolveToken(toChain, toToken);
+      const quoteAmount = getTokenAmountForDecimals(amount, side === 'BUY' ? toTokenDecimals : fromTokenDecimals);
       // Get quote from VeloraDEX
-      const quote = await this.simpleSDK.quote.getQuote({
+      const cached = await this.fetchQuote(fromChainId, {
         srcToken: fromTokenAddress,
         destToken: toTokenAddress,
-        amount: fromTokenAmount,
+        amount: quoteAmount,
         userAddress: fromAddress,
         srcDecimals: fromTokenDecimals,
         destDecimals: toTokenDecimals,
-        side: SwapSide.SELL, // We are selling the source token
-        mode: mode
+        side: side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+        mode: mode,
+        ...(crossChain && { destChainId: toChainId })
       });
 
-      if (!quote) {
-        throw new Error('Failed to get quote from VeloraDEX');
+      if (!cached.quote) {
+        throw new RouteError('NO_ROUTE', 'Failed to get quote from VeloraDEX');
       }
 
-      return quote;
+      return cached;
 
     } catch (error) {
       console.error("Error in getSwapQuote:", error);
-      if (isAxiosError(error) && error.response) {
-        console.error("VeloraDEX API Error Data:", error.response.data);
-        const apiErrorMessage = error.response.data?.message || error.response.data?.error || 'VeloraDEX API request failed';
-        throw new Error(apiErrorMessage);
+      throw fromVeloraError(error);
+    }
+  }
+
+  /**
+   * Get a normalized, human-readable quote (amounts, rate, USD values, gas, route and minimum received)
+   */
+  async getSwapQuoteSummary(request: SwapRequest): Promise<SwapQuoteSummary> {
+    // Summaries describe the market route, delta pricing is only used when building orders
+    const { quote, quoteId, expiresAt } = await this.getCachedSwapQuote({ ...request, mode: 'market' });
+    const priceRoute = getMarketPriceRoute(quote);
+
+    if (!priceRoute || !priceRoute.destAmount) {
+      throw new UpstreamError('UPSTREAM_ERROR', 'Invalid market quote received from VeloraDEX');
+    }
+
+    const { fromChain, fromToken, toToken, side = 'SELL' } = request;
+    const fromTokenInfo = await this.tokenResolver.resolveToken(fromChain, fromToken);
+    const toTokenInfo = await this.tokenResolver.resolveToken(fromChain, toToken);
+    const { slippage, autoSlippage } = await this.resolveSlippage(request.slippage, {
+      chainName: fromChain,
+      srcToken: fromTokenInfo.address,
+      destToken: toTokenInfo.address,
+      side,
+      amount: side === 'BUY' ? priceRoute.destAmount : priceRoute.srcAmount,
+      quote: priceRoute,
+      probe: this.probeVeloraQuote(getChainId(fromChain), {
+        srcToken: fromTokenInfo.address,
+        destToken: toTokenInfo.address,
+        amount: priceRoute.srcAmount,
+        userAddress: request.fromAddress,
+        srcDecimals: fromTokenInfo.decimals,
+        destDecimals: toTokenInfo.decimals,
+        side: side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+        mode: 'market'
+      })
+    });
+
+    return {
+      ...summarizePriceRoute(priceRoute, getChainId(fromChain), fromTokenInfo, toTokenInfo, slippage, side),
+      quoteId,
+      quoteExpiresAt: new Date(expiresAt).toISOString(),
+      ...(autoSlippage && { autoSlippage })
+    };
+  }
+
+  /**
+   * Build several same-chain market swaps (or wraps) for one wallet in a single call.
+   * Every leg is validated up front and quoted concurrently, legs spending the same source token
+   * share one approval for their summed amount, and the whole batch fails if any leg fails.
+   */
+  async buildSwapBatch(request: SwapBatchRequest): Promise<SwapBatchResponse> {
+    try {
+      await loadConfiguredTokenLists();
+      assertValidSwapBatch(request);
+
+      const { fromAddress, swaps, preflight: preflightMode = 'warn', gasSpeed = 'normal' } = request;
+
+      const legs = await Promise.all(swaps.map((leg, index) =>
+        this.prepareBatchLeg(leg, index, fromAddress).catch(error => { throw toBatchLegError(error, index); })
+      ));
+
+      // Each chain gets its own transactions and nonce sequence, in order of first appearance
+      const legsByChain = new Map<number, PreparedBatchLeg[]>();
+      for (const leg of legs) {
+        legsByChain.set(leg.chainId, [...(legsByChain.get(leg.chainId) ?? []), leg]);
       }
-      throw error;
+
+      const chainBatches = await Promise.all([...legsByChain.values()].map(chainLegs =>
+        this.buildBatchChain(chainLegs, fromAddress, preflightMode, gasSpeed)
+      ));
+
+      const transactions: Transaction[] = [];
+      const legResults: SwapBatchLegResult[] = [];
+      const approvals: ApprovalInfo[] = [];
+      const preflight: SwapBatchPreflight[] = [];
+      for (const chainBatch of chainBatches) {
+        const offset = transactions.length;
+        transactions.push(...chainBatch.transactions);
+        legResults.push(...chainBatch.legs.map(leg => ({ ...leg, transactionIndex: offset + leg.transactionIndex })));
+        approvals.push(...chainBatch.approvals);
+        preflight.push(...chainBatch.preflight);
+      }
+
+      const formatted = formatTransactions(transactions, request.outputFormat, fromAddress);
+
+      return {
+        transactions,
+        legs: legResults.sort((a, b) => a.index - b.index),
+        approvals,
+        ...(preflightMode !== 'skip' && { preflight }),
+        ...(formatted && { formatted })
+      };
+
+    } catch (error) {
+      console.error("Error in buildSwapBatch:", error);
+      throw fromVeloraError(error);
     }
   }
 
+  /**
+   * Resolve the tokens of a batch leg and quote it (wraps are 1:1 and need no quote)
+   */
+  private async prepareBatchLeg(leg: SwapBatchLeg, index: number, owner: string): Promise<PreparedBatchLeg> {
+    const { amount, fromChain, side = 'SELL' } = leg;
+    const chainId = getChainId(fromChain);
+
+    const fromToken = await this.tokenResolver.resolveToken(fromChain, leg.fromToken);
+    const toToken = await this.tokenResolver.resolveToken(fromChain, leg.toToken);
+    const quoteAmount = getTokenAmountForDecimals(amount, side === 'BUY' ? toToken.decimals : fromToken.decimals);
+    const prepared = { index, chainName: fromChain, chainId, fromToken, toToken, side, quoteAmount };
+
+    const wrapDirection = getWrapDirection(fromChain, fromToken.address, toToken.address);
+    if (wrapDirection) {
+      return {
+        ...prepared,
+        slippage: 0, // Wraps are 1:1
+        fromTokenAmount: quoteAmount,
+        wrapDirection,
+        quote: { srcToken: fromToken.address, srcDecimals: fromToken.decimals, srcAmount: quoteAmount, destToken: toToken.address, destDecimals: toToken.decimals, destAmount: quoteAmount }
+      };
+    }
+
+    const quoteParams = {
+      srcToken: fromToken.address,
+      destToken: toToken.address,
+      amount: quoteAmount,
+      userAddress: owner,
+      srcDecimals: fromToken.decimals,
+      destDecimals: toToken.decimals,
+      side: side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+      mode: 'market' as const
+    };
+    const { quote } = await this.fetchQuote(chainId, quoteParams);
+
+    const priceRoute = quote && getMarketPriceRoute(quote);
+    if (!priceRoute || !priceRoute.destAmount) {
+      throw new UpstreamError('UPSTREAM_ERROR', 'Invalid market quote received from VeloraDEX');
+    }
+
+    const { slippage, autoSlippage } = await this.resolveSlippage(leg.slippage, {
+      chainName: fromChain,
+      srcToken: fromToken.address,
+      destToken: toToken.address,
+      side,
+      amount: quoteAmount,
+      quote: priceRoute,
+      probe: this.probeVeloraQuote(chainId, quoteParams)
+    });
+
+    return {
+      ...prepared,
+      slippage,
+      autoSlippage,
+      fromTokenAmount: side === 'BUY' ? getMaxAmountAfterSlippage(priceRoute.srcAmount, slippage).toString() : quoteAmount,
+      quote: priceRoute,
+      guardrails: this.guardrailService.check({ chainName: fromChain, priceRoute, acceptHighImpact: leg.acceptHighImpact, acceptUnverifiedGuardrails: leg.acceptUnverifiedGuardrails })
+    };
+  }
+
+  /**
+   * Build the legs of one chain: one approval per source token, pre-flight checks over the summed
+   * amounts, then the swaps in request order, priced and numbered as one nonce sequence
+   */
+  private async buildBatchChain(
+    legs: PreparedBatchLeg[],
+    owner: string,
+    preflightMode: PreflightMode,
+    gasSpeed: GasSpeed
+  ): Promise<{ transactions: Transaction[]; legs: SwapBatchLegResult[]; approvals: ApprovalInfo[]; preflight: SwapBatchPreflight[] }> {
+    const [{ chainName, chainId }] = legs;
+    const marketLegs = legs.filter(leg => !leg.wrapDirection);
+    const spender = marketLegs.length > 0 ? await this.veloraProvider.getSpender(chainId) : undefined;
+
+    // Wraps spend the source token too (for the balance check) but never need an approval
+    const spends = new Map<string, { token: TokenInfo; amount: bigint; approvalAmount: bigint; swapGas: bigint }>();
+    for (const leg of legs) {
+      const key = leg.fromToken.address.toLowerCase();
+      const spend = spends.get(key) ?? { token: leg.fromToken, amount: 0n, approvalAmount: 0n, swapGas: 0n };
+      spend.amount += BigInt(leg.fromTokenAmount);
+      spend.approvalAmount += leg.wrapDirection ? 0n : BigInt(leg.fromTokenAmount);
+      spend.swapGas += leg.wrapDirection ? WRAP_GAS_ESTIMATE : BigInt(leg.quote.gasCost ?? DEFAULT_SWAP_GAS_ESTIMATE);
+      spends.set(key, spend);
+    }
+
+    const plans = await Promise.all([...spends.values()].map(async spend => {
+      const plan = spender && spend.approvalAmount > 0n
+        ? await this.approvalService.planApproval({
+          chainName,
+          token: spend.token.address,
+          owner,
+          spender,
+          amount: spend.approvalAmount.toString()
+        })
+        : undefined;
+
+      // Strict mode throws here, before anything of the batch is built
+      const preflight = await this.runPreflight(preflightMode, {
+        chainName,
+        owner,
+        token: spend.token.address,
+        tokenSymbol: spend.token.symbol,
+        tokenDecimals: spend.token.decimals,
+        amount: spend.amount.toString(),
+        approvalCount: plan?.transactions.length ?? 0,
+        swapGas: spend.swapGas.toString()
+      });
+
+      return { plan, preflight: preflight && { chain: chainName, token: spend.token.address, result: preflight } };
+    }));
+
+    const swapTransactions = await Promise.all(legs.map(async leg => {
+      if (leg.wrapDirection) {
+        return this.buildWrapTransaction(leg.wrapDirection, chainId, leg.fromToken.address, leg.toToken.address, leg.quoteAmount);
+      }
+
+      try {
+        const txParams = await this.veloraProvider.buildTx({
+          chainId,
+          srcToken: leg.fromToken.address,
+          srcDecimals: leg.fromToken.decimals,
+          destToken: leg.toToken.address,
+          destDecimals: leg.toToken.decimals,
+          amount: leg.quoteAmount,
+          side: leg.side,
+          userAddress: owner,
+          slippage: leg.slippage,
+          quote: fromVeloraPriceRoute(leg.quote)
+        });
+
+        return this.toSwapTransaction(chainId, txParams, leg.fromToken.address, leg.fromTokenAmount);
+      } catch (error) {
+        throw toBatchLegError(error, leg.index);
+      }
+    }));
+
+    const approvalTransactions = plans.flatMap(({ plan }) => plan?.transactions ?? []);
+    const pricedTransactions = await this.feeService.applyFees({
+      chainName,
+      owner,
+      transactions: [...approvalTransactions, ...swapTransactions],
+      speed: gasSpeed
+    });
+    const transactions = await this.previewService.addPreviews(chainName, owner, pricedTransactions, (_, index) => {
+      const leg = legs[index - approvalTransactions.length];
+      return leg && !leg.wrapDirection ? getSwapPreviewContext({ quote: leg.quote, mode: 'market', side: leg.side }, leg.slippage) : undefined;
+    });
+
+    return {
+      transactions,
+      legs: legs.map((leg, position) => ({
+        index: leg.index,
+        fromChain: chainName,
+        mode: leg.wrapDirection ? 'wrap' : 'market',
+        side: leg.side,
+        quote: leg.quote,
+        guardrails: leg.guardrails,
+        transactionIndex: approvalTransactions.length + position,
+        ...(leg.side === 'BUY' && { maxAmountIn: toTokenAmount(leg.fromTokenAmount, leg.fromToken.decimals) }),
+        ...(leg.autoSlippage && { autoSlippage: leg.autoSlippage })
+      })),
+      approvals: plans.flatMap(({ plan }) => plan ? [plan.approval] : []),
+      preflight: plans.flatMap(({ preflight }) => preflight ? [preflight] : [])
+    };
+  }
+
+  /**
+   * Submit a signed Delta order to VeloraDEX and report its status
+   */
+  async submitDeltaOrder(fromChain: string, order: DeltaOrderToSign['order'], signature: string): Promise<DeltaOrderStatus> {
+    try {
+      const sdk = this.sdkRegistry.getSDK(getChainId(fromChain));
+      const submitted = await sdk.delta.postDeltaOrder({ order: order as DeltaAuctionOrder, signature });
+
+      return {
+        orderId: submitted.id,
+        status: submitted.status,
+        order: submitted.order,
+        ...(submitted.bridgeStatus && { bridgeStatus: submitted.bridgeStatus })
+      };
+    } catch (error) {
+      console.error("Error in submitDeltaOrder:", error);
+      throw fromVeloraError(error);
+    }
+  }
+
+  /**
+   * Build a Delta order to sign (EIP-712) plus the approval of the Delta contract
+   */
+  private async buildDeltaSwap(
+    sdk: SimpleFetchSDK,
+    deltaPrice: DeltaPrice | BridgePrice,
+    params: {
+      chainName: string;
+      chainId: number;
+      owner: string;
+      srcToken: string;
+      srcSymbol: string;
+      srcDecimals: number;
+      destToken: string;
+      destDecimals: number;
+      slippage: number;
+      side: SwapSideType;
+      preflightMode: PreflightMode;
+      gasSpeed: GasSpeed;
+      acceptHighImpact?: boolean;
+      acceptUnverifiedGuardrails?: boolean;
+      buildOptions?: SwapBuildOptions;
+      destChainId?: number; // Cross-chain orders only
+    }
+  ): Promise<SwapResponse> {
+    const { chainName, chainId, owner, srcToken, srcSymbol, srcDecimals, destToken, destDecimals, slippage, side, preflightMode, gasSpeed, buildOptions = {}, destChainId } = params;
+
+    const guardrails = this.guardrailService.check({ chainName, priceRoute: deltaPrice, acceptHighImpact: params.acceptHighImpact, acceptUnverifiedGuardrails: params.acceptUnverifiedGuardrails });
+
+    // Delta orders carry their own limits: SELL bounds the output, BUY bounds the input
+    const srcAmount = side === 'BUY'
+      ? getMaxAmountAfterSlippage(deltaPrice.srcAmount, slippage).toString()
+      : deltaPrice.srcAmount;
+    const destAmount = side === 'BUY'
+      ? deltaPrice.destAmount
+      : getMinAmountAfterSlippage(deltaPrice.destAmount, slippage).toString();
+
+    const signableOrder = await sdk.delta.buildDeltaOrder({
+      owner,
+      srcToken,
+      destToken,
+      srcAmount,
+      destAmount,
+      deltaPrice,
+      side: side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+      ...(buildOptions.receiver && { beneficiary: buildOptions.receiver }),
+      ...(buildOptions.deadline !== undefined && { deadline: buildOptions.deadline }),
+      ...(buildOptions.partner && { partner: buildOptions.partner }),
+      ...(buildOptions.partnerAddress && { partnerAddress: buildOptions.partnerAddress }),
+      ...(buildOptions.partnerFeeBps !== undefined && { partnerFeeBps: buildOptions.partnerFeeBps }),
+      ...(buildOptions.positiveSlippageToPartner !== undefined && { partnerTakesSurplus: buildOptions.positiveSlippageToPartner }),
+      ...(destChainId !== undefined && { destChainId })
+    });
+
+    // The Delta contract pulls the source token when an agent settles the order
+    const deltaContract = await sdk.delta.getDeltaContract();
+    if (!deltaContract) {
+      throw new RouteError('NO_ROUTE', `Delta is not available on chain ${chainId}`);
+    }
+
+    const { approval, transactions: approvalTransactions } = await this.approvalService.planApproval({
+      chainName,
+      token: srcToken,
+      owner,
+      spender: deltaContract,
+      amount: srcAmount
+    });
+
+    // Agents pay the settlement gas, the wallet only pays for approvals
+    const preflight = await this.runPreflight(preflightMode, {
+      chainName,
+      owner,
+      token: srcToken,
+      tokenSymbol: srcSymbol,
+      tokenDecimals: srcDecimals,
+      amount: srcAmount,
+      approvalCount: approvalTransactions.length,
+      swapGas: '0'
+    });
+
+    const transactions = await this.feeService.applyFees({ chainName, owner, transactions: approvalTransactions, speed: gasSpeed });
+
+    const deltaOrder: DeltaOrderToSign = {
+      chainId,
+      order: signableOrder.data,
+      typedData: {
+        domain: signableOrder.domain,
+        types: signableOrder.types,
+        primaryType: 'Order',
+        message: signableOrder.data
+      }
+    };
+
+    return {
+      transactions,
+      quote: deltaPrice,
+      mode: 'delta',
+      side,
+      approval,
+      preflight,
+      guardrails,
+      deltaOrder,
+      ...(buildOptions.deadline !== undefined && { deadline: buildOptions.deadline }),
+      ...(destChainId !== undefined && { crossChain: this.buildCrossChainInfo(deltaPrice, deltaOrder, chainId, destChainId, destDecimals) }),
+      ...(side === 'BUY' && { maxAmountIn: toTokenAmount(srcAmount, srcDecimals) })
+    };
+  }
+
+  /**
+   * Build a deposit (wrap) or withdraw (unwrap) call on the chain's wrapped native token
+   */
+  private async buildWrapSwap(
+    direction: 'wrap' | 'unwrap',
+    params: {
+      chainName: string;
+      chainId: number;
+      owner: string;
+      srcToken: string;
+      srcSymbol: string;
+      srcDecimals: number;
+      destToken: string;
+      destDecimals: number;
+      amount: string;
+      side: SwapSideType;
+      preflightMode: PreflightMode;
+      gasSpeed: GasSpeed;
+      simulate?: boolean;
+    }
+  ): Promise<SwapResponse> {
+    const { chainName, chainId, owner, srcToken, srcSymbol, srcDecimals, destToken, destDecimals, amount, side, preflightMode, gasSpeed } = params;
+    let transactions: Transaction[] = [this.buildWrapTransaction(direction, chainId, srcToken, destToken, amount)];
+
+    // withdraw burns the caller's own balance, so neither direction needs an approval
+    const preflight = await this.runPreflight(preflightMode, {
+      chainName,
+      owner,
+      token: srcToken,
+      tokenSymbol: srcSymbol,
+      tokenDecimals: srcDecimals,
+      amount,
+      approvalCount: 0,
+      swapGas: WRAP_GAS_ESTIMATE.toString()
+    });
+
+    const simulation = params.simulate
+      ? await this.simulationService.simulate({
+        chainName,
+        owner,
+        transactions,
+        fromToken: { address: srcToken, decimals: srcDecimals },
+        toToken: { address: destToken, decimals: destDecimals },
+        expectedDestAmount: amount,
+        minDestAmount: amount
+      })
+      : undefined;
+
+    transactions = await this.feeService.applyFees({ chainName, owner, transactions, speed: gasSpeed });
+
+    return {
+      transactions,
+      quote: { srcToken, srcDecimals, srcAmount: amount, destToken, destDecimals, destAmount: amount },
+      mode: 'wrap',
+      side,
+      preflight,
+      simulation
+    };
+  }
+
+  /**
+   * deposit() with the amount as value to wrap, withdraw(amount) to unwrap
+   */
+  private buildWrapTransaction(direction: 'wrap' | 'unwrap', chainId: number, srcToken: string, destToken: string, amount: string): Transaction {
+    return {
+      chainId,
+      to: direction === 'wrap' ? destToken : srcToken,
+      value: direction === 'wrap' ? amount : '0',
+      data: direction === 'wrap'
+        ? encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'deposit' })
+        : encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'withdraw', args: [BigInt(amount)] })
+    };
+  }
+
+  /**
+   * Turn a provider's built swap into a transaction to sign
+   */
+  private toSwapTransaction(
+    chainId: number,
+    txParams: ProviderTransaction,
+    fromTokenAddress: string,
+    fromTokenAmount: string,
+    providerLabel: string = this.veloraProvider.label
+  ): Transaction {
+    if (!txParams || !txParams.to || !txParams.data) {
+      throw new UpstreamError('UPSTREAM_ERROR', `Failed to build swap transaction from ${providerLabel}`);
+    }
+
+    return {
+      chainId,
+      to: txParams.to,
+      data: txParams.data,
+      // Native source tokens are sent along with the swap, up to the slippage-adjusted maximum for BUY
+      value: txParams.value || (isNativeToken(fromTokenAddress) ? fromTokenAmount : '0'),
+      gasPrice: txParams.gasPrice ? BigInt(txParams.gasPrice).toString() : undefined,
+      gasLimit: txParams.gas ? BigInt(txParams.gas).toString() : undefined,
+    };
+  }
+
+  /**
+   * Describe the bridge leg of a cross-chain Delta order, with the order hash as tracking handle
+   */
+  private buildCrossChainInfo(
+    deltaPrice: DeltaPrice | BridgePrice,
+    deltaOrder: DeltaOrderToSign,
+    fromChainId: number,
+    toChainId: number,
+    destDecimals: number
+  ): CrossChainInfo {
+    const bridgeInfo = 'bridgeInfo' in deltaPrice ? deltaPrice.bridgeInfo : undefined;
+
+    return {
+      fromChainId,
+      toChainId,
+      bridgeProtocol: bridgeInfo?.protocolName,
+      destAmountAfterBridge: bridgeInfo && toTokenAmount(bridgeInfo.destAmountAfterBridge, destDecimals),
+      bridgeFees: bridgeInfo?.fees.map(({ feeToken, amount, amountInUSD }) => ({ feeToken, amount, amountInUSD })),
+      orderHash: hashTypedData(deltaOrder.typedData as unknown as TypedDataDefinition)
+    };
+  }
+
+  /**
+   * Market routes never leave the source chain, so cross-chain swaps default to (and require) Delta
+   */
+  private getTradeMode(mode: SwapMode | undefined, crossChain: boolean): SwapMode {
+    if (crossChain && mode === 'market') {
+      throw new ValidationError('INVALID_REQUEST', 'Cross-chain swaps are only available in delta or all mode', 'mode');
+    }
+
+    return mode ?? (crossChain ? 'delta' : 'market');
+  }
+
+  /**
+   * The requested slippage (0.5% by default), or with slippage auto the one recommended for the pair and route depth
+   */
+  private async resolveSlippage(
+    requested: SwapRequest['slippage'],
+    request: SlippageRequest
+  ): Promise<{ slippage: number; autoSlippage?: SlippageRecommendation }> {
+    if (requested !== 'auto') {
+      return { slippage: requested ?? 0.5 };
+    }
+
+    const autoSlippage = await this.slippageService.recommend(request);
+    return { slippage: autoSlippage.slippage, autoSlippage };
+  }
+
+  /**
+   * Depth probe for auto slippage: the same VeloraDEX quote for a smaller amount
+   */
+  private probeVeloraQuote(
+    chainId: number,
+    params: Parameters<SimpleFetchSDK['quote']['getQuote']>[0] & QuoteCacheParams,
+    pickRoute: (quote: any) => any = getMarketPriceRoute
+  ): SlippageRequest['probe'] {
+    return async amount => {
+      const { quote } = await this.fetchQuote(chainId, { ...params, amount });
+      const route = pickRoute(quote);
+      if (!route?.srcAmount || !route.destAmount) {
+        throw new RouteError('NO_ROUTE', 'Failed to get a probe quote from VeloraDEX');
+      }
+      return route;
+    };
+  }
+
+  /**
+   * Quote through the cache, or return the quote previously shown under quoteId
+   */
+  private async fetchQuote(
+    chainId: number,
+    params: Parameters<SimpleFetchSDK['quote']['getQuote']>[0] & QuoteCacheParams,
+    quoteId?: string
+  ) {
+    if (quoteId) {
+      return this.quoteCache.getByQuoteId(quoteId, chainId, params);
+    }
+
+    const sdk = this.sdkRegistry.getSDK(chainId);
+    return this.quoteCache.getQuote(chainId, params, () => sdk.quote.getQuote(params));
+  }
+
+  /**
+   * Run the pre-flight checks for the requested mode, throwing in strict mode when they fail
+   */
+  private async runPreflight(mode: PreflightMode, request: PreflightRequest): Promise<PreflightResult | undefined> {
+    if (mode === 'skip') {
+      return undefined;
+    }
+
+    const result = await this.preflightService.check(request);
+    if (mode === 'strict' && !result.passed) {
+      const details = result.issues.map(issue => `${issue.code} (${issue.message})`).join(', ');
+      throw new SwapError('PREFLIGHT_FAILED', `Pre-flight checks failed: ${details}`, { details: { issues: result.issues } });
+    }
+
+    return result;
+  }
+
   /**
    * Validate that tokens exist and are supported
    */
@@ -201,4 +1142,29 @@ export class SwapService {
       return false;
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * What a market swap was quoted at, for previews of swap calldata that cannot be decoded
+ */
+function getSwapPreviewContext(
+  response: Pick<SwapResponse, 'quote' | 'mode' | 'side' | 'maxAmountIn' | 'deadline'>,
+  slippage: number
+): SwapPreviewContext | undefined {
+  const { quote, side = 'SELL' } = response;
+  if (response.mode !== 'market' || !quote?.srcToken || !quote.destToken || !quote.srcAmount || !quote.destAmount) {
+    return undefined;
+  }
+
+  return {
+    srcToken: quote.srcToken,
+    destToken: quote.destToken,
+    srcAmount: quote.srcAmount,
+    destAmount: quote.destAmount,
+    side,
+    ...(response.deadline !== undefined && { deadline: response.deadline }),
+    ...(side === 'BUY'
+      ? { maxAmountIn: response.maxAmountIn?.raw ?? getMaxAmountAfterSlippage(quote.srcAmount, slippage).toString() }
+      : { minAmountOut: getMinAmountAfterSlippage(quote.destAmount, slippage).toString() })
+  };
+}
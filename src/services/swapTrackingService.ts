@@ -0,0 +1,413 @@
+import {
+  BaseError,
+  RawContractError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  getAddress,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt
+} from 'viem';
+import { getChainId, getTokenAmountForDecimals, isChecksummedAddress, isNativeToken } from '../utils/helpers.js';
+import { getPublicClient } from '../utils/rpc.js';
+import { TRANSFER_EVENT_ABI } from '../utils/abis.js';
+import { decodeRevertReason } from '../utils/revert.js';
+import { getMarketPriceRoute, toTokenAmount } from '../utils/quote.js';
+import { UpstreamError, ValidationError } from '../utils/errors.js';
+import { TokenResolver } from './tokenResolver.js';
+import { QuoteCache } from './quoteCache.js';
+import type { SwapTrackRequest, SwapTrackStatus, TokenAmount, TokenInfo, TokenTransfer, TrackedSwap } from '../types/index.js';
+
+const DEFAULT_WAIT_SECONDS = 15;
+const MAX_WAIT_SECONDS = 60;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// Mined swaps never change again, so they are served from the store
+const FINAL_STATUSES: SwapTrackStatus[] = ['success', 'reverted'];
+
+export interface SwapTrackFilter {
+  chain?: string;
+  status?: SwapTrackStatus;
+  limit?: number;
+}
+
+/**
+ * Where the tracked swaps of one wallet live, by `${chainId}:${txHash}`
+ */
+export interface SwapTrackStore {
+  get(id: string): Promise<TrackedSwap | undefined>;
+  put(id: string, swap: TrackedSwap): Promise<void>;
+  list(filter: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]>;
+}
+
+/**
+ * Store of a wallet's tracked swaps, by checksummed address
+ */
+export type SwapTrackStoreProvider = (wallet: string) => SwapTrackStore;
+
+/**
+ * Subset of the Durable Object SQL API used by SqliteSwapTrackStore
+ */
+export interface SqlStorageLike {
+  exec(query: string, ...bindings: unknown[]): { toArray(): Record<string, unknown>[] };
+}
+
+/**
+ * Process-local store, used when running under Node
+ */
+export class MemorySwapTrackStore implements SwapTrackStore {
+  private swaps = new Map<string, TrackedSwap>();
+
+  async get(id: string): Promise<TrackedSwap | undefined> {
+    return this.swaps.get(id);
+  }
+
+  async put(id: string, swap: TrackedSwap): Promise<void> {
+    this.swaps.set(id, swap);
+  }
+
+  async list({ chain, status, limit }: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]> {
+    return [...this.swaps.values()]
+      .filter(swap => (!chain || swap.chain === chain) && (!status || swap.status === status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Process-local stores, one per wallet, used when running under Node
+ */
+export function memorySwapTrackStores(): SwapTrackStoreProvider {
+  const stores = new Map<string, SwapTrackStore>();
+  return wallet => {
+    const store = stores.get(wallet) ?? new MemorySwapTrackStore();
+    stores.set(wallet, store);
+    return store;
+  };
+}
+
+/**
+ * SQLite storage of the Durable Object holding a wallet's tracked swaps
+ */
+export class SqliteSwapTrackStore implements SwapTrackStore {
+  constructor(private readonly sql: SqlStorageLike) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS tracked_swaps (
+      id TEXT PRIMARY KEY,
+      chain TEXT NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    )`);
+  }
+
+  async get(id: string): Promise<TrackedSwap | undefined> {
+    const [row] = this.sql.exec('SELECT data FROM tracked_swaps WHERE id = ?', id).toArray();
+    return row && JSON.parse(String(row.data));
+  }
+
+  async put(id: string, swap: TrackedSwap): Promise<void> {
+    this.sql.exec(
+      `INSERT INTO tracked_swaps (id, chain, status, created_at, data) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET status = excluded.status, data = excluded.data`,
+      id, swap.chain, swap.status, swap.createdAt, JSON.stringify(swap)
+    );
+  }
+
+  async list({ chain, status, limit }: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]> {
+    const conditions: string[] = [];
+    const bindings: unknown[] = [];
+    if (chain) {
+      conditions.push('chain = ?');
+      bindings.push(chain);
+    }
+    if (status) {
+      conditions.push('status = ?');
+      bindings.push(status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.sql
+      .exec(`SELECT data FROM tracked_swaps ${where} ORDER BY created_at DESC LIMIT ?`, ...bindings, limit)
+      .toArray()
+      .map(row => JSON.parse(String(row.data)));
+  }
+}
+
+/**
+ * Store methods exposed over Durable Object RPC by the object holding a wallet's tracked swaps
+ */
+export interface SwapTrackStoreStub {
+  getTrackedSwap(id: string): Promise<TrackedSwap | undefined>;
+  putTrackedSwap(id: string, swap: TrackedSwap): Promise<void>;
+  listTrackedSwaps(filter: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]>;
+}
+
+/**
+ * Tracked swaps kept by a Durable Object named after the wallet, so every session of the wallet lists them
+ */
+export class DurableObjectSwapTrackStore implements SwapTrackStore {
+  constructor(private readonly stub: SwapTrackStoreStub) {}
+
+  async get(id: string): Promise<TrackedSwap | undefined> {
+    return this.stub.getTrackedSwap(id);
+  }
+
+  async put(id: string, swap: TrackedSwap): Promise<void> {
+    await this.stub.putTrackedSwap(id, swap);
+  }
+
+  async list(filter: SwapTrackFilter & { limit: number }): Promise<TrackedSwap[]> {
+    return this.stub.listTrackedSwaps(filter);
+  }
+}
+
+/**
+ * Follows broadcast swap transactions: polls the receipt, measures what the receiver (the sender by
+ * default) got from the ERC-20 Transfer logs (or the balance change for native tokens), compares it
+ * with the quote and decodes the revert reason of failed swaps. Every result is kept in the store of
+ * the sending wallet.
+ */
+export class SwapTrackingService {
+  constructor(
+    private readonly getStore: SwapTrackStoreProvider = memorySwapTrackStores(),
+    private readonly tokenResolver: TokenResolver = new TokenResolver(),
+    private readonly quoteCache: QuoteCache = new QuoteCache()
+  ) {}
+
+  async trackSwap(request: SwapTrackRequest): Promise<TrackedSwap> {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(request.txHash)) {
+      throw new ValidationError('INVALID_REQUEST', 'Invalid transaction hash: expected 0x followed by 64 hex characters', 'txHash');
+    }
+    if (!request.fromAddress || !isChecksummedAddress(request.fromAddress)) {
+      throw new ValidationError('INVALID_ADDRESS', 'Invalid wallet address or checksum', 'fromAddress');
+    }
+    if (request.receiver !== undefined && !isChecksummedAddress(request.receiver)) {
+      throw new ValidationError('INVALID_ADDRESS', 'Invalid receiver address or checksum', 'receiver');
+    }
+
+    const chain = request.chain.toUpperCase();
+    const chainId = getChainId(chain);
+    const txHash = request.txHash.toLowerCase() as Hash;
+    const id = `${chainId}:${txHash}`;
+    const wallet = getAddress(request.fromAddress);
+    const store = this.getStore(wallet);
+
+    const existing = await store.get(id);
+    if (existing && FINAL_STATUSES.includes(existing.status)) {
+      return existing;
+    }
+
+    // The expectation is recorded on the first call, the quote may be gone by the next one
+    const expectation = existing?.toToken ? existing : await this.resolveExpectation(chain, request);
+    const receiver = existing?.receiver ?? (request.receiver && getAddress(request.receiver));
+    const now = new Date().toISOString();
+    const base: TrackedSwap = {
+      txHash,
+      chain,
+      chainId,
+      status: 'pending',
+      ...(expectation.quoteId && { quoteId: expectation.quoteId }),
+      ...(expectation.toToken && { toToken: expectation.toToken }),
+      ...(expectation.expectedAmount && { expectedAmount: expectation.expectedAmount }),
+      ...(receiver && { receiver }),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    const client = getPublicClient(chain);
+    const waitSeconds = Math.min(Math.max(request.waitSeconds ?? DEFAULT_WAIT_SECONDS, 0), MAX_WAIT_SECONDS);
+
+    let tracked: TrackedSwap;
+    try {
+      const receipt = await this.getReceipt(client, txHash, waitSeconds);
+      tracked = receipt
+        ? await this.describeReceipt(client, base, receipt)
+        : { ...base, status: await this.isKnown(client, txHash) ? 'pending' : 'not_found' };
+    } catch (error) {
+      throw new UpstreamError('UPSTREAM_ERROR', `Could not track ${txHash} on ${chain}: ${error instanceof Error ? error.message : 'RPC request failed'}`, { cause: error });
+    }
+
+    // Only the sender's own swaps join its list
+    if (tracked.from && tracked.from !== wallet) {
+      throw new ValidationError('INVALID_REQUEST', `Transaction ${txHash} was sent by ${tracked.from}, not ${wallet}`, 'fromAddress');
+    }
+
+    await store.put(id, tracked);
+    return tracked;
+  }
+
+  async listTrackedSwaps(address: string, filter: SwapTrackFilter = {}): Promise<TrackedSwap[]> {
+    if (!isChecksummedAddress(address)) {
+      throw new ValidationError('INVALID_ADDRESS', 'Invalid wallet address or checksum', 'address');
+    }
+
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    return this.getStore(getAddress(address)).list({ ...filter, chain: filter.chain?.toUpperCase(), limit });
+  }
+
+  /**
+   * Token and amount the swap was quoted to deliver, from the cached quote or the request
+   */
+  private async resolveExpectation(
+    chain: string,
+    request: SwapTrackRequest
+  ): Promise<{ quoteId?: string; toToken?: TokenInfo; expectedAmount?: TokenAmount }> {
+    if (request.quoteId) {
+      const cached = await this.quoteCache.findByQuoteId(request.quoteId);
+      const priceRoute = cached && getMarketPriceRoute(cached.quote);
+      if (!priceRoute?.destToken || !priceRoute.destAmount) {
+        throw new ValidationError('QUOTE_EXPIRED', `Quote ${request.quoteId} is unknown or expired, pass toToken and expectedAmount instead`, 'quoteId');
+      }
+
+      const toToken = await this.tokenResolver.resolveToken(chain, priceRoute.destToken);
+      return { quoteId: request.quoteId, toToken, expectedAmount: toTokenAmount(priceRoute.destAmount, toToken.decimals) };
+    }
+
+    if (!request.toToken) {
+      return {};
+    }
+
+    const toToken = await this.tokenResolver.resolveToken(chain, request.toToken);
+    return {
+      toToken,
+      ...(request.expectedAmount && {
+        expectedAmount: toTokenAmount(getTokenAmountForDecimals(request.expectedAmount, toToken.decimals), toToken.decimals)
+      })
+    };
+  }
+
+  private async getReceipt(client: PublicClient, hash: Hash, waitSeconds: number): Promise<TransactionReceipt | undefined> {
+    try {
+      return await client.getTransactionReceipt({ hash });
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError) || waitSeconds === 0) {
+        return rethrowUnlessNotFound(error);
+      }
+    }
+
+    try {
+      return await client.waitForTransactionReceipt({ hash, timeout: waitSeconds * 1000 });
+    } catch (error) {
+      return rethrowUnlessNotFound(error);
+    }
+  }
+
+  /**
+   * A transaction without receipt is pending when the node knows it, otherwise not (yet) broadcast
+   */
+  private async isKnown(client: PublicClient, hash: Hash): Promise<boolean> {
+    try {
+      await client.getTransaction({ hash });
+      return true;
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async describeReceipt(client: PublicClient, base: TrackedSwap, receipt: TransactionReceipt): Promise<TrackedSwap> {
+    const from = getAddress(receipt.from);
+    const receiver = base.receiver ?? from;
+    const mined = {
+      ...base,
+      from,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice.toString()
+    };
+
+    if (receipt.status === 'reverted') {
+      return { ...mined, status: 'reverted', revertReason: await this.getRevertReason(client, receipt) };
+    }
+
+    const transfers: TokenTransfer[] = parseEventLogs({ abi: TRANSFER_EVENT_ABI, eventName: 'Transfer', logs: receipt.logs })
+      .filter(log => [from, receiver].includes(getAddress(log.args.from)) || [from, receiver].includes(getAddress(log.args.to)))
+      .map(log => ({ token: getAddress(log.address), from: getAddress(log.args.from), to: getAddress(log.args.to), amount: log.args.value.toString() }));
+
+    const received = base.toToken && await this.getReceivedAmount(client, receipt, receiver, base.toToken, transfers);
+    const expected = base.expectedAmount && BigInt(base.expectedAmount.raw);
+
+    return {
+      ...mined,
+      status: 'success',
+      transfers,
+      ...(received !== undefined && base.toToken && { receivedAmount: toTokenAmount(received, base.toToken.decimals) }),
+      ...(received !== undefined && expected && { realizedSlippageBps: Number((expected - received) * 10_000n / expected) })
+    };
+  }
+
+  /**
+   * Sum of the token's transfers to the receiver. Native tokens leave no logs, so their balance change
+   * over the block is used, adding back the gas and value the transaction spent when the sender is the
+   * receiver. Other transactions of the receiver in the same block are counted too.
+   */
+  private async getReceivedAmount(
+    client: PublicClient,
+    receipt: TransactionReceipt,
+    receiver: string,
+    toToken: TokenInfo,
+    transfers: TokenTransfer[]
+  ): Promise<bigint | undefined> {
+    if (!isNativeToken(toToken.address)) {
+      return transfers
+        .filter(transfer => transfer.token === getAddress(toToken.address) && transfer.to === receiver)
+        .reduce((sum, transfer) => sum + BigInt(transfer.amount), 0n);
+    }
+
+    try {
+      const address = receiver as Address;
+      const [before, after] = await Promise.all([
+        client.getBalance({ address, blockNumber: receipt.blockNumber - 1n }),
+        client.getBalance({ address, blockNumber: receipt.blockNumber })
+      ]);
+      if (receiver !== getAddress(receipt.from)) {
+        return after - before;
+      }
+
+      const transaction = await client.getTransaction({ hash: receipt.transactionHash });
+      return after - before + receipt.gasUsed * receipt.effectiveGasPrice + transaction.value;
+    } catch (error) {
+      console.warn(`Could not measure the native amount received by ${receipt.transactionHash}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Receipts carry no revert data, so the transaction is replayed on the state before its block
+   */
+  private async getRevertReason(client: PublicClient, receipt: TransactionReceipt): Promise<string> {
+    try {
+      const transaction = await client.getTransaction({ hash: receipt.transactionHash });
+      await client.call({
+        account: transaction.from,
+        to: transaction.to,
+        data: transaction.input,
+        value: transaction.value,
+        gas: transaction.gas,
+        blockNumber: receipt.blockNumber - 1n
+      });
+      return 'Transaction reverted, but replaying it succeeded (the state it depended on changed within the block)';
+    } catch (error) {
+      if (!(error instanceof BaseError)) {
+        return 'Transaction reverted, the reason could not be retrieved';
+      }
+
+      const raw = error.walk(cause => cause instanceof RawContractError) as RawContractError | null;
+      const data = typeof raw?.data === 'object' ? raw.data.data : raw?.data;
+      return decodeRevertReason(data, error.shortMessage);
+    }
+  }
+}
+
+function rethrowUnlessNotFound(error: unknown): undefined {
+  if (error instanceof TransactionReceiptNotFoundError || error instanceof WaitForTransactionReceiptTimeoutError) {
+    return undefined;
+  }
+  throw error;
+}
@@ -0,0 +1,89 @@
+import type { Address } from 'viem';
+import { getChainId, getTokenAddress, getTokenDecimals, isValidAddress, normalizeNativeSymbol } from '../utils/helpers.js';
+import { getPublicClient } from '../utils/rpc.js';
+import { ERC20_ABI } from '../utils/abis.js';
+import { ValidationError } from '../utils/errors.js';
+import { getTokenRegistry, loadConfiguredTokenLists } from '../utils/tokenRegistry.js';
+import type { TokenInfo, TokenSearchResult } from '../types/index.js';
+
+// On-chain token metadata never changes, so it is cached for the lifetime of the process
+const tokenMetadataCache = new Map<string, TokenInfo>();
+
+/**
+ * Resolves `fromToken`/`toToken` inputs into address and decimals.
+ * Symbols and known addresses come from the token registry, unknown addresses are read on-chain.
+ */
+export class TokenResolver {
+  /**
+   * Resolve a token symbol or contract address on the given chain
+   */
+  async resolveToken(chainName: string, token: string): Promise<TokenInfo> {
+    await loadConfiguredTokenLists();
+
+    if (!isValidAddress(token)) {
+      return {
+        symbol: normalizeNativeSymbol(chainName, token).toUpperCase(),
+        address: getTokenAddress(chainName, token),
+        decimals: getTokenDecimals(chainName, token)
+      };
+    }
+
+    const chainId = getChainId(chainName);
+    const listed = getTokenRegistry().findByAddress(chainId, token);
+    if (listed) {
+      return { symbol: listed.symbol, address: token, decimals: listed.decimals };
+    }
+
+    const cacheKey = `${chainId}:${token.toLowerCase()}`;
+    const cached = tokenMetadataCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tokenInfo = await this.fetchTokenMetadata(chainName, token as Address);
+    tokenMetadataCache.set(cacheKey, tokenInfo);
+
+    return tokenInfo;
+  }
+
+  /**
+   * Search the token registry by symbol, name or address, optionally on one chain
+   */
+  async searchTokens(query: string, chainName?: string, limit?: number): Promise<TokenSearchResult[]> {
+    await loadConfiguredTokenLists();
+
+    return getTokenRegistry().search(query, {
+      chainId: chainName ? getChainId(chainName) : undefined,
+      limit
+    });
+  }
+
+  /**
+   * Read `decimals()` and `symbol()` from an ERC20 contract, rejecting addresses without code
+   */
+  private async fetchTokenMetadata(chainName: string, address: Address): Promise<TokenInfo> {
+    const client = getPublicClient(chainName);
+
+    const code = await client.getCode({ address });
+    if (!code || code === '0x') {
+      throw new ValidationError('UNKNOWN_TOKEN', `Token ${address} is not a contract on ${chainName}`);
+    }
+
+    let decimals: number;
+    try {
+      decimals = Number(await client.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' }));
+    } catch (error) {
+      throw new ValidationError('UNKNOWN_TOKEN', `Token ${address} does not expose ERC20 decimals on ${chainName}`);
+    }
+
+    let symbol: string;
+    try {
+      symbol = await client.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }) as string;
+    } catch (error) {
+      // Some older tokens (e.g. MKR) return bytes32 symbols, fall back to the address
+      symbol = address;
+    }
+
+    return { symbol, address, decimals };
+  }
+}
@@ -0,0 +1,282 @@
+import { decodeFunctionData, formatUnits, isAddress, isHex, maxUint256, zeroAddress, type Hex } from 'viem';
+import { APPROVE_ABI, AUGUSTUS_V6_ABI, ERC20_TRANSFER_ABI, WRAPPED_NATIVE_ABI } from '../utils/abis.js';
+import { describeContract, toContractRef } from '../utils/knownContracts.js';
+import { isNativeToken } from '../utils/helpers.js';
+import { ValidationError } from '../utils/errors.js';
+import { TokenResolver } from './tokenResolver.js';
+import { SUPPORTED_CHAINS, type DecodeTransactionRequest, type DecodedTransaction, type PreviewTokenAmount, type SwapSideType, type TokenInfo, type Transaction, type TransactionPreview } from '../types/index.js';
+
+// Sentinel VeloraDEX uses for the chain's native token
+const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// ERC-20 and wrapped native calls plus the AugustusV6 swap entry points, decoded in one pass
+const DECODABLE_ABI = [...APPROVE_ABI, ...ERC20_TRANSFER_ABI, ...WRAPPED_NATIVE_ABI, ...AUGUSTUS_V6_ABI];
+
+/**
+ * What the server quoted for a swap, used when the swap calldata itself cannot be decoded
+ * (another aggregator, or an AugustusV6 entry point without a known ABI)
+ */
+export interface SwapPreviewContext {
+  srcToken: string;
+  destToken: string;
+  srcAmount: string;
+  destAmount: string;
+  side: SwapSideType;
+  minAmountOut?: string;
+  maxAmountIn?: string;
+  deadline?: number; // Unix seconds
+}
+
+interface DecodedCall {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+// Fields of the swap data of every AugustusV6 entry point
+interface AugustusSwapData {
+  srcToken: string;
+  destToken: string;
+  fromAmount: bigint;
+  toAmount: bigint;
+  quotedAmount: bigint;
+  beneficiary: string;
+}
+
+/**
+ * Turns transaction calldata into something a person can check before signing: approvals with
+ * amount and spender, transfers, wraps and swaps with tokens, amounts and limits, labelled with
+ * the known contract they call.
+ */
+export class TransactionPreviewService {
+  constructor(private readonly tokenResolver: TokenResolver = new TokenResolver()) {}
+
+  /**
+   * Attach a preview to every transaction. Previews are best effort and never fail the build.
+   */
+  async addPreviews(
+    chainName: string,
+    owner: string,
+    transactions: Transaction[],
+    getSwapContext: (transaction: Transaction, index: number) => SwapPreviewContext | undefined = () => undefined
+  ): Promise<Transaction[]> {
+    return Promise.all(transactions.map(async (transaction, index) => {
+      try {
+        const { preview } = await this.decode(chainName, transaction, owner, getSwapContext(transaction, index));
+        return { ...transaction, preview };
+      } catch (error) {
+        console.warn(`Could not preview transaction to ${transaction.to} on ${chainName}:`, error);
+        return transaction;
+      }
+    }));
+  }
+
+  /**
+   * Explain arbitrary calldata aimed at VeloraDEX or ERC-20 contracts
+   */
+  async decodeTransaction(request: DecodeTransactionRequest): Promise<DecodedTransaction> {
+    if (!isAddress(request.to, { strict: false })) {
+      throw new ValidationError('INVALID_ADDRESS', `Invalid contract address: ${request.to}`, 'to');
+    }
+    if (!isHex(request.data)) {
+      throw new ValidationError('INVALID_REQUEST', 'Calldata must be a 0x-prefixed hex string', 'data');
+    }
+    if (request.value !== undefined && !/^\d+$/.test(request.value)) {
+      throw new ValidationError('INVALID_AMOUNT', 'Value must be an integer amount of wei', 'value');
+    }
+
+    const { preview, decoded } = await this.decode(request.chain, request);
+    const selector = request.data.length >= 10 ? request.data.slice(0, 10) : undefined;
+
+    return {
+      ...preview,
+      ...(selector && { selector }),
+      ...(decoded && { args: getNamedArgs(decoded) })
+    };
+  }
+
+  private async decode(
+    chainName: string,
+    call: { to: string; data?: string; value?: string | number },
+    owner?: string,
+    context?: SwapPreviewContext
+  ): Promise<{ preview: TransactionPreview; decoded?: DecodedCall }> {
+    const contract = toContractRef(chainName, call.to);
+    const value = BigInt(call.value || 0);
+    const decoded = decodeCall(call.data);
+    const valuePreview = value > 0n ? await this.toPreviewAmount(chainName, NATIVE_TOKEN_ADDRESS, value) : undefined;
+    const withValue = (preview: TransactionPreview): TransactionPreview => valuePreview ? { ...preview, value: valuePreview } : preview;
+
+    const functionName = decoded?.functionName;
+    if (functionName === 'approve') {
+      const [spenderAddress, amount] = decoded!.args as [string, bigint];
+      const spender = toContractRef(chainName, spenderAddress);
+      const amountIn = await this.toPreviewAmount(chainName, call.to, amount);
+      const symbol = amountIn.symbol ?? contract.address;
+      const summary = amount === 0n
+        ? `Revoke the ${symbol} allowance of ${describeContract(spender)}`
+        : amount === maxUint256
+          ? `Approve unlimited ${symbol} to ${describeContract(spender)}`
+          : `Approve ${formatAmount(amountIn)} to ${describeContract(spender)}`;
+
+      return { decoded, preview: withValue({ action: 'approve', summary, contract, functionName, spender, amountIn }) };
+    }
+
+    if (functionName === 'transfer' || functionName === 'transferFrom') {
+      const [from, to, amount] = functionName === 'transfer'
+        ? [undefined, ...decoded!.args as [string, bigint]]
+        : decoded!.args as [string, string, bigint];
+      const amountIn = await this.toPreviewAmount(chainName, call.to, amount);
+      const summary = from
+        ? `Transfer ${formatAmount(amountIn)} from ${shortAddress(from)} to ${shortAddress(to)}`
+        : `Transfer ${formatAmount(amountIn)} to ${shortAddress(to)}`;
+
+      return { decoded, preview: withValue({ action: 'transfer', summary, contract, functionName, recipient: to, amountIn }) };
+    }
+
+    const wrappedNative = SUPPORTED_CHAINS[chainName.toUpperCase()]?.wrappedNative;
+    if ((functionName === 'deposit' || functionName === 'withdraw') && wrappedNative?.toLowerCase() === call.to.toLowerCase()) {
+      const wrap = functionName === 'deposit';
+      const amountIn = wrap
+        ? await this.toPreviewAmount(chainName, NATIVE_TOKEN_ADDRESS, value)
+        : await this.toPreviewAmount(chainName, call.to, decoded!.args[0] as bigint);
+      const wrapped = await this.lookupToken(chainName, call.to);
+      const native = SUPPORTED_CHAINS[chainName.toUpperCase()].nativeSymbol;
+      const summary = wrap
+        ? `Wrap ${formatAmount(amountIn)} into ${wrapped?.symbol ?? describeContract(contract)}`
+        : `Unwrap ${formatAmount(amountIn)} into ${native}`;
+
+      return { decoded, preview: withValue({ action: wrap ? 'wrap' : 'unwrap', summary, contract, functionName, amountIn }) };
+    }
+
+    const swapData = decoded && findSwapData(decoded.args);
+    if (functionName && swapData) {
+      const exactOut = functionName.startsWith('swapExactAmountOut');
+      const recipient = swapData.beneficiary !== zeroAddress && swapData.beneficiary.toLowerCase() !== owner?.toLowerCase()
+        ? swapData.beneficiary
+        : undefined;
+      const preview = await this.previewSwap(chainName, contract, {
+        srcToken: swapData.srcToken,
+        destToken: swapData.destToken,
+        side: exactOut ? 'BUY' : 'SELL',
+        srcAmount: (exactOut ? swapData.quotedAmount : swapData.fromAmount).toString(),
+        destAmount: (exactOut ? swapData.toAmount : swapData.quotedAmount).toString(),
+        ...(exactOut ? { maxAmountIn: swapData.fromAmount.toString() } : { minAmountOut: swapData.toAmount.toString() }),
+        deadline: context?.deadline
+      }, recipient);
+
+      return { decoded, preview: withValue({ ...preview, functionName }) };
+    }
+
+    if (context) {
+      const preview = await this.previewSwap(chainName, contract, context);
+      return { decoded, preview: withValue({ ...preview, ...(functionName && { functionName }) }) };
+    }
+
+    const target = functionName ?? (call.data && call.data.length >= 10 ? `function ${call.data.slice(0, 10)}` : undefined);
+    const summary = target
+      ? `Call ${target} on ${describeContract(contract)}${valuePreview ? ` sending ${formatAmount(valuePreview)}` : ''}`
+      : `Send ${valuePreview ? formatAmount(valuePreview) : 'nothing'} to ${describeContract(contract)}`;
+
+    return { decoded, preview: withValue({ action: 'call', summary, contract, ...(functionName && { functionName }) }) };
+  }
+
+  private async previewSwap(
+    chainName: string,
+    contract: TransactionPreview['contract'],
+    swap: SwapPreviewContext,
+    recipient?: string
+  ): Promise<TransactionPreview> {
+    const [amountIn, amountOut, minAmountOut, maxAmountIn] = await Promise.all([
+      this.toPreviewAmount(chainName, swap.srcToken, BigInt(swap.srcAmount)),
+      this.toPreviewAmount(chainName, swap.destToken, BigInt(swap.destAmount)),
+      swap.minAmountOut !== undefined ? this.toPreviewAmount(chainName, swap.destToken, BigInt(swap.minAmountOut)) : undefined,
+      swap.maxAmountIn !== undefined ? this.toPreviewAmount(chainName, swap.srcToken, BigInt(swap.maxAmountIn)) : undefined
+    ]);
+    const deadline = swap.deadline !== undefined ? new Date(swap.deadline * 1000).toISOString() : undefined;
+
+    const spend = maxAmountIn ? `at most ${formatAmount(maxAmountIn)}` : formatAmount(amountIn);
+    const receive = minAmountOut ? `at least ${formatAmount(minAmountOut)}` : formatAmount(amountOut);
+    const summary = [
+      `Swap ${spend} for ${receive} on ${describeContract(contract)}`,
+      ...(recipient ? [`paid to ${shortAddress(recipient)}`] : []),
+      ...(deadline ? [`valid until ${deadline}`] : [])
+    ].join(', ');
+
+    return {
+      action: 'swap',
+      summary,
+      contract,
+      amountIn,
+      amountOut,
+      ...(minAmountOut && { minAmountOut }),
+      ...(maxAmountIn && { maxAmountIn }),
+      ...(recipient && { recipient }),
+      ...(deadline && { deadline })
+    };
+  }
+
+  private async toPreviewAmount(chainName: string, token: string, amount: bigint): Promise<PreviewTokenAmount> {
+    const info = await this.lookupToken(chainName, token);
+
+    return {
+      token: isNativeToken(token) ? NATIVE_TOKEN_ADDRESS : token,
+      ...(info && { symbol: info.symbol, formatted: formatUnits(amount, info.decimals) }),
+      raw: amount.toString()
+    };
+  }
+
+  /**
+   * Token symbol and decimals, undefined when they cannot be read
+   */
+  private async lookupToken(chainName: string, token: string): Promise<Pick<TokenInfo, 'symbol' | 'decimals'> | undefined> {
+    if (isNativeToken(token)) {
+      const chain = SUPPORTED_CHAINS[chainName.toUpperCase()];
+      return chain && { symbol: chain.nativeSymbol, decimals: 18 };
+    }
+
+    try {
+      return await this.tokenResolver.resolveToken(chainName, token);
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+function decodeCall(data?: string): DecodedCall | undefined {
+  if (!data || data.length < 10) {
+    return undefined;
+  }
+
+  try {
+    return decodeFunctionData({ abi: DECODABLE_ABI, data: data as Hex }) as DecodedCall;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function findSwapData(args: readonly unknown[]): AugustusSwapData | undefined {
+  return args.find((arg): arg is AugustusSwapData => typeof arg === 'object' && arg !== null && 'srcToken' in arg && 'quotedAmount' in arg);
+}
+
+/**
+ * Decoded arguments by parameter name, with integers as decimal strings
+ */
+function getNamedArgs(decoded: DecodedCall): Record<string, unknown> {
+  const abiItem = DECODABLE_ABI.find(item => item.name === decoded.functionName);
+  const toJson = (value: unknown): unknown => {
+    if (typeof value === 'bigint') return value.toString();
+    if (Array.isArray(value)) return value.map(toJson);
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJson(item)]));
+    return value;
+  };
+
+  return Object.fromEntries(decoded.args.map((arg, index) => [abiItem?.inputs[index]?.name || `arg${index}`, toJson(arg)]));
+}
+
+function formatAmount(amount: PreviewTokenAmount): string {
+  return `${amount.formatted ?? amount.raw} ${amount.symbol ?? shortAddress(amount.token)}`;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
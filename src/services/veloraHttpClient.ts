@@ -0,0 +1,165 @@
+import axios, { isAxiosError, type AxiosRequestConfig, type AxiosResponse, type AxiosStatic } from 'axios';
+import { UpstreamError } from '../utils/errors.js';
+
+export interface VeloraClientOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Extra attempts for idempotent (GET) calls
+  baseDelayMs: number; // First backoff step, doubled on every retry
+  maxDelayMs: number; // Cap of the backoff, and the longest Retry-After worth waiting for
+  failureThreshold: number; // Consecutive upstream failures that open the circuit
+  cooldownMs: number; // How long the circuit stays open before a single trial call
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+const DEFAULT_OPTIONS: VeloraClientOptions = {
+  timeoutMs: 10_000,
+  maxRetries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 5_000,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  random: Math.random
+};
+
+/**
+ * axios replacement handed to the VeloraDEX SDK. Every call gets a timeout; GET calls (quotes,
+ * prices, spender lookups) are retried on network errors, timeouts, 429 and 5xx with jittered
+ * exponential backoff or the server's Retry-After. POST calls (transaction builds, order
+ * submissions) are never retried. After repeated upstream failures the circuit opens and calls
+ * fail fast until the cooldown has passed, then a single trial call decides whether it closes again.
+ */
+export class VeloraHttpClient {
+  readonly isAxiosError = isAxiosError;
+  private readonly options: VeloraClientOptions;
+  private consecutiveFailures = 0;
+  private openUntil = 0; // 0 while closed
+  private trialInFlight = false;
+
+  constructor(
+    private readonly http: Pick<AxiosStatic, 'request'> = axios,
+    options: Partial<VeloraClientOptions> = {}
+  ) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      timeoutMs: readNumber('VELORA_TIMEOUT_MS', DEFAULT_OPTIONS.timeoutMs),
+      maxRetries: readNumber('VELORA_MAX_RETRIES', DEFAULT_OPTIONS.maxRetries),
+      ...options
+    };
+  }
+
+  // Same signature as axios.request, which the SDK calls
+  async request<T = any, R = AxiosResponse<T>, D = any>(config: AxiosRequestConfig<D>): Promise<R> {
+    const idempotent = (config.method ?? 'get').toLowerCase() === 'get';
+
+    for (let attempt = 0; ; attempt++) {
+      const trial = this.acquireCall();
+
+      try {
+        const response = await this.http.request<T, R, D>({ timeout: this.options.timeoutMs, ...config });
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        return response;
+      } catch (error) {
+        // Client errors (bad token, no route...) say nothing about VeloraDEX health
+        if (!isTransientFailure(error)) {
+          throw error;
+        }
+
+        this.recordFailure();
+        const delay = this.getRetryDelay(error, attempt);
+        if (!idempotent || attempt >= this.options.maxRetries || delay === undefined || this.openUntil > Date.now()) {
+          throw error;
+        }
+
+        await this.options.sleep(delay);
+      } finally {
+        if (trial) {
+          this.trialInFlight = false;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fail fast while the circuit is open. Past the cooldown the circuit is half-open: one call goes
+   * through as the trial (returns true) and the others fail fast until it settles.
+   */
+  private acquireCall(): boolean {
+    if (this.openUntil === 0) {
+      return false;
+    }
+
+    const remainingMs = this.openUntil - Date.now();
+    if (remainingMs <= 0 && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    const retryAfterSeconds = remainingMs > 0 ? Math.ceil(remainingMs / 1000) : Math.ceil(this.options.timeoutMs / 1000);
+    const reason = remainingMs > 0 ? `calls are paused for ${retryAfterSeconds}s` : 'a trial call is checking whether it recovered';
+    throw new UpstreamError(
+      'UPSTREAM_ERROR',
+      `VeloraDEX is failing (${this.consecutiveFailures} consecutive errors), ${reason}`,
+      { details: { retryAfterSeconds } }
+    );
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+
+    // Once past the cooldown a single failing trial call re-opens the circuit
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openUntil = Date.now() + this.options.cooldownMs;
+      console.warn(`VeloraDEX circuit opened for ${this.options.cooldownMs}ms after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  /**
+   * Retry-After when the server sent one (undefined when longer than worth waiting), full jitter backoff otherwise
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | undefined {
+    const retryAfterMs = isAxiosError(error) ? parseRetryAfter(error.response?.headers?.['retry-after']) : undefined;
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.options.maxDelayMs ? retryAfterMs : undefined;
+    }
+
+    const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(this.options.random() * backoff);
+  }
+}
+
+/**
+ * Network errors, timeouts, rate limiting and server errors
+ */
+function isTransientFailure(error: unknown): boolean {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After as delay seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
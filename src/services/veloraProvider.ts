@@ -0,0 +1,90 @@
+import { SwapSide } from '@velora-dex/sdk';
+import { RouteError, UpstreamError } from '../utils/errors.js';
+import { getMarketPriceRoute, slippageToBps } from '../utils/quote.js';
+import { VeloraSDKRegistry } from './veloraSdkRegistry.js';
+import { QuoteCache } from './quoteCache.js';
+import type { ProviderBuildRequest, ProviderQuote, ProviderQuoteRequest, ProviderTransaction, SwapProvider } from './swapProvider.js';
+
+/**
+ * VeloraDEX market routes, quoted through the shared quote cache
+ */
+export class VeloraProvider implements SwapProvider {
+  readonly name = 'velora';
+  readonly label = 'VeloraDEX';
+  readonly supportsBuy = true;
+  readonly supportsPermit = true;
+  readonly supportsBuildOptions = true;
+
+  constructor(
+    private readonly sdkRegistry: VeloraSDKRegistry,
+    private readonly quoteCache: QuoteCache
+  ) {}
+
+  async quote(request: ProviderQuoteRequest): Promise<ProviderQuote> {
+    const params = {
+      srcToken: request.srcToken,
+      destToken: request.destToken,
+      amount: request.amount,
+      userAddress: request.userAddress,
+      srcDecimals: request.srcDecimals,
+      destDecimals: request.destDecimals,
+      side: request.side === 'BUY' ? SwapSide.BUY : SwapSide.SELL,
+      mode: 'market' as const
+    };
+    const sdk = this.sdkRegistry.getSDK(request.chainId);
+    const { quote } = await this.quoteCache.getQuote(request.chainId, params, () => sdk.quote.getQuote(params));
+
+    if (!quote) {
+      throw new RouteError('NO_ROUTE', 'Failed to get quote from VeloraDEX');
+    }
+
+    return fromVeloraPriceRoute(getMarketPriceRoute(quote));
+  }
+
+  async getSpender(chainId: number): Promise<string> {
+    return this.sdkRegistry.getSDK(chainId).swap.getSpender();
+  }
+
+  async buildTx(request: ProviderBuildRequest): Promise<ProviderTransaction> {
+    const { chainId, srcToken, destToken, amount, side, slippage, quote, userAddress, permit } = request;
+    const { receiver, deadline, partner, partnerAddress, partnerFeeBps, positiveSlippageToPartner } = request;
+
+    return this.sdkRegistry.getSDK(chainId).swap.buildTx({
+      srcToken,
+      destToken,
+      // VeloraDEX derives the other side's limit from the slippage
+      ...(side === 'BUY' ? { destAmount: amount } : { srcAmount: amount }),
+      slippage: slippageToBps(slippage), // VeloraDEX expects slippage in basis points (0.5% = 50)
+      priceRoute: quote.route,
+      userAddress,
+      ...(permit && { permit }),
+      ...(receiver && { receiver }),
+      ...(deadline !== undefined && { deadline: deadline.toString() }),
+      ...(partner && { partner }),
+      ...(partnerAddress && { partnerAddress }),
+      ...(partnerFeeBps !== undefined && { partnerFeeBps }),
+      // takeSurplus sends positive slippage to partnerAddress
+      ...(positiveSlippageToPartner !== undefined && { takeSurplus: positiveSlippageToPartner })
+    });
+  }
+}
+
+/**
+ * Normalize a VeloraDEX price route, keeping it as the route to build
+ */
+export function fromVeloraPriceRoute(priceRoute: any): ProviderQuote {
+  if (!priceRoute || !priceRoute.destAmount) {
+    throw new UpstreamError('UPSTREAM_ERROR', 'Invalid market quote received from VeloraDEX');
+  }
+
+  return {
+    provider: 'velora',
+    srcAmount: priceRoute.srcAmount,
+    destAmount: priceRoute.destAmount,
+    gasCost: priceRoute.gasCost,
+    gasCostUSD: priceRoute.gasCostUSD,
+    srcUSD: priceRoute.srcUSD,
+    destUSD: priceRoute.destUSD,
+    route: priceRoute
+  };
+}
@@ -0,0 +1,44 @@
+import { constructSimpleSDK, type SimpleFetchSDK, DEFAULT_VERSION } from '@velora-dex/sdk';
+import { SUPPORTED_CHAINS } from '../types/index.js';
+import { ValidationError } from '../utils/errors.js';
+import { VeloraHttpClient } from './veloraHttpClient.js';
+
+export const VELORA_API_URL = 'https://api.velora.xyz';
+
+/**
+ * Lazily builds and caches one VeloraDEX SimpleSDK per chain ID, so quotes,
+ * spender lookups and transaction builds are always routed on the requested chain.
+ */
+export class VeloraSDKRegistry {
+  private sdks = new Map<number, SimpleFetchSDK>();
+
+  constructor(
+    private readonly apiURL: string = VELORA_API_URL,
+    // Shared by every chain, so the circuit breaker tracks the VeloraDEX API as a whole
+    private readonly httpClient: VeloraHttpClient = new VeloraHttpClient()
+  ) {}
+
+  /**
+   * Get the SDK instance for a chain ID listed in SUPPORTED_CHAINS
+   */
+  getSDK(chainId: number): SimpleFetchSDK {
+    const cached = this.sdks.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    if (!Object.values(SUPPORTED_CHAINS).some(chain => chain.id === chainId)) {
+      throw new ValidationError('UNSUPPORTED_CHAIN', `Unsupported chain ID: ${chainId}`);
+    }
+
+    const sdk = constructSimpleSDK({
+      chainId,
+      apiURL: this.apiURL,
+      version: DEFAULT_VERSION, // Use default version from the SDK
+      axios: this.httpClient // Timeouts, retries and circuit breaking around axios
+    });
+    this.sdks.set(chainId, sdk);
+
+    return sdk;
+  }
+}
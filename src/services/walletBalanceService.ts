@@ -0,0 +1,152 @@
+import { formatUnits, getAddress, parseUnits, type Abi, type Address } from 'viem';
+import { SUPPORTED_CHAINS, type ChainBalances, type TokenBalance, type TokenInfo, type WalletBalances, type WalletBalancesRequest } from '../types/index.js';
+import { getChainId, isNativeToken, isValidAddress } from '../utils/helpers.js';
+import { getPublicClient } from '../utils/rpc.js';
+import { ERC20_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../utils/abis.js';
+import { ValidationError } from '../utils/errors.js';
+import { findUsdc, getTokenRegistry, loadConfiguredTokenLists } from '../utils/tokenRegistry.js';
+import { toTokenAmount } from '../utils/quote.js';
+import { VeloraProvider } from './veloraProvider.js';
+import { VeloraSDKRegistry } from './veloraSdkRegistry.js';
+import { QuoteCache } from './quoteCache.js';
+
+const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// USD totals are summed at USDC precision
+const USD_DECIMALS = 6;
+
+type KnownToken = TokenInfo & { native: boolean };
+
+/**
+ * Reads a wallet's native and known ERC-20 balances with one Multicall3 call per chain (every mainnet
+ * by default), and values each holding at the price of one whole token quoted by VeloraDEX against the
+ * chain's USDC, so large holdings are not marked down by the price impact of selling them at once.
+ * A chain that cannot be read is reported with an error without failing the others.
+ */
+export class WalletBalanceService {
+  private readonly velora: VeloraProvider;
+
+  constructor(sdkRegistry: VeloraSDKRegistry = new VeloraSDKRegistry(), quoteCache: QuoteCache = new QuoteCache()) {
+    this.velora = new VeloraProvider(sdkRegistry, quoteCache);
+  }
+
+  async getWalletBalances(request: WalletBalancesRequest): Promise<WalletBalances> {
+    if (!request.address || !isValidAddress(request.address)) {
+      throw new ValidationError('INVALID_ADDRESS', 'Invalid wallet address format', 'address');
+    }
+
+    const chainNames = request.chains?.length
+      ? request.chains.map(chain => chain.toUpperCase())
+      : Object.keys(SUPPORTED_CHAINS).filter(chain => !SUPPORTED_CHAINS[chain].testnet);
+    const unsupported = chainNames.filter(chain => !SUPPORTED_CHAINS[chain]);
+    if (unsupported.length > 0) {
+      throw new ValidationError('UNSUPPORTED_CHAIN', `Unsupported chain: ${unsupported.join(', ')}`, 'chains');
+    }
+
+    await loadConfiguredTokenLists();
+    const chains = await Promise.all([...new Set(chainNames)].map(chainName => this.getChainBalances(chainName, request.address)));
+
+    return {
+      address: getAddress(request.address),
+      chains,
+      totalUsd: sumUsd(chains.map(chain => chain.totalUsd))
+    };
+  }
+
+  private async getChainBalances(chainName: string, owner: string): Promise<ChainBalances> {
+    const chainId = getChainId(chainName);
+    const tokens = getKnownTokens(chainName);
+
+    let balances: bigint[];
+    try {
+      balances = await readBalances(chainName, owner, tokens);
+    } catch (error) {
+      console.warn(`Could not read balances on ${chainName}:`, error);
+      return {
+        chain: chainName,
+        chainId,
+        tokens: [],
+        totalUsd: '0',
+        unpricedCount: 0,
+        error: `Balances unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+
+    const usdc = findUsdc(chainId);
+    const holdings = await Promise.all(tokens.flatMap((token, index) => balances[index] > 0n ? [{ token, balance: balances[index] }] : [])
+      .map(async ({ token: { native, ...token }, balance }): Promise<TokenBalance> => {
+        const valueUsd = usdc && await this.valueInUsd(chainId, token, balance, usdc, owner);
+        return {
+          token,
+          ...(native && { native }),
+          balance: toTokenAmount(balance, token.decimals),
+          ...(valueUsd !== undefined && { valueUsd })
+        };
+      }));
+
+    const valued = holdings.filter(holding => holding.valueUsd !== undefined);
+    return {
+      chain: chainName,
+      chainId,
+      tokens: holdings.sort((a, b) => Number(b.valueUsd ?? -1) - Number(a.valueUsd ?? -1)),
+      totalUsd: sumUsd(valued.map(holding => holding.valueUsd!)),
+      unpricedCount: holdings.length - valued.length
+    };
+  }
+
+  /**
+   * Balance times the USDC one whole token sells for, undefined when VeloraDEX has no route
+   */
+  private async valueInUsd(chainId: number, token: TokenInfo, balance: bigint, usdc: TokenInfo, owner: string): Promise<string | undefined> {
+    if (token.address.toLowerCase() === usdc.address.toLowerCase()) {
+      return formatUnits(balance, usdc.decimals);
+    }
+
+    try {
+      const quote = await this.velora.quote({
+        chainId,
+        srcToken: token.address,
+        srcDecimals: token.decimals,
+        destToken: usdc.address,
+        destDecimals: usdc.decimals,
+        amount: (10n ** BigInt(token.decimals)).toString(),
+        side: 'SELL',
+        userAddress: owner
+      });
+      return formatUnits(balance * BigInt(quote.destAmount) / 10n ** BigInt(token.decimals), usdc.decimals);
+    } catch (error) {
+      console.warn(`Could not value ${token.symbol} on chain ${chainId}:`, error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Registry tokens of a chain, native token first (from the registry or SUPPORTED_CHAINS)
+ */
+function getKnownTokens(chainName: string): KnownToken[] {
+  const chain = SUPPORTED_CHAINS[chainName];
+  const tokens = getTokenRegistry().listTokens(chain.id).map(({ symbol, address, decimals }) => ({ symbol, address, decimals, native: isNativeToken(address) }));
+  const native = tokens.find(token => token.native) ?? { symbol: chain.nativeSymbol, address: NATIVE_TOKEN_ADDRESS, decimals: 18, native: true };
+
+  return [native, ...tokens.filter(token => !token.native)];
+}
+
+/**
+ * One Multicall3 call for every balance, tokens whose balanceOf fails count as empty
+ */
+async function readBalances(chainName: string, owner: string, tokens: KnownToken[]): Promise<bigint[]> {
+  const results = await getPublicClient(chainName).multicall({
+    contracts: tokens.map(token => token.native
+      ? { address: MULTICALL3_ADDRESS as Address, abi: MULTICALL3_ABI as Abi, functionName: 'getEthBalance', args: [owner] }
+      : { address: token.address as Address, abi: ERC20_ABI as Abi, functionName: 'balanceOf', args: [owner] }),
+    multicallAddress: MULTICALL3_ADDRESS as Address,
+    allowFailure: true
+  });
+
+  return results.map(result => result.status === 'success' ? BigInt(result.result as bigint) : 0n);
+}
+
+function sumUsd(values: string[]): string {
+  return formatUnits(values.reduce((total, value) => total + parseUnits(value, USD_DECIMALS), 0n), USD_DECIMALS);
+}
@@ -0,0 +1,104 @@
+import axios, { isAxiosError, type AxiosStatic } from 'axios';
+import { RouteError, UpstreamError } from '../utils/errors.js';
+import { slippageToBps } from '../utils/quote.js';
+import { ZEROEX_ALLOWANCE_HOLDER } from '../utils/abis.js';
+import type { ProviderBuildRequest, ProviderQuote, ProviderQuoteRequest, ProviderTransaction, SwapProvider } from './swapProvider.js';
+
+export const ZEROEX_API_URL = 'https://api.0x.org';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface ZeroExProviderOptions {
+  apiKey: string;
+  apiURL?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * 0x Swap API v2 (allowance-holder flow). Prices come from /price, the route is only fixed when
+ * /quote builds the transaction. 0x sells exact amounts only to the taker, and does not take permits,
+ * deadlines or partner fees. Its prices carry no USD values, those are filled in by priceQuotes
+ * from the other providers' quotes for the same pair.
+ */
+export class ZeroExProvider implements SwapProvider {
+  readonly name = '0x';
+  readonly label = '0x';
+  readonly supportsBuy = false;
+  readonly supportsPermit = false;
+  readonly supportsBuildOptions = false;
+  private readonly apiURL: string;
+
+  constructor(
+    private readonly options: ZeroExProviderOptions,
+    private readonly http: Pick<AxiosStatic, 'get'> = axios
+  ) {
+    this.apiURL = (options.apiURL ?? ZEROEX_API_URL).replace(/\/$/, '');
+  }
+
+  async quote(request: ProviderQuoteRequest): Promise<ProviderQuote> {
+    const price = await this.get('/swap/allowance-holder/price', {
+      chainId: request.chainId,
+      sellToken: request.srcToken,
+      buyToken: request.destToken,
+      sellAmount: request.amount,
+      taker: request.userAddress
+    });
+
+    if (!price.liquidityAvailable) {
+      throw new RouteError('INSUFFICIENT_LIQUIDITY', 'No liquidity available on 0x for this swap');
+    }
+
+    return {
+      provider: this.name,
+      srcAmount: price.sellAmount,
+      destAmount: price.buyAmount,
+      gasCost: price.gas ?? undefined,
+      route: price
+    };
+  }
+
+  async getSpender(_chainId: number, quote: ProviderQuote): Promise<string> {
+    return quote.route?.issues?.allowance?.spender ?? ZEROEX_ALLOWANCE_HOLDER;
+  }
+
+  async buildTx(request: ProviderBuildRequest): Promise<ProviderTransaction> {
+    const { transaction } = await this.get('/swap/allowance-holder/quote', {
+      chainId: request.chainId,
+      sellToken: request.srcToken,
+      buyToken: request.destToken,
+      sellAmount: request.amount,
+      taker: request.userAddress,
+      slippageBps: slippageToBps(request.slippage)
+    });
+
+    return {
+      to: transaction?.to,
+      data: transaction?.data,
+      value: transaction?.value,
+      gas: transaction?.gas ?? undefined,
+      gasPrice: transaction?.gasPrice
+    };
+  }
+
+  private async get(path: string, params: Record<string, string | number>): Promise<any> {
+    try {
+      const response = await this.http.get(`${this.apiURL}${path}`, {
+        params,
+        timeout: this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        headers: { '0x-api-key': this.options.apiKey, '0x-version': 'v2' }
+      });
+      return response.data;
+    } catch (error) {
+      if (!isAxiosError(error)) {
+        throw error;
+      }
+
+      const status = error.response?.status;
+      const message = error.response?.data?.message ?? error.message;
+      throw new UpstreamError(status === 429 ? 'UPSTREAM_RATE_LIMIT' : 'UPSTREAM_ERROR', `0x API request failed: ${message}`, {
+        cause: error,
+        retryable: status === undefined || status === 429 || status >= 500
+      });
+    }
+  }
+}
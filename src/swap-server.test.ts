@@ -1,26 +1,76 @@
-import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { constructSimpleSDK } from '@velora-dex/sdk';
+import { getTokenAddress as getTokenAddressFromUtils, getTokenDecimals as getTokenDecimalsFromUtils } from '@chrom-ar/utils';
 import { SwapService } from './services/swapService'; // Adjusted path
-import { APPROVE_ABI } from './utils/abis'; // For verifying approval data
-import { encodeFunctionData } from 'viem';
+import { VeloraSDKRegistry } from './services/veloraSdkRegistry';
+import { APPROVE_ABI, AUGUSTUS_V6_ABI, AUGUSTUS_V6_ADDRESS, MULTISEND_ABI, MULTISEND_CALL_ONLY_ADDRESS, SMART_ACCOUNT_ABI, TRANSFER_EVENT_ABI, WRAPPED_NATIVE_ABI, ZEROEX_ALLOWANCE_HOLDER } from './utils/abis'; // For verifying approval and wrap data
+import { ValidationError, toErrorPayload } from './utils/errors';
+import { TokenRegistry, getTokenRegistry } from './utils/tokenRegistry';
+import { TokenResolver } from './services/tokenResolver';
+import { DurableObjectQuoteStore, QuoteCache } from './services/quoteCache';
+import { getConfiguredProviders, type ProviderQuote, type SwapProvider } from './services/swapProvider';
+import { ZeroExProvider } from './services/zeroExProvider';
+import { TransactionPreviewService } from './services/transactionPreviewService';
+import { SqliteSwapTrackStore, SwapTrackingService, type SqlStorageLike } from './services/swapTrackingService';
+import { WalletBalanceService } from './services/walletBalanceService';
+import { ConditionalSwapService, type Clock, type PriceSource } from './services/conditionalSwapService';
+import { SUPPORTED_CHAINS } from './types';
+import {
+  RawContractError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionData,
+  getAddress,
+  maxUint256,
+  hashTypedData,
+  hexToBigInt,
+  sliceHex,
+  type Hex
+} from 'viem';
 
 // Mock VeloraDEX SDK
 const mockGetQuote = vi.fn();
 const mockBuildTx = vi.fn();
 const mockGetSpender = vi.fn();
+const mockBuildDeltaOrder = vi.fn();
+const mockGetDeltaContract = vi.fn();
+const mockPostDeltaOrder = vi.fn();
+const mockReadContract = vi.fn();
+const mockGetBalance = vi.fn();
+const mockGetGasPrice = vi.fn();
+const mockGetFeeHistory = vi.fn();
+const mockGetTransactionCount = vi.fn();
+const mockGetTransactionReceipt = vi.fn();
+const mockWaitForTransactionReceipt = vi.fn();
+const mockGetTransaction = vi.fn();
+const mockCall = vi.fn();
+const mockMulticall = vi.fn();
+const mockEstimateGas = vi.fn();
 
+// Each SDK instance forwards its chain ID as the last argument so tests can assert routing
 vi.mock('@velora-dex/sdk', () => {
   return {
-    constructSimpleSDK: vi.fn().mockImplementation(() => ({
+    constructSimpleSDK: vi.fn().mockImplementation(({ chainId }: { chainId: number }) => ({
       quote: {
-        getQuote: mockGetQuote,
+        getQuote: (params: unknown) => mockGetQuote(params, chainId),
       },
       swap: {
-        buildTx: mockBuildTx,
-        getSpender: mockGetSpender,
+        buildTx: (params: unknown) => mockBuildTx(params, chainId),
+        getSpender: () => mockGetSpender(chainId),
+      },
+      delta: {
+        buildDeltaOrder: (params: unknown) => mockBuildDeltaOrder(params, chainId),
+        getDeltaContract: () => mockGetDeltaContract(chainId),
+        postDeltaOrder: (params: unknown) => mockPostDeltaOrder(params, chainId),
       },
     })),
     SwapSide: {
       SELL: 'SELL',
+      BUY: 'BUY',
     },
     DEFAULT_VERSION: '6.2',
   };
@@ -34,11 +84,79 @@ vi.mock('axios', () => {
   };
 });
 
+// On-chain reads (allowances, balances, gas price, fees, nonces) go through a fake public client
+vi.mock('./utils/rpc', () => {
+  return {
+    getPublicClient: vi.fn(() => ({
+      readContract: mockReadContract,
+      getBalance: mockGetBalance,
+      getGasPrice: mockGetGasPrice,
+      getFeeHistory: mockGetFeeHistory,
+      getTransactionCount: mockGetTransactionCount,
+      getTransactionReceipt: mockGetTransactionReceipt,
+      waitForTransactionReceipt: mockWaitForTransactionReceipt,
+      getTransaction: mockGetTransaction,
+      call: mockCall,
+      multicall: mockMulticall,
+      estimateGas: mockEstimateGas,
+    })),
+  };
+});
+
+// Wrap token lookups so individual tests can resolve tokens on chains without fixtures
+vi.mock('@chrom-ar/utils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@chrom-ar/utils')>();
+  return {
+    ...actual,
+    getTokenAddress: vi.fn(actual.getTokenAddress),
+    getTokenDecimals: vi.fn(actual.getTokenDecimals),
+  };
+});
+
+// Unpack MultiSend transactions: operation (1 byte), to (20), value (32), data length (32), data
+function decodeMultiSendData(packed: Hex) {
+  const calls = [];
+  let offset = 0;
+  while (offset < (packed.length - 2) / 2) {
+    const dataLength = Number(hexToBigInt(sliceHex(packed, offset + 53, offset + 85)));
+    calls.push({
+      operation: Number(hexToBigInt(sliceHex(packed, offset, offset + 1))),
+      to: getAddress(sliceHex(packed, offset + 1, offset + 21)),
+      value: hexToBigInt(sliceHex(packed, offset + 21, offset + 53)),
+      data: dataLength > 0 ? sliceHex(packed, offset + 85, offset + 85 + dataLength) : '0x',
+    });
+    offset += 85 + dataLength;
+  }
+  return calls;
+}
+
+// Placeholder tokens for tests that only need symbols to resolve on mainnet
+const testTokenList = {
+  name: 'Test tokens',
+  tokens: [
+    { chainId: 1, address: '0x5000000000000000000000000000000000000001', symbol: 'SRC', name: 'Source Test Token', decimals: 18 },
+    { chainId: 1, address: '0x5000000000000000000000000000000000000002', symbol: 'DEST', name: 'Destination Test Token', decimals: 18 },
+  ],
+};
+getTokenRegistry().addList(testTokenList);
+
 describe('SwapService Unit Tests', () => {
   let swapService: SwapService;
 
   beforeEach(() => {
     vi.clearAllMocks(); // Clear mocks before each test
+    mockReadContract.mockResolvedValue(0n); // No allowance by default
+    mockGetBalance.mockResolvedValue(10n ** 18n);
+    mockGetGasPrice.mockResolvedValue(10_000_000_000n); // 10 gwei
+    mockGetFeeHistory.mockImplementation(async ({ rewardPercentiles }: { rewardPercentiles: number[] }) => ({
+      baseFeePerGas: [18_000_000_000n, 19_000_000_000n, 20_000_000_000n], // Next block at 20 gwei
+      // Per-block priority fees of 1, 3 and 2 gwei at the 50th percentile, scaled for other percentiles
+      reward: [1n, 3n, 2n].map(gwei => [gwei * BigInt(rewardPercentiles[0]) * 20_000_000n]),
+      gasUsedRatio: [0.5, 0.5, 0.5],
+      oldestBlock: 100n,
+    }));
+    mockGetTransactionCount.mockResolvedValue(7);
+    mockEstimateGas.mockRejectedValue(new Error('execution reverted')); // Gas limits stay as built by default
     swapService = new SwapService();
   });
 
@@ -47,10 +165,13 @@ describe('SwapService Unit Tests', () => {
   const samplePriceRoute = {
     // This structure is based on what SwapService expects and common fields.
     // It will need to be consistent with what getRate is mocked to return.
-    srcToken: '0xSRC_TOKEN_ADDRESS',
-    destToken: '0xDEST_TOKEN_ADDRESS',
+    srcToken: testTokenList.tokens[0].address,
+    destToken: testTokenList.tokens[1].address,
     srcAmount: '1000000000000000000', // 1 token with 18 decimals
     destAmount: '2000000000000000000', // 2 tokens with 18 decimals
+    srcUSD: '2.0000',
+    destUSD: '2.0000',
+    gasCostUSD: '0.01',
     userAddress: sampleFromAddress,
     details: {
       /* ... more data ... */
@@ -86,7 +207,7 @@ describe('SwapService Unit Tests', () => {
       // TODO: Add more specific checks for mockGetQuote arguments if necessary,
       // e.g., ensuring token addresses and amounts are correctly passed.
       // For that, we'd need to mock getTokenAddress and getTokenAmount as well,
-      // or use actual helper implementations with predefined TOKEN_ADDRESSES for test.
+      // or use actual helper implementations with the test token list above.
     });
 
     test('should throw an error if VeloraDEX.quote.getQuote fails', async () => {
@@ -117,6 +238,62 @@ describe('SwapService Unit Tests', () => {
     });
   });
 
+  // --- getSwapQuoteSummary Tests ---
+  describe('getSwapQuoteSummary', () => {
+    const usdcToDaiRoute = {
+      srcAmount: '1500000', // 1.5 USDC
+      destAmount: '1498000000000000000', // 1.498 DAI
+      srcUSD: '1.5000',
+      destUSD: '1.4980',
+      gasCost: '180000',
+      gasCostUSD: '2.35',
+      bestRoute: [
+        { percent: 100, swaps: [{ swapExchanges: [{ exchange: 'UniswapV3' }, { exchange: 'CurveV1' }] }] },
+        { percent: 0, swaps: [{ swapExchanges: [{ exchange: 'UniswapV3' }] }] },
+      ],
+    };
+
+    test('should normalize amounts, rate, USD values, gas and exchanges', async () => {
+      mockGetQuote.mockResolvedValue({ market: usdcToDaiRoute });
+
+      const summary = await swapService.getSwapQuoteSummary({
+        amount: '1.5',
+        fromToken: 'USDC',
+        toToken: 'DAI',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+        slippage: 1,
+      });
+
+      expect(summary.chainId).toBe(1);
+      expect(summary.srcAmount).toEqual({ raw: '1500000', formatted: '1.5' });
+      expect(summary.destAmount).toEqual({ raw: '1498000000000000000', formatted: '1.498' });
+      expect(summary.rate).toBe('0.998666666666666666');
+      expect(summary.srcUSD).toBe('1.5000');
+      expect(summary.destUSD).toBe('1.4980');
+      expect(summary.gasCostUSD).toBe('2.35');
+      expect(summary.exchanges).toEqual(['UniswapV3', 'CurveV1']);
+      expect(summary.minAmountReceived).toEqual({ raw: '1483020000000000000', formatted: '1.48302' });
+      expect(summary.priceImpactPercent).toBe(0.1333);
+      expect(summary.gasToTradePercent).toBe(156.6667);
+    });
+
+    test('should default the minimum received to 0.5% slippage', async () => {
+      mockGetQuote.mockResolvedValue(usdcToDaiRoute);
+
+      const summary = await swapService.getSwapQuoteSummary({
+        amount: '1.5',
+        fromToken: 'USDC',
+        toToken: 'DAI',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+      });
+
+      expect(summary.slippage).toBe(0.5);
+      expect(summary.minAmountReceived.raw).toBe('1490510000000000000');
+    });
+  });
+
   // --- buildSwapTransaction Tests ---
   describe('buildSwapTransaction', () => {
     test('should build transactions successfully for an ERC20 token', async () => {
@@ -189,6 +366,41 @@ describe('SwapService Unit Tests', () => {
       expect(swapTx.data).toBe(sampleTxRequest.data);
     });
 
+    test('should build exact-output (BUY) swaps capped at the slippage-adjusted source amount', async () => {
+      const buyRoute = { ...samplePriceRoute, srcAmount: '1002000', destAmount: '1000000000000000000' }; // ~1.002 USDC for 1 DAI
+      mockGetQuote.mockResolvedValue(buyRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const request = {
+        amount: '1', // 1 DAI out
+        fromToken: 'USDC',
+        toToken: 'DAI',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+        slippage: 1,
+        side: 'BUY' as const
+      };
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({
+        amount: '1000000000000000000', // Destination token decimals
+        side: 'BUY'
+      }), 1);
+      expect(mockBuildTx).toHaveBeenCalledWith(expect.objectContaining({ destAmount: '1000000000000000000', slippage: 100 }), 1);
+      expect(mockBuildTx.mock.calls[0][0]).not.toHaveProperty('srcAmount');
+
+      // Approval covers the max source amount: 1.002 USDC + 1%
+      expect(result.transactions[0].data).toBe(encodeFunctionData({
+        abi: APPROVE_ABI,
+        functionName: 'approve',
+        args: [sampleTxRequest.to, 1012020n]
+      }));
+      expect(result.side).toBe('BUY');
+      expect(result.maxAmountIn).toEqual({ raw: '1012020', formatted: '1.01202' });
+    });
+
     test('should throw an error if getSwapQuote fails', async () => {
       mockGetQuote.mockRejectedValue(new Error('Quote fetch failed'));
       mockGetSpender.mockResolvedValue(sampleTxRequest.to); // Mock spender address
@@ -220,6 +432,486 @@ describe('SwapService Unit Tests', () => {
     });
   });
 
+  // --- Approval strategy Tests ---
+  describe('Allowance-aware approvals', () => {
+    const usdt = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+    const request = {
+      amount: '1',
+      fromToken: 'USDC',
+      toToken: 'DAI',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+    };
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should skip the approve when the allowance already covers the swap', async () => {
+      mockReadContract.mockResolvedValue(5000000n);
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(mockReadContract).toHaveBeenCalledWith(expect.objectContaining({
+        functionName: 'allowance',
+        args: [sampleFromAddress, sampleTxRequest.to]
+      }));
+      expect(result.transactions).toHaveLength(1);
+      expect(result.approval).toMatchObject({ strategy: 'existing', currentAllowance: '5000000', requiredAmount: '1000000' });
+    });
+
+    test('should approve when the allowance is too low', async () => {
+      mockReadContract.mockResolvedValue(10n);
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.approval?.strategy).toBe('approve');
+    });
+
+    test('should reset USDT allowance to zero before approving a new amount', async () => {
+      mockReadContract.mockResolvedValue(10n);
+
+      const result = await swapService.buildSwapTransaction({ ...request, fromToken: 'USDT' });
+
+      expect(result.approval?.strategy).toBe('reset-and-approve');
+      expect(result.transactions).toHaveLength(3);
+      expect(result.transactions[0]).toMatchObject({
+        to: usdt,
+        data: encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: [sampleTxRequest.to, 0n] })
+      });
+      expect(result.transactions[1].data).toBe(encodeFunctionData({
+        abi: APPROVE_ABI,
+        functionName: 'approve',
+        args: [sampleTxRequest.to, 1000000n]
+      }));
+    });
+
+    test('should reset USDT allowances on other chains too', async () => {
+      mockReadContract.mockResolvedValue(10n);
+
+      const result = await swapService.buildSwapTransaction({ ...request, fromToken: 'USDT', toToken: 'USDC', fromChain: 'ARBITRUM' });
+
+      expect(result.approval?.strategy).toBe('reset-and-approve');
+      expect(result.transactions[0]).toMatchObject({
+        to: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+        data: encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: [sampleTxRequest.to, 0n] })
+      });
+    });
+
+    test('should not reset USDT when the current allowance is zero', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, fromToken: 'USDT' });
+
+      expect(result.approval?.strategy).toBe('approve');
+      expect(result.transactions).toHaveLength(2);
+    });
+
+    test('should fall back to a plain approve when the allowance cannot be read', async () => {
+      mockReadContract.mockRejectedValue(new Error('RPC unavailable'));
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.approval).toMatchObject({ strategy: 'approve' });
+      expect(result.approval?.currentAllowance).toBeUndefined();
+      expect(result.transactions).toHaveLength(2);
+    });
+
+    test('should not need an approval for native tokens', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, fromToken: 'ETH' });
+
+      expect(result.approval?.strategy).toBe('none');
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Pre-flight Tests ---
+  describe('Pre-flight checks', () => {
+    const request = {
+      amount: '100',
+      fromToken: 'USDC',
+      toToken: 'DAI',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+    };
+
+    // allowance() reports nothing approved, balanceOf() reports the given USDC balance
+    const withUsdcBalance = (balance: bigint) => mockReadContract.mockImplementation(
+      async ({ functionName }: { functionName: string }) => functionName === 'balanceOf' ? balance : 0n
+    );
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue({ ...samplePriceRoute, gasCost: '200000' });
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should pass and estimate gas for the approve + swap bundle', async () => {
+      withUsdcBalance(500_000_000n);
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.preflight).toEqual({
+        passed: true,
+        estimatedGas: '260000', // 60k approve + 200k route
+        gasPrice: '10000000000',
+        estimatedGasCost: { raw: '2600000000000000', formatted: '0.0026' },
+        issues: [],
+      });
+    });
+
+    test('should warn with the shortfall when the token balance is too low', async () => {
+      withUsdcBalance(40_000_000n);
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.preflight?.passed).toBe(false);
+      expect(result.preflight?.issues).toEqual([expect.objectContaining({
+        code: 'INSUFFICIENT_BALANCE',
+        required: { raw: '100000000', formatted: '100' },
+        available: { raw: '40000000', formatted: '40' },
+        shortfall: { raw: '60000000', formatted: '60' },
+      })]);
+    });
+
+    test('should report missing gas funds', async () => {
+      withUsdcBalance(500_000_000n);
+      mockGetBalance.mockResolvedValue(1_000_000_000_000_000n); // 0.001 ETH
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.preflight?.issues).toEqual([expect.objectContaining({
+        code: 'INSUFFICIENT_GAS',
+        token: 'native',
+        shortfall: { raw: '1600000000000000', formatted: '0.0016' },
+      })]);
+    });
+
+    test('should count the swapped amount against the native balance for native swaps', async () => {
+      mockGetBalance.mockResolvedValue(1_000_000_000_000_000_000n); // Exactly 1 ETH, nothing left for gas
+
+      const result = await swapService.buildSwapTransaction({ ...request, amount: '1', fromToken: 'ETH' });
+
+      expect(result.preflight?.issues.map(issue => issue.code)).toEqual(['INSUFFICIENT_GAS']);
+      expect(result.preflight?.estimatedGas).toBe('200000'); // No approval
+    });
+
+    test('should refuse to build in strict mode', async () => {
+      withUsdcBalance(40_000_000n);
+
+      await expect(swapService.buildSwapTransaction({ ...request, preflight: 'strict' }))
+        .rejects.toThrow('Pre-flight checks failed: INSUFFICIENT_BALANCE');
+      expect(mockBuildTx).not.toHaveBeenCalled();
+    });
+
+    test('should not block strict mode when balances cannot be read', async () => {
+      mockGetGasPrice.mockRejectedValue(new Error('RPC unavailable'));
+
+      const result = await swapService.buildSwapTransaction({ ...request, preflight: 'strict' });
+
+      expect(result.preflight?.issues[0].code).toBe('PREFLIGHT_UNAVAILABLE');
+    });
+
+    test('should skip checks when asked to', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, preflight: 'skip' });
+
+      expect(result.preflight).toBeUndefined();
+      expect(mockGetBalance).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- EIP-1559 fee Tests ---
+  describe('EIP-1559 fees and nonces', () => {
+    const request = {
+      amount: '1',
+      fromToken: 'USDC',
+      toToken: 'DAI',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+    };
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should price approve and swap from fee history with sequential nonces', async () => {
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.transactions).toHaveLength(2);
+      result.transactions.forEach((tx, index) => {
+        expect(tx).toMatchObject({
+          type: 'eip1559',
+          maxPriorityFeePerGas: '2000000000', // Median of the 50th percentile rewards
+          maxFeePerGas: '32000000000', // 1.5 x 20 gwei base fee + 2 gwei tip
+          nonce: 7 + index,
+        });
+        expect(tx.gasPrice).toBeUndefined();
+      });
+      expect(mockGetTransactionCount).toHaveBeenCalledWith({ address: sampleFromAddress, blockTag: 'pending' });
+    });
+
+    test('should set buffered gas limits, keeping the built one when the swap cannot be estimated alone', async () => {
+      // The swap reverts without the approve that precedes it
+      mockEstimateGas.mockImplementation(async ({ to }: { to: string }) => {
+        if (to === sampleTxRequest.to) {
+          throw new Error('execution reverted: insufficient allowance');
+        }
+        return 46_000n;
+      });
+      mockBuildTx.mockResolvedValue({ ...sampleTxRequest, gas: '210000' });
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(mockEstimateGas).toHaveBeenCalledWith(expect.objectContaining({ account: sampleFromAddress, to: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', value: 0n }));
+      expect(result.transactions[0].gasLimit).toBe('55200'); // 46000 + 20%
+      expect(result.transactions[1].gasLimit).toBe('210000');
+    });
+
+    test('should use a higher percentile and base fee headroom for fast transactions', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, gasSpeed: 'fast' });
+
+      expect(mockGetFeeHistory).toHaveBeenCalledWith(expect.objectContaining({ rewardPercentiles: [90] }));
+      expect(result.transactions[1]).toMatchObject({
+        maxPriorityFeePerGas: '3600000000',
+        maxFeePerGas: '43600000000', // 2 x 20 gwei base fee + 3.6 gwei tip
+      });
+    });
+
+    test('should leave fees to the wallet when fee history is unavailable', async () => {
+      mockGetFeeHistory.mockRejectedValue(new Error('RPC unavailable'));
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[1]).toMatchObject({ gasPrice: sampleTxRequest.gasPrice });
+      expect(result.transactions[1].nonce).toBeUndefined();
+      expect(result.transactions[1].type).toBeUndefined();
+    });
+  });
+
+  // --- Guardrail Tests ---
+  describe('Guardrails', () => {
+    const request = {
+      amount: '1000',
+      fromToken: 'USDC',
+      toToken: 'DAI',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+    };
+
+    // $1000 in, the given USD value out, $5 of gas
+    const routeWithUsd = (destUSD: string, srcUSD = '1000', gasCostUSD = '5') =>
+      ({ ...samplePriceRoute, srcUSD, destUSD, gasCostUSD });
+
+    beforeEach(() => {
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    test('should report price impact and gas ratio of an acceptable route', async () => {
+      mockGetQuote.mockResolvedValue(routeWithUsd('990'));
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.guardrails).toEqual({
+        passed: true,
+        priceImpactPercent: 1,
+        gasToTradePercent: 0.5,
+        notionalUsd: 1000,
+        overridden: false,
+        violations: [],
+      });
+    });
+
+    test('should reject a route above the default price impact limit', async () => {
+      mockGetQuote.mockResolvedValue(routeWithUsd('900'));
+
+      await expect(swapService.buildSwapTransaction(request)).rejects.toMatchObject({
+        code: 'PRICE_IMPACT_TOO_HIGH',
+        message: 'Swap rejected by guardrails: Price impact of 10% exceeds the 5% limit',
+        details: { violations: [expect.objectContaining({ value: 10, limit: 5 })] },
+      });
+      expect(mockBuildTx).not.toHaveBeenCalled();
+    });
+
+    test('should apply per-chain limits over the global ones', async () => {
+      vi.stubEnv('MAX_PRICE_IMPACT_PERCENT', '1');
+      vi.stubEnv('ETHEREUM_MAX_PRICE_IMPACT_PERCENT', '15');
+      mockGetQuote.mockResolvedValue(routeWithUsd('900'));
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.guardrails?.passed).toBe(true);
+    });
+
+    test('should reject when gas eats too much of a small trade', async () => {
+      mockGetQuote.mockResolvedValue(routeWithUsd('19.9', '20', '6'));
+
+      await expect(swapService.buildSwapTransaction({ ...request, amount: '20' })).rejects.toMatchObject({ code: 'GAS_COST_TOO_HIGH' });
+    });
+
+    test('should honor acceptHighImpact only when the server allows overrides', async () => {
+      mockGetQuote.mockResolvedValue(routeWithUsd('900'));
+
+      await expect(swapService.buildSwapTransaction({ ...request, acceptHighImpact: true }))
+        .rejects.toThrow('acceptHighImpact overrides are disabled on this server');
+
+      vi.stubEnv('ALLOW_HIGH_IMPACT_OVERRIDE', 'true');
+      const result = await swapService.buildSwapTransaction({ ...request, acceptHighImpact: true });
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.guardrails).toMatchObject({ passed: false, overridden: true });
+    });
+
+    test('should never override the notional cap', async () => {
+      vi.stubEnv('MAX_NOTIONAL_USD', '500');
+      vi.stubEnv('ALLOW_HIGH_IMPACT_OVERRIDE', 'true');
+      mockGetQuote.mockResolvedValue(routeWithUsd('999'));
+
+      await expect(swapService.buildSwapTransaction({ ...request, acceptHighImpact: true })).rejects.toMatchObject({
+        code: 'NOTIONAL_TOO_HIGH',
+        retryable: false,
+      });
+    });
+
+    test('should fail closed when the route has no USD values', async () => {
+      mockGetQuote.mockResolvedValue({ ...samplePriceRoute, srcUSD: undefined, destUSD: undefined });
+
+      await expect(swapService.buildSwapTransaction(request)).rejects.toMatchObject({
+        code: 'GUARDRAIL_UNVERIFIABLE',
+        message: 'Swap rejected by guardrails: the route has no USD values to check maxPriceImpactPercent against (pass acceptUnverifiedGuardrails to build anyway)',
+        details: { unverified: ['maxPriceImpactPercent'] },
+      });
+      expect(mockBuildTx).not.toHaveBeenCalled();
+
+      const result = await swapService.buildSwapTransaction({ ...request, acceptUnverifiedGuardrails: true });
+
+      expect(result.transactions).toHaveLength(2);
+      expect(result.guardrails).toMatchObject({ passed: true, unverified: ['maxPriceImpactPercent'] });
+    });
+
+    test('should never build an unpriced route past the notional cap', async () => {
+      vi.stubEnv('MAX_NOTIONAL_USD', '500');
+      mockGetQuote.mockResolvedValue({ ...samplePriceRoute, srcUSD: undefined, destUSD: undefined });
+
+      await expect(swapService.buildSwapTransaction({ ...request, acceptUnverifiedGuardrails: true })).rejects.toMatchObject({
+        code: 'GUARDRAIL_UNVERIFIABLE',
+        details: { unverified: ['maxPriceImpactPercent', 'maxNotionalUsd'] },
+      });
+    });
+  });
+
+  // --- Delta mode Tests ---
+  describe('Delta mode', () => {
+    const deltaContract = '0x0000000000bbF5c5Fd284e657F01Bd000933C96D';
+    const sampleDeltaPrice = {
+      srcToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      destToken: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+      srcAmount: '1000000',
+      destAmount: '1000000000000000000',
+      srcUSD: '1.0000',
+      destUSD: '0.9990',
+      partner: 'anon',
+      partnerFee: 0,
+    };
+    const sampleSignableOrder = {
+      domain: { name: 'Portikus', version: '2.0.0', chainId: 1, verifyingContract: deltaContract },
+      types: { Order: [{ name: 'owner', type: 'address' }], Bridge: [] },
+      data: { owner: sampleFromAddress, srcAmount: '1000000', destAmount: '995000000000000000' },
+    };
+    const request = {
+      amount: '1',
+      fromToken: 'USDC',
+      toToken: 'DAI',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+    };
+
+    beforeEach(() => {
+      mockBuildDeltaOrder.mockResolvedValue(sampleSignableOrder);
+      mockGetDeltaContract.mockResolvedValue(deltaContract);
+    });
+
+    test('should build an EIP-712 Delta order and approve the Delta contract', async () => {
+      mockGetQuote.mockResolvedValue({ delta: sampleDeltaPrice });
+
+      const result = await swapService.buildSwapTransaction({ ...request, mode: 'delta' });
+
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ mode: 'delta' }), 1);
+      expect(mockBuildDeltaOrder).toHaveBeenCalledWith(expect.objectContaining({
+        owner: sampleFromAddress,
+        srcAmount: '1000000',
+        destAmount: '995000000000000000', // 0.5% default slippage
+        deltaPrice: sampleDeltaPrice,
+      }), 1);
+      expect(mockBuildTx).not.toHaveBeenCalled();
+
+      expect(result.mode).toBe('delta');
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0].data).toBe(encodeFunctionData({
+        abi: APPROVE_ABI,
+        functionName: 'approve',
+        args: [deltaContract, 1000000n]
+      }));
+      expect(result.deltaOrder).toEqual({
+        chainId: 1,
+        order: sampleSignableOrder.data,
+        typedData: {
+          domain: sampleSignableOrder.domain,
+          types: sampleSignableOrder.types,
+          primaryType: 'Order',
+          message: sampleSignableOrder.data,
+        },
+      });
+    });
+
+    test('should prefer Delta in all mode when it is available', async () => {
+      mockGetQuote.mockResolvedValue({ delta: sampleDeltaPrice });
+
+      const result = await swapService.buildSwapTransaction({ ...request, mode: 'all' });
+
+      expect(result.mode).toBe('delta');
+      expect(result.deltaOrder).toBeDefined();
+    });
+
+    test('should fall back to market in all mode when Delta is unavailable', async () => {
+      mockGetQuote.mockResolvedValue({ market: samplePriceRoute, fallbackReason: { errorType: 'UnsupportedToken' } });
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const result = await swapService.buildSwapTransaction({ ...request, mode: 'all' });
+
+      expect(result.mode).toBe('market');
+      expect(result.deltaOrder).toBeUndefined();
+      expect(result.quote).toEqual(samplePriceRoute);
+      expect(mockBuildDeltaOrder).not.toHaveBeenCalled();
+    });
+
+    test('should reject Delta mode for native source tokens', async () => {
+      mockGetQuote.mockResolvedValue({ delta: sampleDeltaPrice });
+
+      await expect(swapService.buildSwapTransaction({ ...request, fromToken: 'ETH', mode: 'delta' }))
+        .rejects.toThrow('Delta orders do not support native source tokens');
+    });
+
+    test('should submit a signed Delta order and report its status', async () => {
+      mockPostDeltaOrder.mockResolvedValue({ id: 'order-1', status: 'NOT_STARTED', order: sampleSignableOrder.data });
+
+      const result = await swapService.submitDeltaOrder('ETHEREUM', sampleSignableOrder.data, '0xsig');
+
+      expect(mockPostDeltaOrder).toHaveBeenCalledWith({ order: sampleSignableOrder.data, signature: '0xsig' }, 1);
+      expect(result).toEqual({ orderId: 'order-1', status: 'NOT_STARTED', order: sampleSignableOrder.data });
+    });
+  });
+
   // --- Test validateSwapRequest indirectly ---
   // The service methods call validateSwapRequest internally.
   // These tests ensure that validation errors are propagated.
@@ -239,4 +931,1563 @@ describe('SwapService Unit Tests', () => {
         await expect(swapService.getSwapQuote(request)).rejects.toThrow('Unsupported chain: UNSUPPORTED_CHAIN');
     });
   });
+
+  // --- Cross-chain Tests ---
+  describe('Cross-chain swaps', () => {
+    const arbitrumUsdc = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+    const deltaContract = '0x0000000000bbF5c5Fd284e657F01Bd000933C96D';
+    const chainTokens: Record<string, Record<string, string>> = {
+      arbitrum: { USDC: arbitrumUsdc, DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1' },
+      base: { ETH: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' },
+    };
+    const bridgePrice = {
+      srcToken: arbitrumUsdc,
+      destToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+      srcAmount: '100000000', // 100 USDC
+      destAmount: '40000000000000000', // 0.04 ETH
+      srcUSD: '100',
+      destUSD: '99.6',
+      gasCostUSD: '0.2',
+      partner: 'anon',
+      partnerFee: 0,
+      bridge: { protocolSelector: '0x12345678', destinationChainId: 8453, outputToken: '0x4200000000000000000000000000000000000006', scalingFactor: 0, protocolData: '0x' },
+      bridgeInfo: {
+        protocolName: 'Across',
+        destAmountAfterBridge: '39900000000000000',
+        destUSDAfterBridge: '99.35',
+        fees: [{ feeToken: arbitrumUsdc, amount: '250000', amountInSrcToken: '250000', amountInUSD: '0.25' }],
+      },
+    };
+    const signableOrder = {
+      domain: { name: 'Portikus', version: '2.0.0', chainId: 42161, verifyingContract: deltaContract },
+      types: { Order: [{ name: 'owner', type: 'address' }, { name: 'destAmount', type: 'uint256' }] },
+      data: { owner: sampleFromAddress, destAmount: '39800000000000000' },
+    };
+    const request = {
+      amount: '100',
+      fromToken: 'USDC',
+      toToken: 'ETH',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ARBITRUM',
+      toChain: 'BASE',
+    };
+
+    beforeEach(() => {
+      vi.mocked(getTokenAddressFromUtils).mockImplementation((chain: string, symbol: string) => chainTokens[chain]?.[symbol] ?? null);
+      mockGetQuote.mockResolvedValue({ delta: bridgePrice, deltaAddress: deltaContract });
+      mockBuildDeltaOrder.mockResolvedValue(signableOrder);
+      mockGetDeltaContract.mockResolvedValue(deltaContract);
+    });
+
+    afterEach(() => {
+      vi.mocked(getTokenAddressFromUtils).mockReset();
+    });
+
+    test('should build a bridged Delta order from Arbitrum USDC to Base ETH and submit it', async () => {
+      const result = await swapService.buildSwapTransaction(request);
+
+      // Quoted on the source chain with the destination chain attached
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({
+        srcToken: arbitrumUsdc,
+        destToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+        amount: '100000000',
+        mode: 'delta',
+        destChainId: 8453,
+      }), 42161);
+      expect(mockBuildDeltaOrder).toHaveBeenCalledWith(expect.objectContaining({
+        srcAmount: '100000000',
+        destAmount: '39800000000000000', // 0.5% default slippage
+        deltaPrice: bridgePrice,
+        destChainId: 8453,
+      }), 42161);
+      expect(mockBuildTx).not.toHaveBeenCalled();
+
+      // Only the source-chain approval of the Delta contract is sent by the wallet
+      expect(result.mode).toBe('delta');
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        chainId: 42161,
+        to: arbitrumUsdc,
+        data: encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: [deltaContract, 100000000n] }),
+      });
+      expect(result.deltaOrder?.chainId).toBe(42161);
+      expect(result.crossChain).toEqual({
+        fromChainId: 42161,
+        toChainId: 8453,
+        bridgeProtocol: 'Across',
+        destAmountAfterBridge: { raw: '39900000000000000', formatted: '0.0399' },
+        bridgeFees: [{ feeToken: arbitrumUsdc, amount: '250000', amountInUSD: '0.25' }],
+        orderHash: hashTypedData({ ...signableOrder, primaryType: 'Order', message: signableOrder.data } as any),
+      });
+
+      mockPostDeltaOrder.mockResolvedValue({ id: 'order-7', status: 'NOT_STARTED', order: signableOrder.data, bridgeStatus: 'pending' });
+      const submitted = await swapService.submitDeltaOrder('ARBITRUM', result.deltaOrder!.order, '0xsig');
+
+      expect(mockPostDeltaOrder).toHaveBeenCalledWith({ order: signableOrder.data, signature: '0xsig' }, 42161);
+      expect(submitted).toEqual({ orderId: 'order-7', status: 'NOT_STARTED', order: signableOrder.data, bridgeStatus: 'pending' });
+    });
+
+    test('should keep same-chain requests on the original path', async () => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const result = await swapService.buildSwapTransaction({ ...request, toToken: 'DAI', toChain: 'ARBITRUM' });
+
+      expect(mockGetQuote.mock.calls[0][0]).not.toHaveProperty('destChainId');
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ mode: 'market' }), 42161);
+      expect(result.mode).toBe('market');
+      expect(result.crossChain).toBeUndefined();
+    });
+
+    test('should reject cross-chain swaps in market mode', async () => {
+      await expect(swapService.buildSwapTransaction({ ...request, mode: 'market' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+        field: 'mode',
+      });
+      expect(mockGetQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Token registry Tests ---
+  describe('Token registry', () => {
+    const usdcBase = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    afterEach(() => {
+      vi.mocked(getTokenAddressFromUtils).mockReset();
+      vi.mocked(getTokenDecimalsFromUtils).mockReset();
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    test('should resolve symbols from the bundled list on every supported mainnet', async () => {
+      const resolver = new TokenResolver();
+
+      expect(await resolver.resolveToken('BASE', 'weth')).toEqual({
+        symbol: 'WETH',
+        address: '0x4200000000000000000000000000000000000006',
+        decimals: 18,
+      });
+      expect(await resolver.resolveToken('ARBITRUM', 'USDC')).toMatchObject({ address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 });
+      expect(await resolver.resolveToken('POLYGON', 'POL')).toMatchObject({ address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' });
+    });
+
+    test('should resolve listed addresses without reading the chain', async () => {
+      const token = await new TokenResolver().resolveToken('BASE', usdcBase.toLowerCase());
+
+      expect(token).toEqual({ symbol: 'USDC', address: usdcBase.toLowerCase(), decimals: 6 });
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+
+    test('should dedupe by chain and address, keeping the higher priority list', () => {
+      const registry = new TokenRegistry();
+      registry.addList({ name: 'Community', tokens: [{ chainId: 8453, address: usdcBase.toLowerCase(), symbol: 'USDC', name: 'Fake name', decimals: 6 }] }, 10);
+      registry.addList({ name: 'Curated', tokens: [{ chainId: 8453, address: usdcBase, symbol: 'USDC', name: 'USD Coin', decimals: 6 }] }, 100);
+      registry.addList({ name: 'Late', tokens: [{ chainId: 8453, address: usdcBase, symbol: 'USDC', name: 'Late name', decimals: 6 }] }, 100);
+
+      expect(registry.search('USDC', { chainId: 8453 })).toEqual([
+        { chainId: 8453, address: usdcBase, symbol: 'USDC', name: 'USD Coin', decimals: 6, chain: 'BASE', source: 'Curated' },
+      ]);
+    });
+
+    test('should prefer the higher priority list for a symbol and reject ambiguous symbols', () => {
+      const registry = new TokenRegistry();
+      const scam = '0x9999999999999999999999999999999999999999';
+      registry.addList({ name: 'Curated', tokens: [{ chainId: 8453, address: usdcBase, symbol: 'USDC', name: 'USD Coin', decimals: 6 }] }, 100);
+      registry.addList({ name: 'Community', tokens: [{ chainId: 8453, address: scam, symbol: 'USDC', name: 'USD Coin', decimals: 6 }] }, 10);
+
+      expect(registry.findBySymbol(8453, 'usdc')?.address).toBe(usdcBase);
+
+      registry.addList({ name: 'Curated 2', tokens: [{ chainId: 8453, address: scam, symbol: 'USDC', name: 'Other USDC', decimals: 6 }] }, 100);
+      expect(() => registry.findBySymbol(8453, 'USDC')).toThrow(expect.objectContaining({
+        code: 'UNKNOWN_TOKEN',
+        message: expect.stringContaining('Symbol USDC is ambiguous on chain 8453'),
+      }));
+    });
+
+    test('should reject a symbol whose address is known but decimals are not, instead of guessing them', async () => {
+      const unlisted = '0x3333333333333333333333333333333333333333';
+      vi.mocked(getTokenAddressFromUtils).mockImplementation((_chain: string, symbol: string) => symbol === 'NEWUSDT' ? unlisted : null);
+      vi.mocked(getTokenDecimalsFromUtils).mockReturnValue(null as any);
+
+      await expect(new TokenResolver().resolveToken('ETHEREUM', 'NEWUSDT')).rejects.toMatchObject({
+        code: 'UNKNOWN_TOKEN',
+        message: 'Decimals of token NEWUSDT are unknown on chain ETHEREUM, pass its contract address instead',
+      });
+    });
+
+    test('should share one token list fetch between concurrent loads and back off on failed lists', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const listUrl = 'https://tokens.example/list.json';
+      const brokenUrl = 'https://tokens.example/broken.json';
+      const fetchMock = vi.fn(async (url: string) => url === listUrl
+        ? new Response(JSON.stringify({ name: 'Remote', tokens: [{ chainId: 8453, address: usdcBase, symbol: 'USDC', name: 'USD Coin', decimals: 6 }] }))
+        : new Response('', { status: 502 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const registry = new TokenRegistry();
+      await Promise.all([registry.loadFromUrls([listUrl, brokenUrl]), registry.loadFromUrls([listUrl, brokenUrl])]);
+
+      expect(registry.findBySymbol(8453, 'USDC')?.address).toBe(usdcBase);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock).toHaveBeenCalledWith(listUrl, { signal: expect.any(AbortSignal) });
+
+      // The broken list is only fetched again once the backoff has passed
+      await registry.loadFromUrls([listUrl, brokenUrl]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(5 * 60_000);
+      await registry.loadFromUrls([listUrl, brokenUrl]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock).toHaveBeenLastCalledWith(brokenUrl, expect.anything());
+    });
+
+    test('should search by symbol, name prefix and address across or within chains', async () => {
+      const resolver = new TokenResolver();
+
+      const byAddress = await resolver.searchTokens(usdcBase.toLowerCase());
+      expect(byAddress.map(token => token.chain)).toEqual(['BASE']);
+
+      const byName = await resolver.searchTokens('wrapped', 'ETHEREUM');
+      expect(byName.map(token => token.symbol)).toEqual(expect.arrayContaining(['WETH', 'WBTC']));
+      expect(byName.every(token => token.chainId === 1)).toBe(true);
+
+      const bySymbol = await resolver.searchTokens('usdc', 'OPTIMISM');
+      expect(bySymbol.map(token => token.symbol)).toEqual(['USDC', 'USDC.e']); // Exact symbol before prefix matches
+
+      expect(await resolver.searchTokens('usd', undefined, 2)).toHaveLength(2);
+    });
+  });
+
+  // --- Native token Tests ---
+  describe('Native and wrapped native tokens', () => {
+    const native = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+    test('should wrap ETH into WETH with a direct deposit instead of a VeloraDEX route', async () => {
+      const result = await swapService.buildSwapTransaction({
+        amount: '0.5',
+        fromToken: 'ETH',
+        toToken: 'WETH',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+      });
+
+      expect(mockGetQuote).not.toHaveBeenCalled();
+      expect(mockBuildTx).not.toHaveBeenCalled();
+      expect(result.mode).toBe('wrap');
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        chainId: 1,
+        to: SUPPORTED_CHAINS.ETHEREUM.wrappedNative,
+        value: '500000000000000000',
+        data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'deposit' }),
+        type: 'eip1559',
+        nonce: 7,
+      });
+      expect(result.quote).toMatchObject({ srcAmount: '500000000000000000', destAmount: '500000000000000000' });
+      expect(result.preflight).toMatchObject({ passed: true, estimatedGas: '50000' });
+    });
+
+    test('should unwrap WETH with withdraw and no approval', async () => {
+      mockReadContract.mockResolvedValue(10n ** 18n); // WETH balance
+
+      const result = await swapService.buildSwapTransaction({
+        amount: '1',
+        fromToken: 'WETH',
+        toToken: 'ETH',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ARBITRUM',
+      });
+
+      expect(mockGetQuote).not.toHaveBeenCalled();
+      expect(result.mode).toBe('wrap');
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        to: SUPPORTED_CHAINS.ARBITRUM.wrappedNative,
+        value: '0',
+        data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'withdraw', args: [10n ** 18n] }),
+      });
+    });
+
+    test('should resolve MATIC as the POL native token on Polygon', async () => {
+      const resolver = new TokenResolver();
+
+      expect(await resolver.resolveToken('POLYGON', 'matic')).toEqual({ symbol: 'POL', address: native, decimals: 18 });
+      expect(await resolver.resolveToken('AVALANCHE', 'AVAX')).toMatchObject({ address: native, decimals: 18 });
+
+      const result = await swapService.buildSwapTransaction({
+        amount: '2',
+        fromToken: 'MATIC',
+        toToken: 'WPOL',
+        fromAddress: sampleFromAddress,
+        fromChain: 'POLYGON',
+      });
+      expect(result.transactions[0]).toMatchObject({ to: SUPPORTED_CHAINS.POLYGON.wrappedNative, value: '2000000000000000000' });
+    });
+
+    test('should send the source amount as value for native market swaps', async () => {
+      mockGetQuote.mockResolvedValue({ ...samplePriceRoute, srcToken: native });
+      mockBuildTx.mockResolvedValue({ ...sampleTxRequest, value: undefined });
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const result = await swapService.buildSwapTransaction({
+        amount: '1',
+        fromToken: 'ETH',
+        toToken: 'USDC',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+      });
+
+      expect(result.mode).toBe('market');
+      expect(result.approval?.strategy).toBe('none');
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0].value).toBe('1000000000000000000');
+    });
+  });
+
+  // --- Batch Tests ---
+  describe('Swap batches', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should merge approvals of the same token and return one ordered transaction list', async () => {
+      mockReadContract.mockImplementation(async ({ functionName }: { functionName: string }) =>
+        functionName === 'balanceOf' ? 10n ** 12n : 0n
+      );
+
+      const result = await swapService.buildSwapBatch({
+        fromAddress: sampleFromAddress,
+        swaps: [
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '2', fromToken: 'USDC', toToken: 'WETH', fromChain: 'ETHEREUM' },
+          { amount: '0.1', fromToken: 'ETH', toToken: 'WETH', fromChain: 'ETHEREUM' },
+        ],
+      });
+
+      expect(mockGetQuote).toHaveBeenCalledTimes(2); // The wrap is not quoted
+      expect(result.approvals).toHaveLength(1);
+      expect(result.approvals[0]).toMatchObject({ strategy: 'approve', token: usdc, requiredAmount: '3000000' });
+      expect(result.transactions).toHaveLength(4);
+      expect(result.transactions[0]).toMatchObject({
+        to: usdc,
+        data: encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: [sampleTxRequest.to, '3000000'] }),
+      });
+      expect(result.transactions[3]).toMatchObject({ to: SUPPORTED_CHAINS.ETHEREUM.wrappedNative, value: '100000000000000000' });
+      expect(result.transactions.map(tx => tx.nonce)).toEqual([7, 8, 9, 10]);
+      expect(result.legs.map(leg => [leg.index, leg.mode, leg.transactionIndex])).toEqual([
+        [0, 'market', 1],
+        [1, 'market', 2],
+        [2, 'wrap', 3],
+      ]);
+      expect(result.preflight?.map(check => check.token)).toEqual([usdc, '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE']);
+    });
+
+    test('should number each chain separately', async () => {
+      const result = await swapService.buildSwapBatch({
+        fromAddress: sampleFromAddress,
+        swaps: [
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '1', fromToken: 'USDC', toToken: 'WETH', fromChain: 'BASE' },
+        ],
+        preflight: 'skip',
+      });
+
+      expect(result.transactions.map(tx => [tx.chainId, tx.nonce])).toEqual([[1, 7], [1, 8], [8453, 7], [8453, 8]]);
+      expect(result.legs.map(leg => leg.transactionIndex)).toEqual([1, 3]);
+      expect(result.preflight).toBeUndefined();
+    });
+
+    test('should reject the whole batch when any swap is invalid', async () => {
+      const batch = swapService.buildSwapBatch({
+        fromAddress: sampleFromAddress,
+        swaps: [
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '0', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM', toChain: 'BASE' },
+        ],
+      });
+
+      await expect(batch).rejects.toMatchObject({
+        code: 'INVALID_AMOUNT',
+        field: 'swaps[1].amount',
+        details: { issues: [expect.objectContaining({ field: 'swaps[1].amount' }), expect.objectContaining({ field: 'swaps[2].toChain' })] },
+      });
+      expect(mockGetQuote).not.toHaveBeenCalled();
+    });
+
+    test('should point quote failures at the failing swap and build nothing', async () => {
+      mockGetQuote
+        .mockResolvedValueOnce(samplePriceRoute)
+        .mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 400'), {
+          isAxiosError: true,
+          response: { status: 400, data: { error: 'No routes found' }, headers: {} },
+        }));
+
+      await expect(swapService.buildSwapBatch({
+        fromAddress: sampleFromAddress,
+        swaps: [
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '1', fromToken: 'USDC', toToken: 'WETH', fromChain: 'ETHEREUM' },
+        ],
+      })).rejects.toMatchObject({
+        code: 'NO_ROUTE',
+        message: 'swaps[1]: No routes found',
+        field: 'swaps[1]',
+        details: { swapIndex: 1 },
+      });
+      expect(mockBuildTx).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Output format Tests ---
+  describe('Output formats', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const request = { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' };
+    const approveData = encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: [sampleTxRequest.to, '1000000'] });
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should only return plain transactions by default', async () => {
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(result.formatted).toBeUndefined();
+      expect(result.transactions).toHaveLength(2);
+    });
+
+    test('should pack approve and swap into one Safe MultiSend delegatecall', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, outputFormat: 'safeMultisend' });
+
+      expect(result.formatted).toHaveLength(1);
+      const [safeTransaction] = result.formatted!;
+      expect(safeTransaction).toMatchObject({
+        format: 'safeMultisend',
+        chainId: 1,
+        safeAddress: sampleFromAddress,
+        to: MULTISEND_CALL_ONLY_ADDRESS,
+        value: '0',
+        operation: 1,
+      });
+
+      const { functionName, args } = decodeFunctionData({ abi: MULTISEND_ABI, data: (safeTransaction as { data: Hex }).data });
+      expect(functionName).toBe('multiSend');
+      expect(decodeMultiSendData(args![0] as Hex)).toEqual([
+        { operation: 0, to: usdc, value: 0n, data: approveData },
+        { operation: 0, to: sampleTxRequest.to, value: 0n, data: sampleTxRequest.data },
+      ]);
+    });
+
+    test('should keep native values and empty calldata in the packed MultiSend data', async () => {
+      const result = await swapService.buildSwapTransaction({
+        amount: '0.5',
+        fromToken: 'ETH',
+        toToken: 'WETH',
+        fromAddress: sampleFromAddress,
+        fromChain: 'ETHEREUM',
+        outputFormat: 'safeMultisend',
+      });
+
+      const { args } = decodeFunctionData({ abi: MULTISEND_ABI, data: (result.formatted![0] as { data: Hex }).data });
+      expect(decodeMultiSendData(args![0] as Hex)).toEqual([{
+        operation: 0,
+        to: SUPPORTED_CHAINS.ETHEREUM.wrappedNative,
+        value: 5n * 10n ** 17n,
+        data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'deposit' }),
+      }]);
+    });
+
+    test('should encode the same calls as EIP-5792 wallet_sendCalls params', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, outputFormat: 'eip5792' });
+
+      expect(result.formatted).toEqual([{
+        format: 'eip5792',
+        version: '2.0.0',
+        chainId: '0x1',
+        from: sampleFromAddress,
+        atomicRequired: true,
+        calls: [
+          { to: usdc, data: approveData, value: '0x0' },
+          { to: sampleTxRequest.to, data: sampleTxRequest.data, value: '0x0' },
+        ],
+      }]);
+    });
+
+    test('should encode the calls as an ERC-4337 executeBatch', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, outputFormat: 'userOperation' });
+
+      const [userOperation] = result.formatted!;
+      expect(userOperation).toMatchObject({ format: 'userOperation', chainId: 1, sender: sampleFromAddress });
+      const { functionName, args } = decodeFunctionData({ abi: SMART_ACCOUNT_ABI, data: (userOperation as { callData: Hex }).callData });
+      expect(functionName).toBe('executeBatch');
+      expect(args).toEqual([[usdc, sampleTxRequest.to], [0n, 0n], [approveData, sampleTxRequest.data]]);
+    });
+
+    test('should return one bundle per chain for batches', async () => {
+      const result = await swapService.buildSwapBatch({
+        fromAddress: sampleFromAddress,
+        swaps: [
+          { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromChain: 'ETHEREUM' },
+          { amount: '1', fromToken: 'USDC', toToken: 'WETH', fromChain: 'BASE' },
+        ],
+        outputFormat: 'eip5792',
+      });
+
+      expect(result.formatted?.map(bundle => [(bundle as { chainId: string }).chainId, (bundle as { calls: unknown[] }).calls.length])).toEqual([
+        ['0x1', 2],
+        ['0x2105', 2],
+      ]);
+    });
+  });
+
+  // --- Quote cache Tests ---
+  describe('Quote cache', () => {
+    const request = { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' };
+    const shownRoute = { ...samplePriceRoute, bestRoute: [] };
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(shownRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test('should reuse a quote for identical requests and count hits and misses', async () => {
+      await swapService.getSwapQuote(request);
+      await swapService.getSwapQuote(request);
+      await swapService.getSwapQuote({ ...request, fromAddress: '0x0000000000000000000000000000000000000001' }); // The taker is part of the key
+      await swapService.getSwapQuote({ ...request, side: 'BUY' });
+
+      expect(mockGetQuote).toHaveBeenCalledTimes(3);
+      expect(swapService.quoteCache.getStats()).toEqual({ hits: 1, misses: 3, coalesced: 0, hitRate: 1 / 4 });
+    });
+
+    test('should coalesce identical quotes already in flight', async () => {
+      let resolveQuote!: (quote: unknown) => void;
+      mockGetQuote.mockReturnValue(new Promise(resolve => { resolveQuote = resolve; }));
+
+      const quotes = Promise.all([swapService.getSwapQuote(request), swapService.getSwapQuote(request)]);
+      await vi.waitFor(() => expect(mockGetQuote).toHaveBeenCalled());
+      resolveQuote(shownRoute);
+
+      expect(await quotes).toEqual([shownRoute, shownRoute]);
+      expect(mockGetQuote).toHaveBeenCalledTimes(1);
+      expect(swapService.quoteCache.getStats().coalesced).toBe(1);
+    });
+
+    test('should not cache failed quotes', async () => {
+      mockGetQuote.mockRejectedValueOnce(new Error('VeloraDEX down'));
+
+      await expect(swapService.getSwapQuote(request)).rejects.toThrow('VeloraDEX down');
+      await expect(swapService.getSwapQuote(request)).resolves.toEqual(shownRoute);
+      expect(mockGetQuote).toHaveBeenCalledTimes(2);
+    });
+
+    test('should build the route shown under a quoteId after the reuse window', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const summary = await swapService.getSwapQuoteSummary(request);
+      expect(summary.quoteId).toEqual(expect.any(String));
+
+      vi.advanceTimersByTime(60_000); // Past the 10s reuse window, within the 120s quoteId lifetime
+      mockGetQuote.mockResolvedValue({ ...shownRoute, destAmount: '1' });
+
+      const result = await swapService.buildSwapTransaction({ ...request, quoteId: summary.quoteId });
+
+      expect(mockGetQuote).toHaveBeenCalledTimes(1);
+      expect(result.quoteId).toBe(summary.quoteId);
+      expect(mockBuildTx).toHaveBeenCalledWith(expect.objectContaining({ priceRoute: shownRoute }), 1);
+    });
+
+    test('should reject expired and mismatched quoteIds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const { quoteId } = await swapService.getSwapQuoteSummary(request);
+
+      await expect(swapService.buildSwapTransaction({ ...request, amount: '2', quoteId })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+        field: 'quoteId',
+      });
+      await expect(swapService.buildSwapTransaction({ ...request, fromAddress: '0x0000000000000000000000000000000000000001', quoteId })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+        message: expect.stringContaining('or wallet'),
+      });
+      // Another session has its own cache and never sees the quoteId
+      await expect(new SwapService().buildSwapTransaction({ ...request, quoteId })).rejects.toMatchObject({ code: 'QUOTE_EXPIRED' });
+
+      vi.advanceTimersByTime(121_000);
+      await expect(swapService.buildSwapTransaction({ ...request, quoteId })).rejects.toMatchObject({
+        code: 'QUOTE_EXPIRED',
+        field: 'quoteId',
+        retryable: false,
+      });
+    });
+
+    test('should keep quotes in Durable Object storage', async () => {
+      const storage = new Map<string, unknown>();
+      const durableStorage = {
+        get: async (key: string) => storage.get(key),
+        put: async (key: string, value: unknown) => { storage.set(key, value); },
+        delete: async (key: string) => storage.delete(key),
+        list: async ({ prefix }: { prefix: string }) => new Map([...storage].filter(([key]) => key.startsWith(prefix))),
+      };
+      const service = new SwapService(undefined, undefined, undefined, undefined, undefined, undefined, undefined, new QuoteCache(new DurableObjectQuoteStore(durableStorage as never)));
+
+      const { quoteId } = await service.getSwapQuoteSummary(request);
+
+      expect(storage.get(`quote:id:${quoteId}`)).toMatchObject({ quoteId, quote: shownRoute });
+      // A new isolate sharing the storage can still build the quote
+      const otherIsolate = new SwapService(undefined, undefined, undefined, undefined, undefined, undefined, undefined, new QuoteCache(new DurableObjectQuoteStore(durableStorage as never)));
+      await otherIsolate.buildSwapTransaction({ ...request, quoteId });
+      expect(mockGetQuote).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Provider selection', () => {
+    const request = { amount: '1', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', strategy: 'bestPrice' as const };
+
+    // Provider quoting a fixed price for 1 USD (or failing), building a transaction to its own router
+    function stubProvider(name: string, quote: Omit<ProviderQuote, 'provider' | 'route' | 'srcAmount'> | Error, supportsBuy = true, supportsBuildOptions = true) {
+      const router = getAddress(`0x${name.length.toString(16).padStart(2, '0')}${'ab'.repeat(19)}`);
+      return {
+        name,
+        label: name,
+        supportsBuy,
+        supportsPermit: false,
+        supportsBuildOptions,
+        router,
+        quote: vi.fn(async () => {
+          if (quote instanceof Error) throw quote;
+          return { provider: name, srcAmount: '1000000', srcUSD: '1', route: { provider: name }, ...quote };
+        }),
+        getSpender: vi.fn(async () => router),
+        buildTx: vi.fn(async () => ({ to: router, data: '0xabcdef', value: '0' })),
+      } satisfies SwapProvider & { router: string };
+    }
+
+    function serviceWith(providers: SwapProvider[]) {
+      return new SwapService(undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, providers);
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    test('should skip providers that cannot build to a receiver', async () => {
+      const basic = stubProvider('basic', { destAmount: '3000000000000000000' }, true, false);
+      const full = stubProvider('full', { destAmount: '2000000000000000000', destUSD: '2' });
+
+      const result = await serviceWith([basic, full]).buildSwapTransaction({ ...request, receiver: sampleFromAddress });
+
+      expect(basic.quote).not.toHaveBeenCalled();
+      expect(full.buildTx).toHaveBeenCalledWith(expect.objectContaining({ receiver: sampleFromAddress }));
+      expect(result.provider!.candidates).toContainEqual({ provider: 'basic', selected: false, error: 'basic does not support receivers, deadlines or partner fees' });
+    });
+
+    test('should build with the provider returning the most after gas, not the highest gross output', async () => {
+      // 0.1 USD of gas for 100k gas units prices the other provider's 500k gas at 0.5 USD
+      const lean = stubProvider('lean', { destAmount: '2000000000000000000', destUSD: '2', gasCost: '100000', gasCostUSD: '0.1' });
+      const gassy = stubProvider('gassy', { destAmount: '2050000000000000000', gasCost: '500000' });
+
+      const result = await serviceWith([gassy, lean]).buildSwapTransaction(request);
+
+      expect(gassy.buildTx).not.toHaveBeenCalled();
+      expect(lean.buildTx).toHaveBeenCalledWith(expect.objectContaining({ chainId: 1, amount: '1000000', slippage: 0.5, quote: expect.objectContaining({ provider: 'lean' }) }));
+      expect(result.quote).toEqual({ provider: 'lean' });
+      expect(result.transactions.at(-1)!.to).toBe(lean.router);
+      const { args } = decodeFunctionData({ abi: APPROVE_ABI, data: result.transactions[0].data as Hex });
+      expect(args[0]).toBe(lean.router);
+      expect(result.provider).toEqual({
+        strategy: 'bestPrice',
+        selected: 'lean',
+        candidates: [
+          { provider: 'gassy', selected: false, srcAmount: '1000000', destAmount: '2050000000000000000', gasCostUSD: '0.5', netAmount: '1550000000000000000', diffBps: -1842 },
+          { provider: 'lean', selected: true, srcAmount: '1000000', destAmount: '2000000000000000000', gasCostUSD: '0.1', netAmount: '1900000000000000000', diffBps: 0 },
+        ],
+      });
+    });
+
+    test('should check a winning 0x route against the guardrails with USD values priced from the other quotes', async () => {
+      const velora = stubProvider('velora', { destAmount: '990000000000000000', destUSD: '0.99', gasCost: '100000', gasCostUSD: '0.1' });
+      const get = vi.fn(async (url: string) => ({
+        data: url.endsWith('/price')
+          ? { liquidityAvailable: true, sellAmount: '1000000', buyAmount: '995000000000000000', gas: '100000' }
+          : { transaction: { to: ZEROEX_ALLOWANCE_HOLDER, data: '0xabcdef', value: '0' } },
+      }));
+      const zeroEx = new ZeroExProvider({ apiKey: 'test-key' }, { get } as any);
+
+      const result = await serviceWith([velora, zeroEx]).buildSwapTransaction(request);
+
+      expect(velora.buildTx).not.toHaveBeenCalled();
+      expect(result.provider?.selected).toBe('0x');
+      expect(result.transactions.at(-1)!.to).toBe(ZEROEX_ALLOWANCE_HOLDER);
+      expect(result.guardrails).toMatchObject({ passed: true, priceImpactPercent: 0.5, gasToTradePercent: 10, notionalUsd: 1 });
+      expect(result.guardrails).not.toHaveProperty('unverified');
+    });
+
+    test('should reject a winning 0x route that no other quote can price', async () => {
+      const broken = stubProvider('velora', new Error('socket hang up'));
+      const get = vi.fn(async () => ({ data: { liquidityAvailable: true, sellAmount: '1000000', buyAmount: '995000000000000000', gas: '100000' } }));
+      const zeroEx = new ZeroExProvider({ apiKey: 'test-key' }, { get } as any);
+
+      await expect(serviceWith([broken, zeroEx]).buildSwapTransaction(request)).rejects.toMatchObject({ code: 'GUARDRAIL_UNVERIFIABLE' });
+      expect(get).not.toHaveBeenCalledWith(expect.stringMatching(/\/quote$/), expect.anything());
+    });
+
+    test('should report a failing provider and build with the others', async () => {
+      const healthy = stubProvider('healthy', { destAmount: '2000000000000000000', destUSD: '2' });
+      const broken = stubProvider('broken', new Error('socket hang up'));
+
+      const result = await serviceWith([broken, healthy]).buildSwapTransaction(request);
+
+      expect(result.provider?.selected).toBe('healthy');
+      expect(result.provider?.candidates[0]).toEqual({ provider: 'broken', selected: false, error: 'socket hang up' });
+    });
+
+    test('should skip providers that cannot quote BUY swaps', async () => {
+      const buyer = stubProvider('buyer', { destAmount: '1000000000000000000', destUSD: '1' });
+      const sellOnly = stubProvider('sellOnly', { destAmount: '1000000000000000000' }, false);
+
+      const result = await serviceWith([sellOnly, buyer]).buildSwapTransaction({ ...request, side: 'BUY' });
+
+      expect(sellOnly.quote).not.toHaveBeenCalled();
+      expect(result.provider?.selected).toBe('buyer');
+      expect(result.provider?.candidates[0]).toEqual({ provider: 'sellOnly', selected: false, error: 'sellOnly does not support BUY swaps' });
+    });
+
+    test('should fail with NO_ROUTE when no provider can quote', async () => {
+      const service = serviceWith([stubProvider('first', new Error('timeout')), stubProvider('second', new Error('no liquidity'))]);
+
+      await expect(service.buildSwapTransaction(request)).rejects.toMatchObject({
+        code: 'NO_ROUTE',
+        details: { failures: { first: 'timeout', second: 'no liquidity' } },
+      });
+    });
+
+    test('should only compare same-chain market swaps', async () => {
+      const service = serviceWith([stubProvider('only', { destAmount: '1' })]);
+
+      await expect(service.buildSwapTransaction({ ...request, mode: 'delta' })).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'strategy' });
+      await expect(service.buildSwapTransaction({ ...request, quoteId: 'shown' })).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'quoteId' });
+    });
+
+    test('should keep building with VeloraDEX alone under the default strategy', async () => {
+      const other = stubProvider('other', { destAmount: '9000000000000000000' });
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const result = await serviceWith([other]).buildSwapTransaction({ ...request, strategy: undefined });
+
+      expect(other.quote).not.toHaveBeenCalled();
+      expect(result.quote).toEqual(samplePriceRoute);
+      expect(result.provider).toBeUndefined();
+    });
+
+    test('should enable providers from SWAP_PROVIDERS, skipping unknown ones and 0x without an API key', () => {
+      const velora = stubProvider('velora', { destAmount: '1' });
+
+      vi.stubEnv('SWAP_PROVIDERS', 'velora, 0x, kyber');
+      expect(getConfiguredProviders(velora)).toEqual([velora]);
+
+      vi.stubEnv('ZEROEX_API_KEY', 'test-key');
+      const providers = getConfiguredProviders(velora);
+      expect(providers.map(provider => provider.name)).toEqual(['velora', '0x']);
+      expect(providers[1]).toBeInstanceOf(ZeroExProvider);
+    });
+  });
+
+  describe('Auto slippage', () => {
+    // Quote at a fixed rate up to thinAbove, and impactBps worse above it
+    function quoteWithDepth(srcToken: string, destToken: string, rate: bigint, thinAbove: bigint, impactBps: bigint) {
+      mockGetQuote.mockImplementation(async (params: { amount: string }) => {
+        const appliedBps = BigInt(params.amount) > thinAbove ? impactBps : 0n;
+        const destAmount = BigInt(params.amount) * rate * (10_000n - appliedBps) / 10_000n;
+        return { srcToken, destToken, srcAmount: params.amount, destAmount: destAmount.toString(), srcUSD: '1000', destUSD: '1000' };
+      });
+    }
+
+    beforeEach(() => {
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    test('should widen the long-tail base slippage by half the depth impact', async () => {
+      quoteWithDepth(testTokenList.tokens[0].address, testTokenList.tokens[1].address, 2n, 10n ** 18n, 200n);
+
+      const result = await swapService.buildSwapTransaction({ amount: '10', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', slippage: 'auto' });
+
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ amount: '100000000000000000' }), 1); // 1% probe
+      expect(result.autoSlippage).toEqual({
+        slippage: 2,
+        pairClass: 'longTail',
+        depthImpactBps: 200,
+        min: 0.5,
+        max: 5,
+        reason: '2% for a long-tail pair (base 1%): the full amount prices 2% worse than a 1% probe'
+      });
+      expect(mockBuildTx).toHaveBeenCalledWith(expect.objectContaining({ slippage: 200 }), 1);
+    });
+
+    test('should keep stable pairs tight and within their bounds', async () => {
+      const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+      const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+      quoteWithDepth(usdc, dai, 10n ** 12n, 10n ** 8n, 0n);
+
+      const deep = await swapService.buildSwapTransaction({ amount: '1000', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', slippage: 'auto' });
+      expect(deep.autoSlippage).toMatchObject({ slippage: 0.05, pairClass: 'stable', depthImpactBps: 0 });
+      expect(mockBuildTx).toHaveBeenLastCalledWith(expect.objectContaining({ slippage: 5 }), 1);
+
+      quoteWithDepth(usdc, dai, 10n ** 12n, 10n ** 8n, 300n);
+      const thin = await swapService.buildSwapTransaction({ amount: '2000', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', slippage: 'auto' });
+      expect(thin.autoSlippage).toMatchObject({ slippage: 0.5, depthImpactBps: 300 });
+      expect(thin.autoSlippage!.reason).toContain('capped at the 0.5% maximum');
+    });
+
+    test('should fall back to the base slippage when the probe cannot be quoted', async () => {
+      mockGetQuote
+        .mockResolvedValueOnce(samplePriceRoute)
+        .mockRejectedValueOnce(new Error('No routes found'));
+
+      const summary = await swapService.getSwapQuoteSummary({ amount: '1', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', slippage: 'auto' });
+
+      expect(summary.slippage).toBe(1);
+      expect(summary.minAmountReceived.raw).toBe('1980000000000000000');
+      expect(summary.autoSlippage).toMatchObject({ pairClass: 'longTail', reason: expect.stringContaining('could not be probed') });
+      expect(summary.autoSlippage!.depthImpactBps).toBeUndefined();
+    });
+
+    test('should reject slippage outside the allowed range', async () => {
+      const error = await swapService.buildSwapTransaction({ amount: '1', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM', slippage: 60 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.field).toBe('slippage');
+      expect(error.message).toContain('between 0.01% and 50%');
+      expect(mockGetQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Receiver, deadline and partner fees', () => {
+    const receiver = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+    const partnerAddress = '0x5000000000000000000000000000000000000009';
+    const now = 1_750_000_000;
+    const request = {
+      amount: '1',
+      fromToken: 'SRC',
+      toToken: 'DEST',
+      fromAddress: sampleFromAddress,
+      fromChain: 'ETHEREUM',
+      receiver,
+      partner: 'chroma',
+      partnerAddress,
+      partnerFeeBps: 25,
+      positiveSlippageToPartner: true,
+    };
+
+    let dateNow: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      dateNow = vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+    });
+
+    afterEach(() => {
+      dateNow.mockRestore();
+    });
+
+    test('should pass them to the VeloraDEX build call, resolving relative deadlines', async () => {
+      const result = await swapService.buildSwapTransaction({ ...request, deadline: 600 });
+
+      expect(mockBuildTx).toHaveBeenCalledWith(expect.objectContaining({
+        receiver,
+        deadline: String(now + 600),
+        partner: 'chroma',
+        partnerAddress,
+        partnerFeeBps: 25,
+        takeSurplus: true,
+      }), 1);
+      expect(result.deadline).toBe(now + 600);
+
+      // Absolute deadlines are used as given
+      await swapService.buildSwapTransaction({ ...request, deadline: now + 60 });
+      expect(mockBuildTx).toHaveBeenLastCalledWith(expect.objectContaining({ deadline: String(now + 60) }), 1);
+    });
+
+    test('should reject bad checksums, uncapped fees, fees without an address and past deadlines', async () => {
+      const error = await swapService.buildSwapTransaction({
+        ...request,
+        receiver: receiver.replace('F98', 'f98'),
+        partnerAddress: undefined,
+        partnerFeeBps: 500,
+        deadline: now - 1,
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.field).toBe('receiver');
+      expect(error.details.issues.map((issue: { field: string }) => issue.field)).toEqual(['receiver', 'deadline', 'partnerAddress', 'partnerFeeBps']);
+      expect(mockGetQuote).not.toHaveBeenCalled();
+    });
+
+    test('should set the beneficiary, deadline and partner fee of Delta orders', async () => {
+      mockGetQuote.mockResolvedValue({ delta: { ...samplePriceRoute, partner: 'anon', partnerFee: 0 } });
+      mockBuildDeltaOrder.mockResolvedValue({ domain: {}, types: { Order: [] }, data: {} });
+      mockGetDeltaContract.mockResolvedValue('0x0000000000bbF5c5Fd284e657F01Bd000933C96D');
+
+      await swapService.buildSwapTransaction({ ...request, mode: 'delta', deadline: 3600 });
+
+      expect(mockBuildDeltaOrder).toHaveBeenCalledWith(expect.objectContaining({
+        beneficiary: receiver,
+        deadline: now + 3600,
+        partner: 'chroma',
+        partnerAddress,
+        partnerFeeBps: 25,
+        partnerTakesSurplus: true,
+      }), 1);
+    });
+
+    test('should not build wraps, which always pay the sender', async () => {
+      const error = await swapService.buildSwapTransaction({ ...request, fromToken: 'ETH', toToken: 'WETH', partner: undefined, partnerAddress: undefined, partnerFeeBps: undefined, positiveSlippageToPartner: undefined }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.field).toBe('receiver');
+    });
+  });
+
+  describe('Transaction previews', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+    const previews = new TransactionPreviewService();
+
+    test('should preview the approval and the swap of a built market swap', async () => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(AUGUSTUS_V6_ADDRESS);
+
+      const result = await swapService.buildSwapTransaction({ amount: '1', fromToken: 'USDC', toToken: 'DAI', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' });
+
+      expect(result.transactions[0].preview).toEqual({
+        action: 'approve',
+        summary: 'Approve 1 USDC to Velora AugustusV6.2 (0x6A00…1068)',
+        contract: { address: usdc },
+        functionName: 'approve',
+        spender: { address: AUGUSTUS_V6_ADDRESS, label: 'Velora AugustusV6.2' },
+        amountIn: { token: usdc, symbol: 'USDC', raw: '1000000', formatted: '1' },
+      });
+      // The mocked calldata is opaque, so the swap is described from the quote (0.5% default slippage)
+      expect(result.transactions[1].preview).toMatchObject({
+        action: 'swap',
+        summary: 'Swap 1 SRC for at least 1.99 DEST on 0x1F98…F984',
+        minAmountOut: { symbol: 'DEST', raw: '1990000000000000000' },
+      });
+    });
+
+    test('should preview wraps from their calldata', async () => {
+      const result = await swapService.buildSwapTransaction({ amount: '0.5', fromToken: 'ETH', toToken: 'WETH', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' });
+
+      expect(result.transactions[0].preview).toMatchObject({ action: 'wrap', summary: 'Wrap 0.5 ETH into WETH', contract: { label: 'Wrapped ETH' } });
+    });
+
+    test('should decode AugustusV6 swap calldata into tokens, amounts and limits', async () => {
+      const recipient = '0x000000000000000000000000000000000000bEEF';
+      const data = encodeFunctionData({
+        abi: AUGUSTUS_V6_ABI,
+        functionName: 'swapExactAmountIn',
+        args: [
+          '0x0000000000000000000000000000000000000001',
+          { srcToken: usdc, destToken: dai, fromAmount: 100_000_000n, toAmount: 99n * 10n ** 18n, quotedAmount: 995n * 10n ** 17n, metadata: `0x${'00'.repeat(32)}`, beneficiary: recipient },
+          0n,
+          '0x',
+          '0x',
+        ],
+      });
+
+      const decoded = await previews.decodeTransaction({ chain: 'ETHEREUM', to: AUGUSTUS_V6_ADDRESS, data });
+
+      expect(decoded).toMatchObject({
+        action: 'swap',
+        summary: 'Swap 100 USDC for at least 99 DAI on Velora AugustusV6.2 (0x6A00…1068), paid to 0x0000…bEEF',
+        functionName: 'swapExactAmountIn',
+        selector: data.slice(0, 10),
+        amountOut: { symbol: 'DAI', formatted: '99.5' },
+        minAmountOut: { symbol: 'DAI', formatted: '99' },
+        recipient,
+        args: { swapData: { fromAmount: '100000000', beneficiary: recipient } },
+      });
+    });
+
+    test('should decode ERC-20 and wrapped native calls and fall back to the selector', async () => {
+      const approve = await previews.decodeTransaction({
+        chain: 'ETHEREUM',
+        to: usdc,
+        data: encodeFunctionData({ abi: APPROVE_ABI, functionName: 'approve', args: ['0x216B4B4Ba9F3e719726886d34a177484278Bfcae', maxUint256] }),
+      });
+      expect(approve.summary).toBe('Approve unlimited USDC to Velora TokenTransferProxy (0x216B…fcae)');
+
+      const unwrap = await previews.decodeTransaction({
+        chain: 'ARBITRUM',
+        to: SUPPORTED_CHAINS.ARBITRUM.wrappedNative,
+        data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: 'withdraw', args: [10n ** 18n] }),
+      });
+      expect(unwrap).toMatchObject({ action: 'unwrap', summary: 'Unwrap 1 WETH into ETH', args: { wad: '1000000000000000000' } });
+
+      const unknown = await previews.decodeTransaction({ chain: 'ETHEREUM', to: AUGUSTUS_V6_ADDRESS, data: '0xdeadbeef', value: '1000000000000000' });
+      expect(unknown).toMatchObject({ action: 'call', summary: 'Call function 0xdeadbeef on Velora AugustusV6.2 (0x6A00…1068) sending 0.001 ETH', selector: '0xdeadbeef' });
+      expect(unknown).not.toHaveProperty('args');
+    });
+
+    test('should reject malformed decode requests', async () => {
+      await expect(previews.decodeTransaction({ chain: 'ETHEREUM', to: usdc, data: 'approve' })).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'data' });
+      await expect(previews.decodeTransaction({ chain: 'ETHEREUM', to: '0x123', data: '0x' })).rejects.toMatchObject({ code: 'INVALID_ADDRESS', field: 'to' });
+    });
+  });
+
+  describe('Swap tracking', () => {
+    const txHash = `0x${'ab'.repeat(32)}` as const;
+    const router = '0x6A000F20005980200259B80c5102003040001068';
+    const [srcToken, destToken] = testTokenList.tokens.map(token => token.address);
+
+    function transferLog(token: string, from: string, to: string, value: bigint) {
+      return {
+        address: token,
+        topics: encodeEventTopics({ abi: TRANSFER_EVENT_ABI, eventName: 'Transfer', args: { from: from as Hex, to: to as Hex } }),
+        data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+      };
+    }
+
+    function receipt(status: 'success' | 'reverted', logs: ReturnType<typeof transferLog>[] = []) {
+      return { status, from: sampleFromAddress.toLowerCase(), transactionHash: txHash, blockNumber: 100n, gasUsed: 150_000n, effectiveGasPrice: 10_000_000_000n, logs };
+    }
+
+    // Durable Object SQL stub understanding the statements of SqliteSwapTrackStore
+    function sqlStorage() {
+      const rows = new Map<string, { id: string; chain: string; status: string; created_at: string; data: string }>();
+      const exec = vi.fn((query: string, ...bindings: any[]) => {
+        let result: Record<string, unknown>[] = [];
+        if (query.startsWith('INSERT')) {
+          const [id, chain, status, created_at, data] = bindings;
+          rows.set(id, { id, chain, status, created_at: rows.get(id)?.created_at ?? created_at, data });
+        } else if (query.includes('WHERE id = ?')) {
+          result = rows.has(bindings[0]) ? [rows.get(bindings[0])!] : [];
+        } else if (query.startsWith('SELECT')) {
+          const limit = bindings.pop();
+          const status = query.includes('status = ?') ? bindings.pop() : undefined;
+          result = [...rows.values()].filter(row => !status || row.status === status).reverse().slice(0, limit);
+        }
+        return { toArray: () => result };
+      });
+      return { exec } satisfies SqlStorageLike;
+    }
+
+    test('should measure the received amount from the Transfer logs and compare it with the quote', async () => {
+      mockGetQuote.mockResolvedValue({ ...samplePriceRoute, destDecimals: 18 });
+      const { quoteId } = await swapService.getSwapQuoteSummary({ amount: '1', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' });
+      mockGetTransactionReceipt.mockResolvedValue(receipt('success', [
+        transferLog(srcToken, sampleFromAddress, router, 10n ** 18n),
+        transferLog(destToken, router, sampleFromAddress, 1_980_000_000_000_000_000n),
+        transferLog(destToken, router, '0x000000000000000000000000000000000000dEaD', 5n), // Fee, not the sender's
+      ]));
+
+      const tracker = new SwapTrackingService(undefined, undefined, swapService.quoteCache);
+      const tracked = await tracker.trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ethereum', quoteId });
+
+      expect(tracked).toMatchObject({
+        status: 'success',
+        chain: 'ETHEREUM',
+        from: sampleFromAddress,
+        quoteId,
+        toToken: { symbol: 'DEST', address: destToken, decimals: 18 },
+        expectedAmount: { raw: '2000000000000000000', formatted: '2' },
+        receivedAmount: { raw: '1980000000000000000', formatted: '1.98' },
+        realizedSlippageBps: 100,
+        blockNumber: '100',
+        gasUsed: '150000',
+      });
+      expect(tracked.transfers).toHaveLength(2);
+      expect(mockWaitForTransactionReceipt).not.toHaveBeenCalled();
+
+      // Mined swaps are final and served from the store
+      await tracker.trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM' });
+      expect(mockGetTransactionReceipt).toHaveBeenCalledTimes(1);
+    });
+
+    test('should measure what the receiver got when the swap was built with one', async () => {
+      const receiver = '0x000000000000000000000000000000000000bEEF';
+      mockGetTransactionReceipt.mockResolvedValue(receipt('success', [
+        transferLog(srcToken, sampleFromAddress, router, 10n ** 18n),
+        transferLog(destToken, router, receiver, 1_990_000_000_000_000_000n),
+      ]));
+
+      const tracked = await new SwapTrackingService().trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM', toToken: 'DEST', expectedAmount: '2', receiver: receiver.toLowerCase() });
+
+      expect(tracked).toMatchObject({
+        from: sampleFromAddress,
+        receiver,
+        receivedAmount: { raw: '1990000000000000000', formatted: '1.99' },
+        realizedSlippageBps: 50,
+      });
+      expect(tracked.transfers).toHaveLength(2);
+    });
+
+    test('should decode the revert reason of a failed swap by replaying it', async () => {
+      mockGetTransactionReceipt.mockResolvedValue(receipt('reverted'));
+      mockGetTransaction.mockResolvedValue({ from: sampleFromAddress, to: router, input: '0x1234', value: 0n, gas: 300_000n });
+      const revertData = encodeErrorResult({
+        abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+        errorName: 'Error',
+        args: ['Received amount of tokens are less then expected'],
+      });
+      mockCall.mockRejectedValue(new RawContractError({ data: revertData }));
+
+      const tracked = await new SwapTrackingService().trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM', toToken: 'DEST', expectedAmount: '2' });
+
+      expect(tracked).toMatchObject({ status: 'reverted', revertReason: 'Received amount of tokens are less then expected' });
+      expect(tracked.receivedAmount).toBeUndefined();
+      expect(mockCall).toHaveBeenCalledWith(expect.objectContaining({ to: router, data: '0x1234', blockNumber: 99n }));
+    });
+
+    test('should report unmined transactions as pending or not found and keep polling them', async () => {
+      mockGetTransactionReceipt.mockRejectedValue(new TransactionReceiptNotFoundError({ hash: txHash }));
+      mockGetTransaction.mockRejectedValueOnce(new TransactionNotFoundError({ hash: txHash }));
+      const tracker = new SwapTrackingService();
+
+      await expect(tracker.trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM', waitSeconds: 0 })).resolves.toMatchObject({ status: 'not_found' });
+
+      mockGetTransaction.mockResolvedValueOnce({ hash: txHash });
+      mockWaitForTransactionReceipt.mockResolvedValueOnce(receipt('success'));
+      await expect(tracker.trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM', waitSeconds: 5 })).resolves.toMatchObject({ status: 'success' });
+      expect(mockWaitForTransactionReceipt).toHaveBeenCalledWith({ hash: txHash, timeout: 5000 });
+
+      expect(await tracker.listTrackedSwaps(sampleFromAddress)).toHaveLength(1);
+    });
+
+    test('should reject malformed hashes and surface RPC failures as upstream errors', async () => {
+      const tracker = new SwapTrackingService();
+      mockGetTransactionReceipt.mockRejectedValue(new Error('RPC unavailable'));
+
+      await expect(tracker.trackSwap({ txHash: '0x1234', fromAddress: sampleFromAddress, chain: 'ETHEREUM' })).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'txHash' });
+      await expect(tracker.trackSwap({ txHash, fromAddress: sampleFromAddress, chain: 'ETHEREUM' })).rejects.toMatchObject({ code: 'UPSTREAM_ERROR', retryable: true });
+    });
+
+    test('should only keep swaps sent by the wallet they are tracked for', async () => {
+      const tracker = new SwapTrackingService();
+      const other = '0x0000000000000000000000000000000000000001';
+      mockGetTransactionReceipt.mockResolvedValue(receipt('success'));
+
+      await expect(tracker.trackSwap({ txHash, fromAddress: other, chain: 'ETHEREUM' })).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'fromAddress' });
+      await expect(tracker.trackSwap({ txHash, fromAddress: 'not-an-address', chain: 'ETHEREUM' })).rejects.toMatchObject({ code: 'INVALID_ADDRESS' });
+      await tracker.trackSwap({ txHash, fromAddress: sampleFromAddress.toLowerCase(), chain: 'ETHEREUM' });
+
+      expect(await tracker.listTrackedSwaps(sampleFromAddress)).toHaveLength(1);
+      expect(await tracker.listTrackedSwaps(other)).toEqual([]);
+    });
+
+    test('should keep tracked swaps in the SQLite storage of the wallet', async () => {
+      const sql = sqlStorage();
+      const stores = vi.fn((_wallet: string) => new SqliteSwapTrackStore(sql));
+      mockGetTransactionReceipt.mockResolvedValue(receipt('success'));
+      await new SwapTrackingService(stores).trackSwap({ txHash, fromAddress: sampleFromAddress.toLowerCase(), chain: 'ETHEREUM' });
+
+      expect(stores).toHaveBeenCalledWith(sampleFromAddress);
+      expect(sql.exec.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS tracked_swaps');
+
+      // Another session of the same wallet lists it
+      const later = new SwapTrackingService(stores);
+      expect(await later.listTrackedSwaps(sampleFromAddress, { status: 'success' })).toEqual([expect.objectContaining({ txHash, status: 'success' })]);
+      expect(await later.listTrackedSwaps(sampleFromAddress, { status: 'reverted' })).toEqual([]);
+    });
+  });
+
+  describe('Wallet balances', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+    const baseUsdc = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+    // Balances by token address, 'native' for getEthBalance, on every chain
+    function stubBalances(balances: Record<string, bigint>) {
+      mockMulticall.mockImplementation(async ({ contracts }: { contracts: { address: string; functionName: string }[] }) =>
+        contracts.map(contract => ({
+          status: 'success',
+          result: balances[contract.functionName === 'getEthBalance' ? 'native' : contract.address.toLowerCase()] ?? 0n
+        }))
+      );
+    }
+
+    test('should multicall every known token and value the holdings against USDC', async () => {
+      stubBalances({ native: 10n ** 18n, [usdc.toLowerCase()]: 500_000_000n, [weth.toLowerCase()]: 2n * 10n ** 18n });
+      // 2500 USDC per ETH, 10% less when selling more than one ETH at once
+      mockGetQuote.mockImplementation(async (params: { srcToken: string; destToken: string; amount: string }) => ({
+        srcToken: params.srcToken,
+        destToken: params.destToken,
+        srcAmount: params.amount,
+        destAmount: (BigInt(params.amount) * (BigInt(params.amount) > 10n ** 18n ? 2250n : 2500n) / 10n ** 12n).toString()
+      }));
+
+      const result = await new WalletBalanceService().getWalletBalances({ address: sampleFromAddress, chains: ['ethereum'] });
+
+      expect(mockMulticall).toHaveBeenCalledTimes(1);
+      const { contracts } = mockMulticall.mock.calls[0][0];
+      expect(contracts[0]).toMatchObject({ functionName: 'getEthBalance', args: [sampleFromAddress] });
+      expect(contracts.slice(1).every((contract: { functionName: string }) => contract.functionName === 'balanceOf')).toBe(true);
+      expect(contracts).toContainEqual(expect.objectContaining({ address: usdc, functionName: 'balanceOf' }));
+
+      // USDC is worth its own amount, only ETH and WETH are quoted, one whole token each
+      expect(mockGetQuote).toHaveBeenCalledTimes(2);
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ destToken: usdc, side: 'SELL', mode: 'market' }), 1);
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ srcToken: weth, amount: '1000000000000000000' }), 1);
+
+      const [ethereum] = result.chains;
+      expect(ethereum.tokens.map(({ token, valueUsd }) => [token.symbol, valueUsd])).toEqual([['WETH', '5000'], ['ETH', '2500'], ['USDC', '500']]);
+      expect(ethereum.tokens[1]).toMatchObject({ native: true, balance: { raw: '1000000000000000000', formatted: '1' } });
+      expect(ethereum).toMatchObject({ chain: 'ETHEREUM', chainId: 1, totalUsd: '8000', unpricedCount: 0 });
+      expect(result.totalUsd).toBe('8000');
+    });
+
+    test('should report unreadable chains and unpriced tokens without failing the others', async () => {
+      mockMulticall.mockImplementation(async ({ contracts }: { contracts: { address: string; functionName: string }[] }) => {
+        if (contracts.some(contract => contract.address === baseUsdc)) {
+          throw new Error('RPC unavailable');
+        }
+        return contracts.map(contract => ({
+          status: contract.address === usdc ? 'failure' : 'success',
+          result: contract.address === weth ? 10n ** 18n : 0n,
+          ...(contract.address === usdc && { error: new Error('reverted') })
+        }));
+      });
+      mockGetQuote.mockRejectedValue(new Error('No routes found'));
+
+      const result = await new WalletBalanceService().getWalletBalances({ address: sampleFromAddress, chains: ['ETHEREUM', 'BASE'] });
+
+      expect(result.chains[0]).toMatchObject({ chain: 'ETHEREUM', totalUsd: '0', unpricedCount: 1 });
+      expect(result.chains[0].tokens).toEqual([{ token: { symbol: 'WETH', address: weth, decimals: 18 }, balance: { raw: '1000000000000000000', formatted: '1' } }]);
+      expect(result.chains[1]).toMatchObject({ chain: 'BASE', chainId: 8453, tokens: [], error: 'Balances unavailable: RPC unavailable' });
+      expect(result.totalUsd).toBe('0');
+    });
+
+    test('should read every mainnet when no chains are given', async () => {
+      stubBalances({});
+
+      const result = await new WalletBalanceService().getWalletBalances({ address: sampleFromAddress });
+
+      expect(result.chains.map(chain => chain.chain)).toEqual(['ETHEREUM', 'ARBITRUM', 'OPTIMISM', 'BASE', 'POLYGON', 'AVALANCHE']);
+      expect(mockMulticall).toHaveBeenCalledTimes(6);
+    });
+
+    test('should reject invalid addresses and unsupported chains', async () => {
+      const service = new WalletBalanceService();
+
+      await expect(service.getWalletBalances({ address: 'not-an-address' })).rejects.toMatchObject({ code: 'INVALID_ADDRESS', field: 'address' });
+      await expect(service.getWalletBalances({ address: sampleFromAddress, chains: ['ETHEREUM', 'SOLANA'] })).rejects.toMatchObject({ code: 'UNSUPPORTED_CHAIN', message: 'Unsupported chain: SOLANA' });
+      expect(mockMulticall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Conditional swaps', () => {
+    const start = '2026-01-01T00:00:00.000Z';
+
+    // Local clock and USD prices driving the cron runs
+    class MarketSimulator implements Clock, PriceSource {
+      private nowMs = Date.parse(start);
+      private prices = new Map<string, number>();
+
+      now(): number {
+        return this.nowMs;
+      }
+
+      advance(seconds: number): void {
+        this.nowMs += seconds * 1000;
+      }
+
+      setPrice(symbol: string, usd: number): void {
+        this.prices.set(symbol, usd);
+      }
+
+      async getUsdPrice(_chainName: string, token: { symbol: string }): Promise<number> {
+        const price = this.prices.get(token.symbol);
+        if (price === undefined) {
+          throw new Error(`No simulated price for ${token.symbol}`);
+        }
+        return price;
+      }
+    }
+
+    let market: MarketSimulator;
+    let orders: ConditionalSwapService;
+    const swap = { amount: '1', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ethereum' };
+
+    beforeEach(() => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+      market = new MarketSimulator();
+      orders = new ConditionalSwapService(undefined, swapService, undefined, market, market);
+    });
+
+    test('should build the swap once the price condition is met', async () => {
+      const order = await orders.createOrder({ ...swap, condition: { below: 2500 } });
+      expect(order).toMatchObject({ status: 'pending', swap: { fromChain: 'ETHEREUM' }, condition: { token: { symbol: 'DEST' }, below: 2500 }, remainingExecutions: 1, nextRunAt: start });
+
+      market.setPrice('DEST', 2600);
+      expect(await orders.runDueOrders()).toEqual({ checked: 1, triggered: [], expired: [], failed: [] });
+      expect(mockBuildTx).not.toHaveBeenCalled();
+      expect((await orders.listOrders(sampleFromAddress))[0]).toMatchObject({ status: 'pending', lastPriceUsd: 2600, nextRunAt: start });
+
+      market.advance(600);
+      market.setPrice('DEST', 2400);
+      expect(await orders.runDueOrders()).toMatchObject({ triggered: [order.id] });
+
+      const [done] = await orders.listOrders(sampleFromAddress, { status: 'done' });
+      expect(done).toMatchObject({ remainingExecutions: 0, lastPriceUsd: 2400, lastCheckedAt: '2026-01-01T00:10:00.000Z' });
+      expect(done.nextRunAt).toBeUndefined();
+      expect(done.executions).toHaveLength(1);
+      expect(done.executions[0]).toMatchObject({ triggeredAt: '2026-01-01T00:10:00.000Z', priceUsd: 2400, swap: { quote: samplePriceRoute } });
+      expect(done.executions[0].swap.transactions.at(-1)?.to).toBe(sampleTxRequest.to);
+
+      // One-shot orders are not run again
+      market.setPrice('DEST', 2000);
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 0 });
+    });
+
+    test('should run DCA orders every interval until their executions are used', async () => {
+      const order = await orders.createOrder({ ...swap, intervalSeconds: 86_400, executions: 2 });
+
+      expect(await orders.runDueOrders()).toMatchObject({ triggered: [order.id] });
+      expect((await orders.listOrders(sampleFromAddress))[0]).toMatchObject({ status: 'ready', remainingExecutions: 1, nextRunAt: '2026-01-02T00:00:00.000Z' });
+
+      // Not due before the next day
+      market.advance(3_600);
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 0 });
+
+      // A missed tick runs late, the schedule keeps its daily slots
+      market.advance(86_400);
+      expect(await orders.runDueOrders()).toMatchObject({ triggered: [order.id] });
+
+      const [done] = await orders.listOrders(sampleFromAddress);
+      expect(done).toMatchObject({ status: 'done', remainingExecutions: 0 });
+      expect(done.nextRunAt).toBeUndefined();
+      expect(done.executions.map(execution => execution.triggeredAt)).toEqual([start, '2026-01-02T01:00:00.000Z']);
+      expect(mockBuildTx).toHaveBeenCalledTimes(2);
+    });
+
+    test('should keep failed runs pending with the error until a later retry, expire and cancel orders', async () => {
+      const failing = await orders.createOrder({ ...swap, intervalSeconds: 3_600 });
+      const expiring = await orders.createOrder({ ...swap, condition: { above: 3000 }, expiresAt: Date.parse(start) / 1000 + 1_200 });
+      market.setPrice('DEST', 2000);
+      mockBuildTx.mockRejectedValueOnce(new Error('BuildTx API Error'));
+
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 2, failed: [failing.id] });
+      expect(await orders.listOrders(sampleFromAddress, { status: 'pending' })).toEqual(expect.arrayContaining([
+        expect.objectContaining({ id: failing.id, lastError: expect.stringContaining('BuildTx API Error'), failedAttempts: 1, nextRunAt: '2026-01-01T00:10:00.000Z' })
+      ]));
+
+      // Retried on the next run, while the other order passes its expiry
+      market.advance(1_200);
+      expect(await orders.runDueOrders()).toMatchObject({ triggered: [failing.id], expired: [expiring.id] });
+      const [retried] = await orders.listOrders(sampleFromAddress, { status: 'ready' });
+      expect(retried).not.toHaveProperty('lastError');
+      expect(retried).not.toHaveProperty('failedAttempts');
+
+      const cancelled = await orders.cancelOrder(failing.id, sampleFromAddress);
+      expect(cancelled).toMatchObject({ status: 'cancelled' });
+      expect(cancelled).not.toHaveProperty('nextRunAt');
+      market.advance(3_600);
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 0 });
+
+      await expect(orders.cancelOrder(failing.id, sampleFromAddress)).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'id' });
+      await expect(orders.cancelOrder('unknown', sampleFromAddress)).rejects.toMatchObject({ code: 'ORDER_NOT_FOUND' });
+    });
+
+    test('should back off failed runs and mark the order failed after repeated failures', async () => {
+      const order = await orders.createOrder({ ...swap, startAt: Date.parse(start) / 1000 });
+      mockBuildTx.mockRejectedValue(new Error('BuildTx API Error'));
+
+      for (const delayMinutes of [10, 20, 40, 80]) {
+        expect(await orders.runDueOrders()).toMatchObject({ failed: [order.id] });
+        market.advance(delayMinutes * 60 - 60);
+        expect(await orders.runDueOrders()).toMatchObject({ checked: 0 }); // Not due a minute early
+        market.advance(60);
+      }
+      expect(await orders.runDueOrders()).toMatchObject({ failed: [order.id] });
+
+      const [failed] = await orders.listOrders(sampleFromAddress);
+      expect(failed).toMatchObject({ status: 'failed', failedAttempts: 5, lastError: expect.stringContaining('BuildTx API Error') });
+      expect(failed.nextRunAt).toBeUndefined();
+      expect(mockBuildTx).toHaveBeenCalledTimes(5);
+
+      market.advance(86_400);
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 0 });
+      await expect(orders.cancelOrder(order.id, sampleFromAddress)).rejects.toMatchObject({ code: 'INVALID_REQUEST', message: `Conditional swap ${order.id} is already failed` });
+    });
+
+    test('should run an order once across overlapping cron runs and keep it cancelled when cancelled mid-run', async () => {
+      const order = await orders.createOrder({ ...swap, intervalSeconds: 3_600 });
+
+      const runs = await Promise.all([orders.runDueOrders(), orders.runDueOrders()]);
+      expect(runs.flatMap(run => run.triggered)).toEqual([order.id]);
+      expect(runs[0].checked + runs[1].checked).toBe(1);
+      expect(mockBuildTx).toHaveBeenCalledTimes(1);
+
+      market.advance(3_600);
+      mockBuildTx.mockImplementationOnce(async () => {
+        await orders.cancelOrder(order.id, sampleFromAddress);
+        return sampleTxRequest;
+      });
+      expect(await orders.runDueOrders()).toMatchObject({ checked: 1, triggered: [] });
+
+      const [cancelled] = await orders.listOrders(sampleFromAddress);
+      expect(cancelled).toMatchObject({ status: 'cancelled' });
+      expect(cancelled).not.toHaveProperty('runningUntil');
+      expect(cancelled.executions).toHaveLength(1);
+    });
+
+    test('should only list and cancel orders for the wallet that created them', async () => {
+      const other = '0x0000000000000000000000000000000000000001';
+      const order = await orders.createOrder({ ...swap, fromAddress: sampleFromAddress.toLowerCase(), intervalSeconds: 3_600 });
+      expect(order.owner).toBe(sampleFromAddress);
+
+      expect(await orders.listOrders(other)).toEqual([]);
+      await expect(orders.cancelOrder(order.id, other)).rejects.toMatchObject({ code: 'ORDER_NOT_FOUND', field: 'id' });
+      await expect(orders.listOrders('0x1234')).rejects.toMatchObject({ code: 'INVALID_ADDRESS', field: 'address' });
+
+      expect(await orders.listOrders(sampleFromAddress.toLowerCase())).toEqual([expect.objectContaining({ id: order.id, status: 'pending' })]);
+      await expect(orders.cancelOrder(order.id, sampleFromAddress)).resolves.toMatchObject({ status: 'cancelled' });
+    });
+
+    test('should reject orders without a schedule, with invalid schedules or unknown tokens', async () => {
+      await expect(orders.createOrder(swap)).rejects.toMatchObject({ code: 'INVALID_REQUEST', field: 'condition' });
+      await expect(orders.createOrder({ ...swap, condition: { below: 2000, above: 2500 } })).rejects.toMatchObject({ field: 'condition' });
+      await expect(orders.createOrder({ ...swap, intervalSeconds: 60 })).rejects.toMatchObject({ field: 'intervalSeconds' });
+      await expect(orders.createOrder({ ...swap, startAt: Date.parse(start) / 1000, executions: 3 })).rejects.toMatchObject({ field: 'executions' });
+      await expect(orders.createOrder({ ...swap, condition: { below: 1 }, expiresAt: Date.parse(start) / 1000 - 1 })).rejects.toMatchObject({ field: 'expiresAt' });
+      await expect(orders.createOrder({ ...swap, amount: '0', condition: { below: 1 } })).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+      await expect(orders.createOrder({ ...swap, condition: { token: 'NOPE', below: 1 } })).rejects.toMatchObject({ code: 'UNKNOWN_TOKEN' });
+
+      expect(await orders.listOrders(sampleFromAddress)).toEqual([]);
+    });
+  });
+
+  // --- Structured error Tests ---
+  describe('Error codes', () => {
+    const request = { amount: '1', fromToken: 'SRC', toToken: 'DEST', fromAddress: sampleFromAddress, fromChain: 'ETHEREUM' };
+
+    // Shape of the errors axios raises for non-2xx VeloraDEX responses
+    const veloraError = (status: number, data: Record<string, unknown>, headers: Record<string, string> = {}) =>
+      Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response: { status, data, headers } });
+
+    test('should report the code and field of a validation failure', async () => {
+      await expect(swapService.getSwapQuote({ ...request, amount: '-1' })).rejects.toMatchObject({
+        code: 'INVALID_AMOUNT',
+        field: 'amount',
+        retryable: false,
+      });
+      await expect(swapService.getSwapQuote({ ...request, fromChain: 'UNSUPPORTED_CHAIN' })).rejects.toMatchObject({
+        code: 'UNSUPPORTED_CHAIN',
+        field: 'fromChain',
+      });
+    });
+
+    test('should map VeloraDEX rate limiting to a retryable error', async () => {
+      mockGetQuote.mockRejectedValue(veloraError(429, { error: 'Too many requests' }, { 'retry-after': '30' }));
+
+      await expect(swapService.getSwapQuote(request)).rejects.toMatchObject({
+        code: 'UPSTREAM_RATE_LIMIT',
+        message: 'Too many requests',
+        retryable: true,
+        details: { retryAfterSeconds: 30 },
+      });
+    });
+
+    test.each([
+      ['No routes found with enough liquidity', 'INSUFFICIENT_LIQUIDITY'],
+      ['ESTIMATED_LOSS_GREATER_THAN_MAX_IMPACT', 'PRICE_IMPACT_TOO_HIGH'],
+      ['No routes found', 'NO_ROUTE'],
+    ])('should map the VeloraDEX error "%s" to %s', async (message, code) => {
+      mockGetQuote.mockRejectedValue(veloraError(400, { error: message }));
+
+      await expect(swapService.getSwapQuote(request)).rejects.toMatchObject({ code, message, retryable: false });
+    });
+
+    test('should treat VeloraDEX server errors as retryable', async () => {
+      mockGetQuote.mockRejectedValue(veloraError(503, { error: 'Service unavailable' }));
+
+      await expect(swapService.getSwapQuote(request)).rejects.toMatchObject({ code: 'UPSTREAM_ERROR', retryable: true });
+    });
+
+    test('should serialize known and unknown errors for the tool result', () => {
+      expect(toErrorPayload(new ValidationError('UNKNOWN_TOKEN', 'Token XYZ not found on chain ETHEREUM', 'toToken'))).toEqual({
+        code: 'UNKNOWN_TOKEN',
+        message: 'Token XYZ not found on chain ETHEREUM',
+        field: 'toToken',
+        retryable: false,
+      });
+      expect(toErrorPayload(new Error('boom'))).toEqual({ code: 'INTERNAL_ERROR', message: 'boom', retryable: false });
+    });
+  });
+
+  // --- Chain routing Tests ---
+  describe('Per-chain SDK routing', () => {
+    const chainTokens: Record<string, string> = {
+      AAA: '0x1111111111111111111111111111111111111111',
+      BBB: '0x2222222222222222222222222222222222222222',
+    };
+
+    beforeEach(() => {
+      vi.mocked(getTokenAddressFromUtils).mockImplementation((_chain: string, symbol: string) => chainTokens[symbol] ?? null);
+      vi.mocked(getTokenDecimalsFromUtils).mockImplementation((_chain: string, symbol: string) => symbol in chainTokens ? 18 : null);
+    });
+
+    afterEach(() => {
+      vi.mocked(getTokenAddressFromUtils).mockReset();
+      vi.mocked(getTokenDecimalsFromUtils).mockReset();
+    });
+
+    test.each(Object.entries(SUPPORTED_CHAINS))('should quote, resolve spender and build on %s', async (chainName, chain) => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+      mockBuildTx.mockResolvedValue(sampleTxRequest);
+      mockGetSpender.mockResolvedValue(sampleTxRequest.to);
+
+      const request = {
+        amount: '1',
+        fromToken: 'AAA',
+        toToken: 'BBB',
+        fromAddress: sampleFromAddress,
+        fromChain: chainName,
+      };
+
+      const result = await swapService.buildSwapTransaction(request);
+
+      expect(constructSimpleSDK).toHaveBeenCalledWith(expect.objectContaining({ chainId: chain.id }));
+      expect(mockGetQuote).toHaveBeenCalledWith(expect.objectContaining({ srcToken: chainTokens.AAA }), chain.id);
+      expect(mockGetSpender).toHaveBeenCalledWith(chain.id);
+      expect(mockBuildTx).toHaveBeenCalledWith(expect.objectContaining({ destToken: chainTokens.BBB }), chain.id);
+      expect(result.transactions.every(tx => tx.chainId === chain.id)).toBe(true);
+    });
+
+    test('should build each chain SDK once and reuse it', async () => {
+      mockGetQuote.mockResolvedValue(samplePriceRoute);
+
+      const request = { amount: '1', fromToken: 'AAA', toToken: 'BBB', fromAddress: sampleFromAddress };
+      await swapService.getSwapQuote({ ...request, fromChain: 'ARBITRUM' });
+      await swapService.getSwapQuote({ ...request, amount: '2', fromChain: 'ARBITRUM' }); // A different amount is not served from the quote cache
+      await swapService.getSwapQuote({ ...request, fromChain: 'BASE' });
+
+      expect(constructSimpleSDK).toHaveBeenCalledTimes(2);
+      expect(mockGetQuote).toHaveBeenNthCalledWith(1, expect.anything(), 42161);
+      expect(mockGetQuote).toHaveBeenNthCalledWith(3, expect.anything(), 8453);
+    });
+
+    test('should reject chain IDs outside SUPPORTED_CHAINS', () => {
+      const registry = new VeloraSDKRegistry();
+      expect(() => registry.getSDK(56)).toThrow('Unsupported chain ID: 56');
+      expect(constructSimpleSDK).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,11 +1,70 @@
+export type SwapSideType = 'SELL' | 'BUY';
+
+// market: swap transaction, delta: signed order executed by VeloraDEX agents, all: delta with market fallback
+export type SwapMode = 'market' | 'delta' | 'all';
+
 export interface SwapRequest {
   amount: string;
   fromToken: string;
   toToken: string;
   fromAddress: string;
   fromChain: string;
-  mode?: 'market'; // VeloraDEX trading mode - only market supported
-  slippage?: number; // Slippage tolerance as percentage (e.g., 0.5 for 0.5%)
+  toChain?: string; // Destination chain for cross-chain swaps (default fromChain)
+  mode?: SwapMode; // VeloraDEX trading mode (default market, delta for cross-chain swaps)
+  slippage?: number | 'auto'; // Slippage tolerance as percentage (e.g., 0.5 for 0.5%), or auto to pick it from the pair and route depth
+  side?: SwapSideType; // SELL: amount is exact input, BUY: amount is exact output (default SELL)
+  usePermit?: boolean; // Prefer an EIP-2612 permit signature over an approve transaction when supported
+  permitSignature?: string; // Signature of approval.permit.typedData from a previous call
+  permitDeadline?: number; // Deadline (unix seconds) of the signed permit
+  permitNonce?: string; // Nonce of a signed Permit2 permit
+  preflight?: PreflightMode; // Balance and gas checks before building (default warn)
+  simulate?: boolean; // Simulate the approve + swap bundle and report balance changes
+  gasSpeed?: GasSpeed; // EIP-1559 fee tier of the returned transactions (default normal)
+  acceptHighImpact?: boolean; // Build despite price impact or gas cost guardrails, when the server allows overrides
+  acceptUnverifiedGuardrails?: boolean; // Build even when the route has no USD values to check the price impact limit against
+  outputFormat?: OutputFormat; // Also encode the transactions for smart accounts, Safes or bundlers (default transactions)
+  quoteId?: string; // Build the route of a previous quote instead of quoting again
+  strategy?: SwapStrategy; // Which aggregator builds market swaps (default VeloraDEX)
+  receiver?: string; // Address receiving the output (default fromAddress)
+  deadline?: number; // Seconds from now, or an absolute unix timestamp, after which the swap reverts
+  partner?: string; // Partner name reported to VeloraDEX
+  partnerAddress?: string; // Address collecting the partner fee
+  partnerFeeBps?: number; // Partner fee taken from the output, in basis points (requires partnerAddress)
+  positiveSlippageToPartner?: boolean; // Send positive slippage to partnerAddress instead of the receiver
+}
+
+// stable: two stablecoins, major: stablecoins, native and major assets, longTail: anything else
+export type PairClass = 'stable' | 'major' | 'longTail';
+
+// How auto slippage was chosen
+export interface SlippageRecommendation {
+  slippage: number; // Percent
+  pairClass: PairClass;
+  depthImpactBps?: number; // How much worse the full amount prices than a small probe, undefined when the probe failed
+  min: number; // Percent range allowed for the pair class
+  max: number;
+  reason: string;
+}
+
+// default: VeloraDEX, bestPrice: every enabled provider, keeping the highest output after gas
+export type SwapStrategy = 'default' | 'bestPrice';
+
+// How one provider's quote compared under the bestPrice strategy
+export interface ProviderCandidate {
+  provider: string;
+  selected: boolean;
+  srcAmount?: string;
+  destAmount?: string;
+  gasCostUSD?: string;
+  netAmount?: string; // SELL: destAmount minus gas, BUY: srcAmount plus gas, in that token's base units
+  diffBps?: number; // Net amount against the selected provider, negative when worse
+  error?: string; // Quote failed or the provider does not support the request
+}
+
+export interface ProviderSelection {
+  strategy: SwapStrategy;
+  selected: string;
+  candidates: ProviderCandidate[];
 }
 
 export interface Transaction {
@@ -15,11 +74,475 @@ export interface Transaction {
   data?: string;
   gasPrice?: string;
   gasLimit?: string;
+  type?: 'eip1559' | 'legacy';
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: number;
+  preview?: TransactionPreview; // What the transaction does, decoded from its calldata
+}
+
+export interface ContractRef {
+  address: string;
+  label?: string; // Known contract, e.g. Velora AugustusV6.2
+}
+
+export interface PreviewTokenAmount {
+  token: string;
+  symbol?: string;
+  raw: string;
+  formatted?: string; // Only when the token's decimals are known
+}
+
+export type TransactionAction = 'approve' | 'transfer' | 'swap' | 'wrap' | 'unwrap' | 'call';
+
+export interface TransactionPreview {
+  action: TransactionAction;
+  summary: string; // e.g. "Approve 100 USDC to Velora AugustusV6.2 (0x6A00…1068)"
+  contract: ContractRef;
+  functionName?: string;
+  spender?: ContractRef; // approve
+  recipient?: string; // transfer, or a swap paying out to another address
+  amountIn?: PreviewTokenAmount; // Approved, transferred, wrapped or swapped amount
+  amountOut?: PreviewTokenAmount; // Quoted output of a swap
+  minAmountOut?: PreviewTokenAmount; // Exact-input swaps
+  maxAmountIn?: PreviewTokenAmount; // Exact-output swaps
+  deadline?: string; // ISO date after which the swap reverts
+  value?: PreviewTokenAmount; // Native token sent along
+}
+
+// decode-transaction output: the preview plus the raw decoded arguments
+export interface DecodedTransaction extends TransactionPreview {
+  selector?: string;
+  args?: Record<string, unknown>; // Integers as decimal strings
+}
+
+export interface DecodeTransactionRequest {
+  chain: string;
+  to: string;
+  data: string;
+  value?: string; // Wei
+}
+
+// transactions: plain EOA transactions, eip5792: wallet_sendCalls params, safeMultisend: one Safe
+// transaction through MultiSendCallOnly, userOperation: ERC-4337 executeBatch callData
+export type OutputFormat = 'transactions' | 'eip5792' | 'safeMultisend' | 'userOperation';
+
+// EIP-5792 wallet_sendCalls params, values and chain ID as hex
+export interface WalletSendCallsParams {
+  format: 'eip5792';
+  version: '2.0.0';
+  chainId: string;
+  from: string;
+  atomicRequired: boolean;
+  calls: { to: string; data: string; value: string }[];
+}
+
+// Safe transaction delegatecalling MultiSendCallOnly with the packed calls
+export interface SafeMultisendTransaction {
+  format: 'safeMultisend';
+  chainId: number;
+  safeAddress: string;
+  to: string;
+  value: string;
+  data: string;
+  operation: 1; // DELEGATECALL
+}
+
+// Partial ERC-4337 user operation, the bundler fills nonce, gas limits, fees and the signature
+export interface UserOperationCalls {
+  format: 'userOperation';
+  chainId: number;
+  entryPoint: string;
+  sender: string;
+  callData: string;
+}
+
+// One bundle per chain of the returned transactions
+export type FormattedCalls = WalletSendCallsParams | SafeMultisendTransaction | UserOperationCalls;
+
+// Fee tier used to price EIP-1559 transactions from the recent fee history
+export type GasSpeed = 'slow' | 'normal' | 'fast';
+
+// none: native token, existing: allowance already covers the swap,
+// approve: approve transaction, reset-and-approve: approve(0) first for USDT-style tokens,
+// permit: EIP-2612 signature included in the swap instead of an approve transaction
+export type ApprovalStrategy = 'none' | 'existing' | 'approve' | 'reset-and-approve' | 'permit' | 'permit2';
+
+export interface PermitToSign {
+  deadline: number;
+  nonce?: string; // Permit2 only, to send back as permitNonce
+  typedData: {
+    domain: Record<string, any>;
+    types: Record<string, { name: string; type: string }[]>;
+    primaryType: 'Permit' | 'PermitTransferFrom';
+    message: Record<string, any>;
+  };
+}
+
+export interface ApprovalInfo {
+  strategy: ApprovalStrategy;
+  token: string;
+  spender: string;
+  requiredAmount: string;
+  currentAllowance?: string; // Missing when the allowance could not be read
+  permit?: PermitToSign; // Set when the permit still has to be signed
+}
+
+// warn: report issues alongside the transactions, strict: refuse to build, skip: no checks
+export type PreflightMode = 'warn' | 'strict' | 'skip';
+
+export type PreflightIssueCode = 'INSUFFICIENT_BALANCE' | 'INSUFFICIENT_GAS' | 'PREFLIGHT_UNAVAILABLE';
+
+export interface PreflightIssue {
+  code: PreflightIssueCode;
+  message: string;
+  token?: string; // Token address, the native token for gas
+  required?: TokenAmount;
+  available?: TokenAmount;
+  shortfall?: TokenAmount;
+}
+
+export interface PreflightResult {
+  passed: boolean;
+  estimatedGas: string; // Total gas units for the approve + swap bundle
+  gasPrice?: string;
+  estimatedGasCost?: TokenAmount; // In native token
+  issues: PreflightIssue[];
+}
+
+export interface SimulatedTransaction {
+  index: number; // Position in the returned transactions
+  to: string;
+  success: boolean;
+  gasUsed: string;
+  revertReason?: string;
+}
+
+export interface BalanceChange {
+  token: string;
+  before: TokenAmount;
+  after: TokenAmount;
+  change: TokenAmount; // Signed, negative when the balance decreased
+}
+
+export interface SimulationResult {
+  success: boolean; // Every transaction succeeded
+  transactions: SimulatedTransaction[];
+  fromTokenChange?: BalanceChange;
+  toTokenChange?: BalanceChange;
+  expectedDestAmount: TokenAmount; // Quote destAmount
+  minDestAmount: TokenAmount; // Quote destAmount after slippage
+  destAmountDeviationBps?: number; // Simulated received vs quoted destAmount
+  withinSlippage?: boolean; // Simulated received >= minDestAmount
+  error?: string; // Set when the simulation itself could not run
+}
+
+export type SwapTrackStatus = 'pending' | 'success' | 'reverted' | 'not_found';
+
+export interface SwapTrackRequest {
+  txHash: string;
+  chain: string;
+  fromAddress: string; // Wallet that sent the transaction, whose tracked swaps it joins
+  quoteId?: string; // Quote the swap was built from, for the expected output
+  toToken?: string; // Without a quoteId: token the swap should deliver (symbol or address)
+  expectedAmount?: string; // Without a quoteId: quoted output in toToken units
+  receiver?: string; // Address the swap delivered to, when built with a receiver (default the sender)
+  waitSeconds?: number; // How long to poll for the receipt
+}
+
+export interface TokenTransfer {
+  token: string;
+  from: string;
+  to: string;
+  amount: string; // Base units
+}
+
+// A broadcast swap transaction and, once mined, what it actually delivered
+export interface TrackedSwap {
+  txHash: string;
+  chain: string;
+  chainId: number;
+  status: SwapTrackStatus;
+  from?: string; // Sender
+  receiver?: string; // Address whose received amount is measured, when not the sender
+  quoteId?: string;
+  toToken?: TokenInfo;
+  expectedAmount?: TokenAmount; // Quoted output
+  receivedAmount?: TokenAmount; // From the Transfer logs, or the balance change for native tokens
+  realizedSlippageBps?: number; // Quoted vs received, positive when less than quoted was received
+  transfers?: TokenTransfer[]; // ERC-20 transfers into or out of the sender or receiver
+  blockNumber?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  revertReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WalletBalancesRequest {
+  address: string;
+  chains?: string[]; // Chain names (default every mainnet in SUPPORTED_CHAINS)
+}
+
+// One holding, valued at the USDC price of one whole token
+export interface TokenBalance {
+  token: TokenInfo;
+  native?: boolean;
+  balance: TokenAmount;
+  valueUsd?: string; // Undefined when VeloraDEX could not quote the token against USDC
+}
+
+export interface ChainBalances {
+  chain: string;
+  chainId: number;
+  tokens: TokenBalance[]; // Non-zero balances, most valuable first
+  totalUsd: string; // Sum of the valued holdings
+  unpricedCount: number; // Holdings without a USDC quote, left out of totalUsd
+  error?: string; // Set when the balances could not be read on this chain
+}
+
+export interface WalletBalances {
+  address: string;
+  chains: ChainBalances[];
+  totalUsd: string;
+}
+
+// Swap built each time a conditional order triggers
+export type ConditionalSwapParams = Pick<SwapRequest, 'amount' | 'fromToken' | 'toToken' | 'fromAddress' | 'fromChain' | 'mode' | 'slippage' | 'side' | 'receiver' | 'gasSpeed' | 'outputFormat'>;
+
+// USD price of a token, quoted against USDC on the swap's chain
+export interface PriceCondition {
+  token?: string; // Symbol or address (default toToken)
+  below?: number; // Triggers when the price is below this USD value
+  above?: number; // Triggers when the price is above this USD value
+}
+
+export interface ConditionalSwapRequest extends ConditionalSwapParams {
+  condition?: PriceCondition;
+  startAt?: number; // Unix seconds of the first run (default now)
+  intervalSeconds?: number; // Run again every interval, e.g. 86400 for a daily DCA
+  executions?: number; // Runs of a repeating order (default until cancelled or expired)
+  expiresAt?: number; // Unix seconds after which the order stops
+}
+
+// pending: waiting for its time or price, ready: the last run built a swap to sign and more runs follow,
+// done: the last run built a swap to sign and no runs are left, failed: too many runs in a row failed
+export type ConditionalSwapStatus = 'pending' | 'ready' | 'done' | 'failed' | 'cancelled' | 'expired';
+
+export interface ConditionalSwapExecution {
+  triggeredAt: string;
+  priceUsd?: number; // Price that met the condition
+  swap: SwapResponse; // Transactions (or Delta order) to sign
+}
+
+// A stored conditional or scheduled swap, re-checked by the cron trigger
+export interface ConditionalSwapOrder {
+  id: string;
+  owner: string; // Checksummed fromAddress, the only wallet that can list or cancel the order
+  status: ConditionalSwapStatus;
+  swap: ConditionalSwapParams;
+  condition?: { token: TokenInfo; below?: number; above?: number };
+  intervalSeconds?: number;
+  remainingExecutions?: number; // Undefined for repeating orders without a limit
+  nextRunAt?: string; // Unset once the order will not run again
+  expiresAt?: string;
+  lastCheckedAt?: string;
+  lastPriceUsd?: number;
+  lastError?: string; // Why the last run failed
+  failedAttempts?: number; // Consecutive failed runs, each retried later than the one before
+  runningUntil?: string; // Held by a cron run until then
+  executions: ConditionalSwapExecution[]; // Most recent last
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What one cron run did
+export interface ConditionalSwapRunSummary {
+  checked: number;
+  triggered: string[]; // Order ids that built a swap
+  expired: string[];
+  failed: string[];
+}
+
+export interface DeltaOrderToSign {
+  chainId: number;
+  order: Record<string, any>; // Order to send back with the signature
+  typedData: {
+    domain: Record<string, any>;
+    types: Record<string, { name: string; type: string }[]>;
+    primaryType: 'Order';
+    message: Record<string, any>;
+  };
+}
+
+export interface DeltaOrderStatus {
+  orderId: string;
+  status: string;
+  order?: Record<string, any>;
+  bridgeStatus?: string; // Cross-chain only: pending, filled, expired or refunded
+}
+
+export interface CrossChainInfo {
+  fromChainId: number;
+  toChainId: number;
+  bridgeProtocol?: string; // Bridge picked by VeloraDEX (e.g. Across)
+  destAmountAfterBridge?: TokenAmount; // Expected amount on the destination chain after bridge fees
+  bridgeFees?: { feeToken: string; amount: string; amountInUSD: string }[];
+  // Tracking handle: the EIP-712 hash of the order, known before it is signed or submitted
+  orderHash: string;
+}
+
+export type SwapErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_ADDRESS'
+  | 'UNSUPPORTED_CHAIN'
+  | 'UNKNOWN_TOKEN'
+  | 'QUOTE_EXPIRED'
+  | 'NO_ROUTE'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'PRICE_IMPACT_TOO_HIGH'
+  | 'GAS_COST_TOO_HIGH'
+  | 'NOTIONAL_TOO_HIGH'
+  | 'GUARDRAIL_UNVERIFIABLE'
+  | 'PREFLIGHT_FAILED'
+  | 'UPSTREAM_RATE_LIMIT'
+  | 'UPSTREAM_ERROR'
+  | 'ORDER_NOT_FOUND'
+  | 'INTERNAL_ERROR';
+
+// Machine-readable error returned by the MCP tools
+export interface SwapErrorPayload {
+  code: SwapErrorCode;
+  message: string;
+  field?: string; // Request field that failed, e.g. amount or fromToken
+  retryable: boolean; // Whether the same request may succeed later
+  details?: Record<string, any>;
+}
+
+export interface GuardrailPolicy {
+  maxPriceImpactPercent?: number;
+  maxGasToTradePercent?: number; // Gas cost in USD as a percentage of the traded value
+  maxNotionalUsd?: number;
+  allowOverride: boolean; // Whether acceptHighImpact may bypass the price impact and gas cost limits
+}
+
+export interface GuardrailViolation {
+  code: 'PRICE_IMPACT_TOO_HIGH' | 'GAS_COST_TOO_HIGH' | 'NOTIONAL_TOO_HIGH';
+  message: string;
+  value: number;
+  limit: number;
+}
+
+export interface GuardrailResult {
+  passed: boolean;
+  priceImpactPercent?: number; // Undefined when VeloraDEX has no USD price for a token
+  gasToTradePercent?: number;
+  notionalUsd?: number;
+  overridden: boolean; // Violations were accepted through acceptHighImpact
+  violations: GuardrailViolation[];
+  unverified?: string[]; // Limits skipped through acceptUnverifiedGuardrails because the route has no USD values
 }
 
 export interface SwapResponse {
   transactions: Transaction[];
   quote?: any;
+  mode?: Exclude<SwapMode, 'all'> | 'wrap'; // Mode actually used to build the response, wrap for native <-> wrapped native
+  deltaOrder?: DeltaOrderToSign; // Delta only: EIP-712 order to sign and submit
+  crossChain?: CrossChainInfo; // Only when toChain differs from fromChain
+  approval?: ApprovalInfo;
+  preflight?: PreflightResult;
+  simulation?: SimulationResult;
+  guardrails?: GuardrailResult;
+  side?: SwapSideType;
+  maxAmountIn?: TokenAmount; // BUY only: most of the source token that can be spent after slippage
+  formatted?: FormattedCalls[]; // Unless outputFormat is transactions
+  quoteId?: string; // Quote the route was built from
+  provider?: ProviderSelection; // bestPrice only: winning provider and how the others compared
+  deadline?: number; // Unix seconds after which the swap reverts, when a deadline was requested
+  autoSlippage?: SlippageRecommendation; // Only with slippage auto
+}
+
+// One swap of a batch, the wallet and the batch-wide options live on SwapBatchRequest
+export type SwapBatchLeg = Pick<SwapRequest, 'amount' | 'fromToken' | 'toToken' | 'fromChain' | 'toChain' | 'mode' | 'slippage' | 'side' | 'acceptHighImpact' | 'acceptUnverifiedGuardrails'>;
+
+export interface SwapBatchRequest {
+  fromAddress: string;
+  swaps: SwapBatchLeg[];
+  preflight?: PreflightMode; // Checked per chain and source token, over the summed amounts
+  gasSpeed?: GasSpeed;
+  outputFormat?: OutputFormat;
+}
+
+export interface SwapBatchLegResult {
+  index: number; // Position in the requested swaps
+  fromChain: string;
+  mode: 'market' | 'wrap';
+  side: SwapSideType;
+  quote: any;
+  guardrails?: GuardrailResult;
+  transactionIndex: number; // Position of the leg's swap in the batch transactions
+  maxAmountIn?: TokenAmount; // BUY only
+  autoSlippage?: SlippageRecommendation; // Only with slippage auto
+}
+
+export interface SwapBatchPreflight {
+  chain: string;
+  token: string; // Source token address the result covers
+  result: PreflightResult;
+}
+
+export interface SwapBatchResponse {
+  transactions: Transaction[]; // Per chain: merged approvals first, then the swaps in request order
+  legs: SwapBatchLegResult[];
+  approvals: ApprovalInfo[]; // One per chain and source token, covering every leg spending it
+  preflight?: SwapBatchPreflight[];
+  formatted?: FormattedCalls[]; // Unless outputFormat is transactions
+}
+
+export interface TokenAmount {
+  raw: string; // Amount in base units (wei equivalent)
+  formatted: string; // Amount in token units (e.g. "1.5")
+}
+
+export interface SwapQuoteSummary {
+  chainId: number;
+  side: SwapSideType;
+  fromToken: TokenInfo;
+  toToken: TokenInfo;
+  srcAmount: TokenAmount;
+  destAmount: TokenAmount;
+  rate: string; // toToken received per 1 fromToken
+  srcUSD?: string;
+  destUSD?: string;
+  gasCost?: string; // Gas units estimated by VeloraDEX
+  gasCostUSD?: string;
+  priceImpactPercent?: number; // Value lost between srcUSD and destUSD
+  gasToTradePercent?: number; // gasCostUSD as a percentage of srcUSD
+  exchanges: string[]; // Exchanges used by the route
+  slippage: number; // Slippage tolerance as percentage
+  minAmountReceived: TokenAmount;
+  maxAmountSpent?: TokenAmount; // BUY only
+  quoteId?: string; // Pass to build-swap-transactions to build this exact route
+  quoteExpiresAt?: string; // ISO timestamp after which quoteId is no longer accepted
+  autoSlippage?: SlippageRecommendation; // Only with slippage auto
+}
+
+// Quote kept for reuse by identical requests and for building by quoteId
+export interface CachedQuote {
+  quoteId: string;
+  key: string; // Chain, tokens, amount, side and mode the quote was made for
+  quote: any;
+  createdAt: number; // Unix milliseconds
+  reuseUntil: number; // Served to identical requests until then
+  expiresAt: number; // Accepted as quoteId until then
+}
+
+export interface QuoteCacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number; // Requests that joined an identical quote already in flight
+  hitRate: number;
 }
 
 export interface ApiResponse<T = any> {
@@ -32,6 +555,10 @@ export interface ChainInfo {
   id: number;
   name: string;
   rpcUrl?: string;
+  nativeSymbol: string; // Gas token symbol, swapped through the 0xEeee... sentinel
+  nativeSymbolAliases?: string[]; // Former or alternative symbols, e.g. MATIC for POL
+  wrappedNative: string; // WETH9-style wrapper of the gas token
+  testnet?: boolean; // Left out when a tool reads every chain by default, e.g. wallet balances
 }
 
 export interface TokenInfo {
@@ -40,48 +567,39 @@ export interface TokenInfo {
   decimals: number;
 }
 
+// Uniswap token list format (https://tokenlists.org)
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  tokens: TokenListToken[];
+}
+
+export interface TokenSearchResult extends TokenListToken {
+  chain: string; // SUPPORTED_CHAINS key, e.g. ARBITRUM
+  source: string; // Name of the token list the entry came from
+}
+
 // Chain mappings similar to the original helpers
 export const SUPPORTED_CHAINS: Record<string, ChainInfo> = {
-  'ETHEREUM': { id: 1, name: 'Ethereum' },
-  'ARBITRUM': { id: 42161, name: 'Arbitrum One' },
-  'OPTIMISM': { id: 10, name: 'Optimism' },
-  'BASE': { id: 8453, name: 'Base' },
-  'POLYGON': { id: 137, name: 'Polygon' },
-  'AVALANCHE': { id: 43114, name: 'Avalanche' },
-  'SEPOLIA': { id: 11155111, name: 'Sepolia' },
-  'ARBITRUM_SEPOLIA': { id: 421614, name: 'Arbitrum Sepolia' },
-  'BASE_SEPOLIA': { id: 84532, name: 'Base Sepolia' },
-  'OPTIMISM_SEPOLIA': { id: 11155420, name: 'Optimism Sepolia' },
-};
-
-// Common token addresses for different chains
-export const TOKEN_ADDRESSES: Record<string, Record<string, string>> = {
-  '1': { // Ethereum
-    'USDC': '0xA0b86a33E6441031aAd3f2bEDf49EC5Bc2f42E45',
-    'USDT': '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    'DAI': '0x6B175474E89094C44Da98b954EedeAC495271d0F',
-  },
-  '42161': { // Arbitrum
-    'USDC': '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
-    'USDT': '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
-    'DAI': '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-  },
-  '10': { // Optimism
-    'USDC': '0x7F5c764cBc14f9669B88837ca1490cCa17c31607',
-    'USDT': '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
-    'DAI': '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-  },
-  '8453': { // Base
-    'USDC': '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-  },
-  '137': { // Polygon
-    'USDC': '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-    'USDT': '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
-    'DAI': '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
-  },
-  '43114': { // Avalanche
-    'USDC': '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
-    'USDT': '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7',
-    'DAI': '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70',
-  }
+  'ETHEREUM': { id: 1, name: 'Ethereum', rpcUrl: 'https://ethereum-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' },
+  'ARBITRUM': { id: 42161, name: 'Arbitrum One', rpcUrl: 'https://arbitrum-one-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' },
+  'OPTIMISM': { id: 10, name: 'Optimism', rpcUrl: 'https://optimism-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x4200000000000000000000000000000000000006' },
+  'BASE': { id: 8453, name: 'Base', rpcUrl: 'https://base-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x4200000000000000000000000000000000000006' },
+  'POLYGON': { id: 137, name: 'Polygon', rpcUrl: 'https://polygon-bor-rpc.publicnode.com', nativeSymbol: 'POL', nativeSymbolAliases: ['MATIC'], wrappedNative: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270' },
+  'AVALANCHE': { id: 43114, name: 'Avalanche', rpcUrl: 'https://avalanche-c-chain-rpc.publicnode.com', nativeSymbol: 'AVAX', wrappedNative: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7' },
+  'SEPOLIA': { id: 11155111, name: 'Sepolia', rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14', testnet: true },
+  'ARBITRUM_SEPOLIA': { id: 421614, name: 'Arbitrum Sepolia', rpcUrl: 'https://arbitrum-sepolia-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73', testnet: true },
+  'BASE_SEPOLIA': { id: 84532, name: 'Base Sepolia', rpcUrl: 'https://base-sepolia-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x4200000000000000000000000000000000000006', testnet: true },
+  'OPTIMISM_SEPOLIA': { id: 11155420, name: 'Optimism Sepolia', rpcUrl: 'https://optimism-sepolia-rpc.publicnode.com', nativeSymbol: 'ETH', wrappedNative: '0x4200000000000000000000000000000000000006', testnet: true },
 };
@@ -0,0 +1,169 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import axios, { AxiosError, AxiosHeaders, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import { constructSimpleSDK } from '@velora-dex/sdk';
+import { VeloraHttpClient, type VeloraClientOptions } from './services/veloraHttpClient';
+import { fromVeloraError } from './utils/errors';
+
+const SPENDER = '0x216B4B4Ba9F3e719726886d34a177484278Bfcae';
+
+type FakeReply = { status: number; data?: unknown; headers?: Record<string, string> } | 'timeout' | 'network';
+
+/**
+ * axios adapter answering each request with the next scripted reply, recording the requests it saw
+ */
+function fakeAdapter(replies: FakeReply[]) {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter: AxiosAdapter = async config => {
+    requests.push(config);
+    const reply = replies.shift() ?? { status: 200, data: {} };
+
+    if (reply === 'timeout') {
+      throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+    }
+    if (reply === 'network') {
+      throw new AxiosError('socket hang up', AxiosError.ERR_NETWORK, config);
+    }
+
+    const response = {
+      status: reply.status,
+      statusText: String(reply.status),
+      data: reply.data ?? {},
+      headers: new AxiosHeaders(reply.headers ?? {}),
+      config
+    };
+    if (reply.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${reply.status}`, AxiosError.ERR_BAD_RESPONSE, config, undefined, response);
+    }
+    return response;
+  };
+
+  return { adapter, requests };
+}
+
+function buildClient(replies: FakeReply[], options: Partial<VeloraClientOptions> = {}) {
+  const { adapter, requests } = fakeAdapter(replies);
+  const sleep = vi.fn(async (_ms: number) => {});
+  const client = new VeloraHttpClient(axios.create({ adapter }), { sleep, random: () => 0.5, ...options });
+
+  return { client, requests, sleep };
+}
+
+const get = { method: 'GET', url: 'https://api.velora.xyz/quote' } as const;
+const post = { method: 'POST', url: 'https://api.velora.xyz/transactions/1', data: {} } as const;
+
+describe('VeloraDEX HTTP client', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should retry idempotent calls on 5xx with jittered exponential backoff', async () => {
+    const { client, requests, sleep } = buildClient([{ status: 502 }, { status: 503 }, { status: 200, data: { ok: true } }]);
+
+    const response = await client.request(get);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(requests).toHaveLength(3);
+    expect(sleep.mock.calls).toEqual([[125], [250]]); // Half of 250ms, then half of 500ms
+  });
+
+  test('should wait for Retry-After on 429', async () => {
+    const { client, requests, sleep } = buildClient([{ status: 429, headers: { 'retry-after': '2' } }, { status: 200 }]);
+
+    await client.request(get);
+
+    expect(requests).toHaveLength(2);
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+
+  test('should surface a 429 right away when Retry-After is longer than worth waiting', async () => {
+    const { client, requests, sleep } = buildClient([{ status: 429, headers: { 'retry-after': '60' } }]);
+
+    const error = await client.request(get).catch(error => error);
+
+    expect(requests).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(fromVeloraError(error)).toMatchObject({ code: 'UPSTREAM_RATE_LIMIT', retryable: true, details: { retryAfterSeconds: 60 } });
+  });
+
+  test('should set a per-call timeout and retry timeouts up to the limit', async () => {
+    const { client, requests } = buildClient(['timeout', 'network', 'timeout'], { timeoutMs: 1500 });
+
+    await expect(client.request(get)).rejects.toMatchObject({ code: AxiosError.ECONNABORTED });
+    expect(requests).toHaveLength(3); // First attempt and 2 retries
+    expect(requests.every(request => request.timeout === 1500)).toBe(true);
+  });
+
+  test('should never retry POST calls', async () => {
+    const { client, requests } = buildClient([{ status: 503 }, { status: 200 }]);
+
+    await expect(client.request(post)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(requests).toHaveLength(1);
+  });
+
+  test('should not retry client errors or count them as failures', async () => {
+    const { client, requests } = buildClient([{ status: 400, data: { error: 'No routes found' } }, { status: 400 }], { failureThreshold: 1 });
+
+    await expect(client.request(get)).rejects.toMatchObject({ response: { status: 400 } });
+    await expect(client.request(get)).rejects.toMatchObject({ response: { status: 400 } });
+    expect(requests).toHaveLength(2);
+  });
+
+  test('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { client, requests } = buildClient(
+      [{ status: 500 }, { status: 500 }, { status: 500 }, { status: 200 }, { status: 200 }],
+      { failureThreshold: 3, cooldownMs: 30_000 }
+    );
+
+    await expect(client.request(get)).rejects.toMatchObject({ response: { status: 500 } });
+    expect(requests).toHaveLength(3);
+
+    // Open: fail fast without calling VeloraDEX
+    await expect(client.request(get)).rejects.toMatchObject({
+      code: 'UPSTREAM_ERROR',
+      retryable: true,
+      details: { retryAfterSeconds: 30 },
+    });
+    expect(requests).toHaveLength(3);
+
+    vi.advanceTimersByTime(30_000);
+    await expect(client.request(get)).resolves.toMatchObject({ status: 200 });
+    await expect(client.request(get)).resolves.toMatchObject({ status: 200 });
+    expect(requests).toHaveLength(5);
+  });
+
+  test('should let a single trial call through once the cooldown has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { client, requests } = buildClient(
+      [{ status: 500 }, { status: 500 }, { status: 200 }, { status: 200 }],
+      { failureThreshold: 1, cooldownMs: 30_000, maxRetries: 0 }
+    );
+
+    await expect(client.request(get)).rejects.toMatchObject({ response: { status: 500 } });
+
+    // Half-open: the trial fails and re-opens the circuit, the concurrent call never reaches VeloraDEX
+    vi.advanceTimersByTime(30_000);
+    const [trial, concurrent] = await Promise.allSettled([client.request(get), client.request(get)]);
+    expect(trial).toMatchObject({ status: 'rejected', reason: { response: { status: 500 } } });
+    expect(concurrent).toMatchObject({ status: 'rejected', reason: { code: 'UPSTREAM_ERROR', message: expect.stringContaining('a trial call is checking') } });
+    expect(requests).toHaveLength(2);
+    await expect(client.request(get)).rejects.toMatchObject({ details: { retryAfterSeconds: 30 } });
+
+    // A successful trial closes the circuit for everyone
+    vi.advanceTimersByTime(30_000);
+    const [closing, waiting] = await Promise.allSettled([client.request(get), client.request(get)]);
+    expect(closing).toMatchObject({ status: 'fulfilled', value: { status: 200 } });
+    expect(waiting.status).toBe('rejected');
+    await expect(client.request(get)).resolves.toMatchObject({ status: 200 });
+    expect(requests).toHaveLength(4);
+  });
+
+  test('should retry the SDK spender lookup through the client', async () => {
+    const { client, requests } = buildClient([{ status: 503 }, { status: 200, data: { TokenTransferProxy: SPENDER } }]);
+    const sdk = constructSimpleSDK({ chainId: 1, apiURL: 'https://api.velora.xyz', axios: client });
+
+    await expect(sdk.swap.getSpender()).resolves.toBe(SPENDER);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].url).toContain('/adapters/contracts');
+  });
+});
@@ -31,5 +31,200 @@ export const ERC20_ABI = [
     outputs: [{ name: 'balance', type: 'uint256' }],
     type: 'function'
   },
+  {
+    constant: true,
+    inputs: [
+      { name: '_owner', type: 'address' },
+      { name: '_spender', type: 'address' }
+    ],
+    name: 'allowance',
+    outputs: [{ name: '', type: 'uint256' }],
+    type: 'function'
+  },
   ...APPROVE_ABI
 ];
+
+export const TRANSFER_EVENT_ABI = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false }
+    ]
+  }
+] as const;
+
+// EIP-2612 permit metadata used to build permit signature payloads
+export const PERMIT_ABI = [
+  {
+    constant: true,
+    inputs: [],
+    name: 'name',
+    outputs: [{ name: '', type: 'string' }],
+    type: 'function'
+  },
+  {
+    constant: true,
+    inputs: [],
+    name: 'version',
+    outputs: [{ name: '', type: 'string' }],
+    type: 'function'
+  },
+  {
+    constant: true,
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ name: '', type: 'bytes32' }],
+    type: 'function'
+  },
+  {
+    constant: true,
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', type: 'uint256' }],
+    type: 'function'
+  }
+];
+
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  {
+    inputs: [{ name: 'addr', type: 'address' }],
+    name: 'getEthBalance',
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+];
+
+// WETH9-style wrapped native token (WETH, WPOL, WAVAX)
+export const WRAPPED_NATIVE_ABI = [
+  {
+    name: 'deposit',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [],
+    outputs: []
+  },
+  {
+    name: 'withdraw',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'wad', type: 'uint256' }],
+    outputs: []
+  }
+];
+
+// Safe MultiSendCallOnly v1.3.0, executed by the Safe through DELEGATECALL
+export const MULTISEND_CALL_ONLY_ADDRESS = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+
+export const MULTISEND_ABI = [
+  {
+    name: 'multiSend',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [{ name: 'transactions', type: 'bytes' }],
+    outputs: []
+  }
+];
+
+// ERC-4337 EntryPoint v0.7
+export const ENTRY_POINT_V07_ADDRESS = '0x0000000071727De22E5E9d8BAF0edAc6f37da032';
+
+// executeBatch of SimpleAccount-compatible smart accounts
+export const SMART_ACCOUNT_ABI = [
+  {
+    name: 'executeBatch',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'dest', type: 'address[]' },
+      { name: 'value', type: 'uint256[]' },
+      { name: 'func', type: 'bytes[]' }
+    ],
+    outputs: []
+  }
+];
+
+export const ERC20_TRANSFER_ABI = [
+  {
+    name: 'transfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    name: 'transferFrom',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+];
+
+// VeloraDEX AugustusV6.2, the router (and spender) of market swaps on every supported chain
+export const AUGUSTUS_V6_ADDRESS = '0x6A000F20005980200259B80c5102003040001068';
+
+// Uniswap Permit2, which VeloraDEX can pull tokens through with a signature on every supported chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// 0x AllowanceHolder, the spender of the 0x allowance-holder flow on every supported chain
+export const ZEROEX_ALLOWANCE_HOLDER = '0x0000000000001fF3684f28c67538d4D072C22734';
+
+// Leading fields shared by the swap data of every AugustusV6 entry point
+const AUGUSTUS_V6_SWAP_FIELDS = [
+  { name: 'srcToken', type: 'address' },
+  { name: 'destToken', type: 'address' },
+  { name: 'fromAmount', type: 'uint256' }, // Exact input, or the maximum input for exact-output swaps
+  { name: 'toAmount', type: 'uint256' }, // Minimum output, or the exact output for exact-output swaps
+  { name: 'quotedAmount', type: 'uint256' },
+  { name: 'metadata', type: 'bytes32' },
+  { name: 'beneficiary', type: 'address' }
+];
+
+const augustusV6GenericSwap = (name: string) => ({
+  name,
+  type: 'function',
+  stateMutability: 'payable',
+  inputs: [
+    { name: 'executor', type: 'address' },
+    { name: 'swapData', type: 'tuple', components: AUGUSTUS_V6_SWAP_FIELDS },
+    { name: 'partnerAndFee', type: 'uint256' },
+    { name: 'permit', type: 'bytes' },
+    { name: 'executorData', type: 'bytes' }
+  ],
+  outputs: []
+});
+
+const augustusV6UniswapSwap = (name: string) => ({
+  name,
+  type: 'function',
+  stateMutability: 'payable',
+  inputs: [
+    { name: 'uniData', type: 'tuple', components: [...AUGUSTUS_V6_SWAP_FIELDS, { name: 'pools', type: 'bytes' }] },
+    { name: 'partnerAndFee', type: 'uint256' },
+    { name: 'permit', type: 'bytes' }
+  ],
+  outputs: []
+});
+
+export const AUGUSTUS_V6_ABI = [
+  augustusV6GenericSwap('swapExactAmountIn'),
+  augustusV6GenericSwap('swapExactAmountOut'),
+  augustusV6UniswapSwap('swapExactAmountInOnUniswapV2'),
+  augustusV6UniswapSwap('swapExactAmountOutOnUniswapV2'),
+  augustusV6UniswapSwap('swapExactAmountInOnUniswapV3'),
+  augustusV6UniswapSwap('swapExactAmountOutOnUniswapV3')
+];
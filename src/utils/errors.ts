@@ -0,0 +1,143 @@
+import { isAxiosError } from 'axios';
+import type { SwapErrorCode, SwapErrorPayload } from '../types/index.js';
+
+export interface SwapErrorOptions {
+  field?: string;
+  retryable?: boolean;
+  details?: Record<string, any>;
+  cause?: unknown;
+}
+
+/**
+ * Base error of the swap tools, carrying a stable code agents can branch on
+ */
+export class SwapError extends Error {
+  readonly code: SwapErrorCode;
+  readonly field?: string;
+  readonly retryable: boolean;
+  readonly details?: Record<string, any>;
+
+  constructor(code: SwapErrorCode, message: string, options: SwapErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'SwapError';
+    this.code = code;
+    this.field = options.field;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+  }
+
+  toPayload(): SwapErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.field && { field: this.field }),
+      retryable: this.retryable,
+      ...(this.details && { details: this.details })
+    };
+  }
+}
+
+/**
+ * The request itself is wrong, retrying it unchanged will fail again
+ */
+export class ValidationError extends SwapError {
+  constructor(code: SwapErrorCode, message: string, field?: string, details?: Record<string, any>) {
+    super(code, message, { field, details });
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * VeloraDEX could not price or route the swap
+ */
+export class RouteError extends SwapError {
+  constructor(code: SwapErrorCode, message: string, options: SwapErrorOptions = {}) {
+    super(code, message, options);
+    this.name = 'RouteError';
+  }
+}
+
+/**
+ * VeloraDEX or an RPC failed or throttled the request
+ */
+export class UpstreamError extends SwapError {
+  constructor(code: SwapErrorCode, message: string, options: SwapErrorOptions = {}) {
+    super(code, message, { retryable: true, ...options });
+    this.name = 'UpstreamError';
+  }
+}
+
+// VeloraDEX API error messages, matched case-insensitively, most specific first
+const VELORA_ERROR_CODES: [RegExp, SwapErrorCode][] = [
+  [/ESTIMATED_LOSS_GREATER_THAN_MAX_IMPACT|price impact/i, 'PRICE_IMPACT_TOO_HIGH'],
+  [/enough liquidity|insufficient liquidity/i, 'INSUFFICIENT_LIQUIDITY'],
+  [/no routes? found|no route/i, 'NO_ROUTE'],
+  [/token not found|invalid tokens?/i, 'UNKNOWN_TOKEN'],
+];
+
+/**
+ * Map an error thrown while calling VeloraDEX into a SwapError, keeping the API message
+ */
+export function fromVeloraError(error: unknown): unknown {
+  if (error instanceof SwapError || !isAxiosError(error)) {
+    return error;
+  }
+
+  if (!error.response) {
+    return new UpstreamError('UPSTREAM_ERROR', `VeloraDEX API unreachable: ${error.message}`, { cause: error });
+  }
+
+  console.error("VeloraDEX API Error Data:", error.response.data);
+  const { status, data, headers } = error.response;
+  const message = data?.message || data?.error || 'VeloraDEX API request failed';
+
+  if (status === 429) {
+    const retryAfter = Number(headers?.['retry-after']);
+    return new UpstreamError('UPSTREAM_RATE_LIMIT', message, {
+      cause: error,
+      ...(Number.isFinite(retryAfter) && { details: { retryAfterSeconds: retryAfter } })
+    });
+  }
+
+  const code = VELORA_ERROR_CODES.find(([pattern]) => pattern.test(message))?.[1];
+  if (code === 'UNKNOWN_TOKEN') {
+    return new ValidationError(code, message);
+  }
+  if (code) {
+    return new RouteError(code, message, { cause: error });
+  }
+
+  return new UpstreamError('UPSTREAM_ERROR', message, { cause: error, retryable: status >= 500 });
+}
+
+/**
+ * Point an error raised while building one swap of a batch at that swap (field swaps[2].amount etc.)
+ */
+export function toBatchLegError(error: unknown, index: number): unknown {
+  const swapError = fromVeloraError(error);
+  if (!(swapError instanceof SwapError)) {
+    return swapError;
+  }
+
+  return new SwapError(swapError.code, `swaps[${index}]: ${swapError.message}`, {
+    field: swapError.field ? `swaps[${index}].${swapError.field}` : `swaps[${index}]`,
+    retryable: swapError.retryable,
+    details: { ...swapError.details, swapIndex: index },
+    cause: swapError
+  });
+}
+
+/**
+ * Convert any thrown value into the payload returned by the MCP tools
+ */
+export function toErrorPayload(error: unknown): SwapErrorPayload {
+  if (error instanceof SwapError) {
+    return error.toPayload();
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    retryable: false
+  };
+}
@@ -1,5 +1,8 @@
-import { parseUnits } from 'viem';
-import { SUPPORTED_CHAINS } from '../types/index.js';
+import { isAddress, parseUnits, zeroAddress } from 'viem';
+import { SUPPORTED_CHAINS, type SwapBatchLeg, type SwapErrorCode, type SwapRequest } from '../types/index.js';
+import { ValidationError } from './errors.js';
+import { MAX_SLIPPAGE_BPS, MIN_SLIPPAGE_BPS, isValidSlippage } from './quote.js';
+import { getTokenRegistry } from './tokenRegistry.js';
 import {
   getChainId as getChainIdFromUtils,
   getTokenAddress as getTokenAddressFromUtils,
@@ -20,60 +23,6 @@ const CHAIN_NAME_MAPPING: Record<string, string> = {
   'OPTIMISM_SEPOLIA': 'optimism-sepolia',
 };
 
-// Fallback token addresses for testnets not fully supported by @chrom-ar/utils
-const FALLBACK_TOKEN_ADDRESSES: Record<string, Record<string, string>> = {
-  'ethereum': {
-    'USDC': '0xA0b86a33E6441031aAd3f2bEDf49EC5Bc2f42E45',
-    'DAI': '0x6B175474E89094C44Da98b954EedeAC495271d0F',
-    'USDT': '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    'ETH': '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
-    'SRC': '0xSRC_TOKEN_ADDRESS', // Test token for tests
-    'DEST': '0xDEST_TOKEN_ADDRESS', // Test token for tests
-  },
-  'arbitrum-sepolia': {
-    'USDC': '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
-    'USDT': '0x8b6a2D4Db73bA8A9fFD9b7D38A0D4D6A3e0fcAAD',
-  },
-  'optimism-sepolia': {
-    'USDC': '0x5fd84259d66Cd46123540766Be93DFE6D43130D7',
-    'USDT': '0x82a9d4A8Ce4B8C0bd8A2C60E8a8b6cD9e4D99e5F',
-  },
-  'base-sepolia': {
-    'USDC': '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
-  },
-  'sepolia': {
-    'USDC': '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
-    'USDT': '0xaA8E23Fb1079EA71e0a56F48a2aA51851D8433D0',
-  }
-};
-
-// Fallback token decimals for testnets
-const FALLBACK_TOKEN_DECIMALS: Record<string, Record<string, number>> = {
-  'ethereum': {
-    'USDC': 6,
-    'DAI': 18,
-    'USDT': 6,
-    'ETH': 18,
-    'SRC': 18, // Test token for tests
-    'DEST': 18, // Test token for tests
-  },
-  'arbitrum-sepolia': {
-    'USDC': 6,
-    'USDT': 6,
-  },
-  'optimism-sepolia': {
-    'USDC': 6,
-    'USDT': 6,
-  },
-  'base-sepolia': {
-    'USDC': 6,
-  },
-  'sepolia': {
-    'USDC': 6,
-    'USDT': 6,
-  }
-};
-
 /**
  * Get chain ID from chain name using @chrom-ar/utils with fallback to SUPPORTED_CHAINS
  */
@@ -92,64 +41,113 @@ export function getChainIdForNetwork(chainName: string): number {
     }
 
     // Rethrow the error if we can't find it anywhere
-    throw new Error(`Unsupported chain: ${chainName}`);
+    throw new ValidationError('UNSUPPORTED_CHAIN', `Unsupported chain: ${chainName}`);
+  }
+}
+
+/**
+ * Map alternative native symbols to the chain's current one (e.g. MATIC to POL on Polygon)
+ */
+export function normalizeNativeSymbol(chainName: string, tokenSymbol: string): string {
+  const chain = SUPPORTED_CHAINS[chainName.toUpperCase()];
+  const normalizedSymbol = tokenSymbol.toUpperCase();
+
+  return chain?.nativeSymbolAliases?.includes(normalizedSymbol) ? chain.nativeSymbol : tokenSymbol;
+}
+
+/**
+ * Get the wrapped native token (WETH, WPOL, WAVAX...) of a chain
+ */
+export function getWrappedNativeAddress(chainName: string): string | undefined {
+  return SUPPORTED_CHAINS[chainName.toUpperCase()]?.wrappedNative;
+}
+
+/**
+ * Native <-> wrapped native pairs are a 1:1 deposit or withdraw on the wrapper contract:
+ * 'wrap' for native to wrapped, 'unwrap' for wrapped to native, undefined for any other pair
+ */
+export function getWrapDirection(chainName: string, fromTokenAddress: string, toTokenAddress: string): 'wrap' | 'unwrap' | undefined {
+  const wrappedNative = getWrappedNativeAddress(chainName)?.toLowerCase();
+  if (!wrappedNative) {
+    return undefined;
+  }
+
+  if (isNativeToken(fromTokenAddress) && toTokenAddress.toLowerCase() === wrappedNative) {
+    return 'wrap';
+  }
+  if (fromTokenAddress.toLowerCase() === wrappedNative && isNativeToken(toTokenAddress)) {
+    return 'unwrap';
+  }
+
+  return undefined;
+}
+
+/**
+ * Find a token by symbol in the token registry, undefined for chains it does not know
+ */
+function findRegistryToken(chainName: string, tokenSymbol: string) {
+  let chainId: number;
+  try {
+    chainId = getChainIdForNetwork(chainName);
+  } catch (error) {
+    return undefined;
   }
+
+  return getTokenRegistry().findBySymbol(chainId, normalizeNativeSymbol(chainName, tokenSymbol));
 }
 
 /**
- * Get token address for a specific chain and token using @chrom-ar/utils with fallbacks
+ * Get token address for a specific chain and token from the token registry, falling back to @chrom-ar/utils
  */
 export function getTokenAddressForChain(chainName: string, tokenSymbol: string): string {
+  // Raw contract addresses are passed through; their metadata is resolved on-chain
+  if (isValidAddress(tokenSymbol)) {
+    return tokenSymbol;
+  }
+
+  const registryToken = findRegistryToken(chainName, tokenSymbol);
+  if (registryToken) {
+    return registryToken.address;
+  }
+
   // Convert chain name to the format expected by @chrom-ar/utils
   const normalizedChainName = CHAIN_NAME_MAPPING[chainName.toUpperCase()] || chainName.toLowerCase();
 
-  // Try @chrom-ar/utils first
   let tokenAddress: string | null = null;
   try {
-    tokenAddress = getTokenAddressFromUtils(normalizedChainName, tokenSymbol.toUpperCase());
-    // If getTokenAddressFromUtils returns null, we should use fallback
+    tokenAddress = getTokenAddressFromUtils(normalizedChainName, normalizeNativeSymbol(chainName, tokenSymbol).toUpperCase());
   } catch (error) {
-    // @chrom-ar/utils doesn't support this chain/token, use fallback
-  }
-
-  // Fallback for unsupported chains/tokens or when @chrom-ar/utils returns null
-  if (!tokenAddress && FALLBACK_TOKEN_ADDRESSES[normalizedChainName]) {
-    tokenAddress = FALLBACK_TOKEN_ADDRESSES[normalizedChainName][tokenSymbol.toUpperCase()];
+    // @chrom-ar/utils doesn't support this chain/token
   }
 
   if (!tokenAddress) {
-    throw new Error(`Token ${tokenSymbol} not found on chain ${chainName}`);
+    throw new ValidationError('UNKNOWN_TOKEN', `Token ${tokenSymbol} not found on chain ${chainName}`);
   }
 
   return tokenAddress;
 }
 
 /**
- * Get token decimals using @chrom-ar/utils with fallbacks
+ * Get token decimals from the token registry, falling back to @chrom-ar/utils, throwing when neither knows them
  */
 export function getTokenDecimalsForChain(chainName: string, tokenSymbol: string): number {
-  // Get decimals from @chrom-ar/utils
+  const registryToken = findRegistryToken(chainName, tokenSymbol);
+  if (registryToken) {
+    return registryToken.decimals;
+  }
+
   const normalizedChainName = CHAIN_NAME_MAPPING[chainName.toUpperCase()] || chainName.toLowerCase();
   let decimals: number | null = null;
 
   try {
-    decimals = getTokenDecimalsFromUtils(normalizedChainName, tokenSymbol.toUpperCase());
-    // If getTokenDecimalsFromUtils returns null, we should use fallback
+    decimals = getTokenDecimalsFromUtils(normalizedChainName, normalizeNativeSymbol(chainName, tokenSymbol).toUpperCase());
   } catch (error) {
-    // @chrom-ar/utils doesn't support this chain, use fallback
-  }
-
-  // Fallback for unsupported chains/tokens or when @chrom-ar/utils returns null
-  if ((decimals === null || decimals === undefined) && FALLBACK_TOKEN_DECIMALS[normalizedChainName]) {
-    decimals = FALLBACK_TOKEN_DECIMALS[normalizedChainName][tokenSymbol.toUpperCase()];
+    // @chrom-ar/utils doesn't support this chain
   }
 
+  // Guessing would scale amounts by orders of magnitude, the token has to be passed by address instead
   if (decimals === null || decimals === undefined) {
-    // Default fallback: USDC/USDT = 6 decimals, others = 18
-    if (['USDC', 'USDT'].includes(tokenSymbol.toUpperCase())) {
-      return 6;
-    }
-    return 18;
+    throw new ValidationError('UNKNOWN_TOKEN', `Decimals of token ${tokenSymbol} are unknown on chain ${chainName}, pass its contract address instead`);
   }
 
   return decimals;
@@ -159,13 +157,18 @@ export function getTokenDecimalsForChain(chainName: string, tokenSymbol: string)
  * Get token amount in proper units (wei equivalent) using viem parseUnits
  */
 export function getTokenAmount(amount: string, chainName: string, tokenSymbol: string): string {
-  const decimals = getTokenDecimalsForChain(chainName, tokenSymbol);
+  return getTokenAmountForDecimals(amount, getTokenDecimalsForChain(chainName, tokenSymbol));
+}
 
+/**
+ * Get token amount in proper units for a known number of decimals
+ */
+export function getTokenAmountForDecimals(amount: string, decimals: number): string {
   try {
     const parsed = parseUnits(amount, decimals);
     return parsed.toString();
   } catch (error) {
-    throw new Error(`Failed to parse token amount: ${amount}`);
+    throw new ValidationError('INVALID_AMOUNT', `Failed to parse token amount: ${amount}`, 'amount');
   }
 }
 
@@ -190,6 +193,15 @@ export function getTokenAddress(chainName: string, tokenSymbol: string): string
   return getTokenAddressForChain(chainName, tokenSymbol);
 }
 
+/**
+ * Check whether an address is the native token sentinel used by VeloraDEX (or the zero address)
+ */
+export function isNativeToken(address: string): boolean {
+  const normalizedAddress = address.toLowerCase();
+  return normalizedAddress === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' ||
+    normalizedAddress === '0x0000000000000000000000000000000000000000';
+}
+
 /**
  * Validate Ethereum address format
  */
@@ -197,6 +209,32 @@ export function isValidAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
+/**
+ * Valid address whose checksum, when it is mixed-case, matches (all lowercase addresses carry none)
+ */
+export function isChecksummedAddress(address: string): boolean {
+  return isValidAddress(address) && isAddress(address, { strict: true });
+}
+
+// VeloraDEX caps partner fees at 2%
+export const MAX_PARTNER_FEE_BPS = 200;
+
+// Smaller deadlines are seconds from now, larger ones unix timestamps
+const ABSOLUTE_DEADLINE_THRESHOLD = 1_000_000_000;
+
+/**
+ * Resolve a deadline given as seconds from now or as an absolute unix timestamp to unix seconds
+ */
+export function resolveDeadline(deadline: number, now = Math.floor(Date.now() / 1000)): number {
+  return deadline < ABSOLUTE_DEADLINE_THRESHOLD ? now + deadline : deadline;
+}
+
+export interface ValidationIssue {
+  code: SwapErrorCode;
+  field: string;
+  message: string;
+}
+
 /**
  * Validate swap request parameters
  */
@@ -206,27 +244,38 @@ export function validateSwapRequest(params: {
   toToken: string;
   fromAddress: string;
   fromChain: string;
-}): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
+  toChain?: string;
+} & Pick<SwapRequest, 'slippage' | 'receiver' | 'deadline' | 'partner' | 'partnerAddress' | 'partnerFeeBps' | 'positiveSlippageToPartner'>): { isValid: boolean; errors: string[]; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
 
   if (!params.amount || isNaN(Number(params.amount)) || Number(params.amount) <= 0) {
-    errors.push('Invalid amount: must be a positive number');
+    issues.push({ code: 'INVALID_AMOUNT', field: 'amount', message: 'Invalid amount: must be a positive number' });
   }
 
   if (!params.fromToken || params.fromToken.trim() === '') {
-    errors.push('From token is required');
+    issues.push({ code: 'INVALID_REQUEST', field: 'fromToken', message: 'From token is required' });
   }
 
   if (!params.toToken || params.toToken.trim() === '') {
-    errors.push('To token is required');
+    issues.push({ code: 'INVALID_REQUEST', field: 'toToken', message: 'To token is required' });
   }
 
   if (!params.fromAddress || !isValidAddress(params.fromAddress)) {
-    errors.push('Invalid from address format');
+    issues.push({ code: 'INVALID_ADDRESS', field: 'fromAddress', message: 'Invalid from address format' });
   }
 
   if (!params.fromChain || !SUPPORTED_CHAINS[params.fromChain.toUpperCase()]) {
-    errors.push(`Unsupported chain: ${params.fromChain}`);
+    issues.push({ code: 'UNSUPPORTED_CHAIN', field: 'fromChain', message: `Unsupported chain: ${params.fromChain}` });
+  }
+
+  // The destination token lives on toChain for cross-chain swaps
+  const toChain = params.toChain || params.fromChain;
+  if (params.toChain && !SUPPORTED_CHAINS[params.toChain.toUpperCase()]) {
+    issues.push({ code: 'UNSUPPORTED_CHAIN', field: 'toChain', message: `Unsupported chain: ${params.toChain}` });
+  }
+
+  if (params.slippage !== undefined && params.slippage !== 'auto' && (typeof params.slippage !== 'number' || !isValidSlippage(params.slippage))) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'slippage', message: `Slippage must be auto or between ${MIN_SLIPPAGE_BPS / 100}% and ${MAX_SLIPPAGE_BPS / 100}%` });
   }
 
   // Validate token support (if chain is supported)
@@ -234,20 +283,119 @@ export function validateSwapRequest(params: {
     try {
       getTokenAddressForChain(params.fromChain, params.fromToken);
     } catch (error) {
-      errors.push(`Token ${params.fromToken} not supported on ${params.fromChain}`);
+      issues.push({ code: 'UNKNOWN_TOKEN', field: 'fromToken', message: `Token ${params.fromToken} not supported on ${params.fromChain}` });
     }
   }
 
-  if (params.fromChain && params.toToken && SUPPORTED_CHAINS[params.fromChain.toUpperCase()]) {
+  if (toChain && params.toToken && SUPPORTED_CHAINS[toChain.toUpperCase()]) {
     try {
-      getTokenAddressForChain(params.fromChain, params.toToken);
+      getTokenAddressForChain(toChain, params.toToken);
     } catch (error) {
-      errors.push(`Token ${params.toToken} not supported on ${params.fromChain}`);
+      issues.push({ code: 'UNKNOWN_TOKEN', field: 'toToken', message: `Token ${params.toToken} not supported on ${toChain}` });
     }
   }
 
+  issues.push(...validateBuildOptions(params));
+
   return {
-    isValid: errors.length === 0,
-    errors
+    isValid: issues.length === 0,
+    errors: issues.map(issue => issue.message),
+    issues
   };
 }
+
+/**
+ * Validate the receiver, deadline and partner fee of a swap
+ */
+function validateBuildOptions(params: Pick<SwapRequest, 'receiver' | 'deadline' | 'partner' | 'partnerAddress' | 'partnerFeeBps' | 'positiveSlippageToPartner'>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (params.receiver !== undefined) {
+    if (!isChecksummedAddress(params.receiver)) {
+      issues.push({ code: 'INVALID_ADDRESS', field: 'receiver', message: 'Invalid receiver address or checksum' });
+    } else if (params.receiver.toLowerCase() === zeroAddress) {
+      issues.push({ code: 'INVALID_ADDRESS', field: 'receiver', message: 'Receiver cannot be the zero address' });
+    }
+  }
+
+  if (params.deadline !== undefined) {
+    if (!Number.isInteger(params.deadline) || params.deadline <= 0) {
+      issues.push({ code: 'INVALID_REQUEST', field: 'deadline', message: 'Deadline must be a positive whole number of seconds' });
+    } else if (resolveDeadline(params.deadline) <= Math.floor(Date.now() / 1000)) {
+      issues.push({ code: 'INVALID_REQUEST', field: 'deadline', message: 'Deadline has already passed' });
+    }
+  }
+
+  if (params.partner !== undefined && !/^[\w.-]{1,64}$/.test(params.partner)) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'partner', message: 'Partner must be 1-64 letters, digits, dots, dashes or underscores' });
+  }
+
+  if (params.partnerAddress !== undefined) {
+    if (!isChecksummedAddress(params.partnerAddress) || params.partnerAddress.toLowerCase() === zeroAddress) {
+      issues.push({ code: 'INVALID_ADDRESS', field: 'partnerAddress', message: 'Invalid partner address or checksum' });
+    }
+  } else if (params.partnerFeeBps !== undefined) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'partnerAddress', message: 'partnerFeeBps requires a partnerAddress' });
+  } else if (params.positiveSlippageToPartner) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'partnerAddress', message: 'positiveSlippageToPartner requires a partnerAddress' });
+  }
+
+  if (params.partnerFeeBps !== undefined && (!Number.isInteger(params.partnerFeeBps) || params.partnerFeeBps < 0 || params.partnerFeeBps > MAX_PARTNER_FEE_BPS)) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'partnerFeeBps', message: `Partner fee must be a whole number of basis points between 0 and ${MAX_PARTNER_FEE_BPS}` });
+  }
+
+  return issues;
+}
+
+/**
+ * Throw the first validation issue as a ValidationError, listing all of them in the message and details
+ */
+export function assertValidSwapRequest(params: Parameters<typeof validateSwapRequest>[0]): void {
+  const { isValid, errors, issues } = validateSwapRequest(params);
+  if (!isValid) {
+    const [{ code, field }] = issues;
+    throw new ValidationError(code, `Invalid request: ${errors.join(', ')}`, field, issues.length > 1 ? { issues } : undefined);
+  }
+}
+
+// Upper bound on the swaps of one build-swap-batch call
+export const MAX_BATCH_SWAPS = 10;
+
+/**
+ * Validate every swap of a batch, throwing one ValidationError listing the issues of all of them.
+ * Batches only hold same-chain market swaps (and wraps), fields are reported as swaps[i].field.
+ */
+export function assertValidSwapBatch(request: { fromAddress: string; swaps: SwapBatchLeg[] }): void {
+  const { fromAddress, swaps } = request;
+  const issues: ValidationIssue[] = [];
+
+  if (!fromAddress || !isValidAddress(fromAddress)) {
+    issues.push({ code: 'INVALID_ADDRESS', field: 'fromAddress', message: 'Invalid from address format' });
+  }
+
+  if (!Array.isArray(swaps) || swaps.length === 0) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'swaps', message: 'At least one swap is required' });
+  } else if (swaps.length > MAX_BATCH_SWAPS) {
+    issues.push({ code: 'INVALID_REQUEST', field: 'swaps', message: `At most ${MAX_BATCH_SWAPS} swaps can be built in one batch` });
+  } else {
+    swaps.forEach((leg, index) => {
+      const prefix = `swaps[${index}]`;
+      // The wallet was checked once above
+      const legIssues = validateSwapRequest({ ...leg, fromAddress }).issues.filter(issue => issue.field !== 'fromAddress');
+
+      if (leg.toChain && leg.toChain.toUpperCase() !== leg.fromChain?.toUpperCase()) {
+        legIssues.push({ code: 'INVALID_REQUEST', field: 'toChain', message: 'Cross-chain swaps cannot be batched' });
+      }
+      if (leg.mode && leg.mode !== 'market') {
+        legIssues.push({ code: 'INVALID_REQUEST', field: 'mode', message: 'Batches only build market swaps' });
+      }
+
+      issues.push(...legIssues.map(issue => ({ ...issue, field: `${prefix}.${issue.field}`, message: `${prefix}: ${issue.message}` })));
+    });
+  }
+
+  if (issues.length > 0) {
+    const [{ code, field }] = issues;
+    throw new ValidationError(code, `Invalid batch: ${issues.map(issue => issue.message).join(', ')}`, field, issues.length > 1 ? { issues } : undefined);
+  }
+}
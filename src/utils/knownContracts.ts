@@ -0,0 +1,49 @@
+import { getAddress } from 'viem';
+import { AUGUSTUS_V6_ADDRESS, ENTRY_POINT_V07_ADDRESS, MULTICALL3_ADDRESS, MULTISEND_CALL_ONLY_ADDRESS, PERMIT2_ADDRESS, ZEROEX_ALLOWANCE_HOLDER } from './abis.js';
+import { SUPPORTED_CHAINS, type ContractRef } from '../types/index.js';
+
+// Contracts deployed at the same address on every supported chain
+const KNOWN_CONTRACTS: Record<string, string> = {
+  [AUGUSTUS_V6_ADDRESS]: 'Velora AugustusV6.2',
+  '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57': 'Velora AugustusV5',
+  '0x216B4B4Ba9F3e719726886d34a177484278Bfcae': 'Velora TokenTransferProxy',
+  '0x0000000000bbF5c5Fd284e657F01Bd000933C96D': 'Velora Delta',
+  [ZEROEX_ALLOWANCE_HOLDER]: '0x AllowanceHolder',
+  [PERMIT2_ADDRESS]: 'Uniswap Permit2',
+  [MULTISEND_CALL_ONLY_ADDRESS]: 'Safe MultiSendCallOnly',
+  [ENTRY_POINT_V07_ADDRESS]: 'ERC-4337 EntryPoint v0.7',
+  [MULTICALL3_ADDRESS]: 'Multicall3'
+};
+
+const LABELS_BY_ADDRESS = new Map(Object.entries(KNOWN_CONTRACTS).map(([address, label]) => [address.toLowerCase(), label]));
+
+/**
+ * Label a contract address for humans: the well-known routers and helpers above,
+ * or the chain's wrapped native token
+ */
+export function getContractLabel(chainName: string, address: string): string | undefined {
+  const label = LABELS_BY_ADDRESS.get(address.toLowerCase());
+  if (label) {
+    return label;
+  }
+
+  const chain = SUPPORTED_CHAINS[chainName.toUpperCase()];
+  if (chain && chain.wrappedNative.toLowerCase() === address.toLowerCase()) {
+    return `Wrapped ${chain.nativeSymbol}`;
+  }
+
+  return undefined;
+}
+
+export function toContractRef(chainName: string, address: string): ContractRef {
+  const label = getContractLabel(chainName, address);
+  return { address: getAddress(address), ...(label && { label }) };
+}
+
+/**
+ * "Velora AugustusV6.2 (0x6A00…1068)", or the shortened address of unknown contracts
+ */
+export function describeContract(contract: ContractRef): string {
+  const short = `${contract.address.slice(0, 6)}…${contract.address.slice(-4)}`;
+  return contract.label ? `${contract.label} (${short})` : short;
+}
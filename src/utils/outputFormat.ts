@@ -0,0 +1,94 @@
+import { concatHex, encodeFunctionData, encodePacked, numberToHex, size, type Address, type Hex } from 'viem';
+import { ENTRY_POINT_V07_ADDRESS, MULTISEND_ABI, MULTISEND_CALL_ONLY_ADDRESS, SMART_ACCOUNT_ABI } from './abis.js';
+import type { FormattedCalls, OutputFormat, Transaction } from '../types/index.js';
+
+// MultiSend operation of each packed call, MultiSendCallOnly rejects delegatecalls
+const CALL_OPERATION = 0;
+
+/**
+ * Encode the returned transactions into the requested wallet format, one bundle per chain in
+ * order of appearance. Fees and nonces only apply to EOA transactions and are left out, the
+ * smart account, Safe or bundler sets them. Undefined for the plain transactions format.
+ */
+export function formatTransactions(transactions: Transaction[], format: OutputFormat | undefined, owner: string): FormattedCalls[] | undefined {
+  if (!format || format === 'transactions') {
+    return undefined;
+  }
+
+  const transactionsByChain = new Map<number, Transaction[]>();
+  for (const tx of transactions) {
+    transactionsByChain.set(tx.chainId, [...(transactionsByChain.get(tx.chainId) ?? []), tx]);
+  }
+
+  return [...transactionsByChain.entries()].map(([chainId, chainTransactions]) => {
+    switch (format) {
+      case 'eip5792':
+        return toWalletSendCalls(chainId, chainTransactions, owner);
+      case 'safeMultisend':
+        return toSafeMultisend(chainId, chainTransactions, owner);
+      case 'userOperation':
+        return toUserOperation(chainId, chainTransactions, owner);
+    }
+  });
+}
+
+/**
+ * Pack calls as MultiSend expects them: operation (uint8), to (address), value (uint256),
+ * data length (uint256) and data, concatenated without padding
+ */
+export function encodeMultiSendData(transactions: Transaction[]): Hex {
+  return concatHex(transactions.map(tx => {
+    const data = (tx.data ?? '0x') as Hex;
+    return encodePacked(
+      ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+      [CALL_OPERATION, tx.to as Address, BigInt(tx.value || 0), BigInt(size(data)), data]
+    );
+  }));
+}
+
+function toWalletSendCalls(chainId: number, transactions: Transaction[], owner: string): FormattedCalls {
+  return {
+    format: 'eip5792',
+    version: '2.0.0',
+    chainId: numberToHex(chainId),
+    from: owner,
+    // The swap must not run without its approval
+    atomicRequired: true,
+    calls: transactions.map(tx => ({
+      to: tx.to,
+      data: tx.data ?? '0x',
+      value: numberToHex(BigInt(tx.value || 0))
+    }))
+  };
+}
+
+function toSafeMultisend(chainId: number, transactions: Transaction[], owner: string): FormattedCalls {
+  return {
+    format: 'safeMultisend',
+    chainId,
+    safeAddress: owner,
+    to: MULTISEND_CALL_ONLY_ADDRESS,
+    // Native amounts are forwarded from the Safe's own balance by the delegatecall
+    value: '0',
+    data: encodeFunctionData({ abi: MULTISEND_ABI, functionName: 'multiSend', args: [encodeMultiSendData(transactions)] }),
+    operation: 1
+  };
+}
+
+function toUserOperation(chainId: number, transactions: Transaction[], owner: string): FormattedCalls {
+  return {
+    format: 'userOperation',
+    chainId,
+    entryPoint: ENTRY_POINT_V07_ADDRESS,
+    sender: owner,
+    callData: encodeFunctionData({
+      abi: SMART_ACCOUNT_ABI,
+      functionName: 'executeBatch',
+      args: [
+        transactions.map(tx => tx.to),
+        transactions.map(tx => BigInt(tx.value || 0)),
+        transactions.map(tx => tx.data ?? '0x')
+      ]
+    })
+  };
+}
@@ -0,0 +1,191 @@
+import { formatUnits } from 'viem';
+import { ValidationError } from './errors.js';
+import type { SwapQuoteSummary, SwapSideType, TokenAmount, TokenInfo } from '../types/index.js';
+
+const RATE_PRECISION = 18;
+
+// Slippage accepted by the build calls: 0.01% to 50%
+export const MIN_SLIPPAGE_BPS = 1;
+export const MAX_SLIPPAGE_BPS = 5_000;
+
+/**
+ * Extract the market price route from a VeloraDEX quote response
+ */
+export function getMarketPriceRoute(quote: any): any {
+  return quote && 'market' in quote ? quote.market : quote;
+}
+
+export function isValidSlippage(slippage: number): boolean {
+  const bps = Math.round(slippage * 100);
+  return Number.isFinite(slippage) && bps >= MIN_SLIPPAGE_BPS && bps <= MAX_SLIPPAGE_BPS;
+}
+
+/**
+ * Convert slippage percentage (e.g. 0.5 for 0.5%) into basis points, rejecting values outside the allowed range
+ */
+export function slippageToBps(slippage: number): number {
+  if (!isValidSlippage(slippage)) {
+    throw new ValidationError('INVALID_REQUEST', `Slippage must be between ${MIN_SLIPPAGE_BPS / 100}% and ${MAX_SLIPPAGE_BPS / 100}%`, 'slippage');
+  }
+  return Math.round(slippage * 100);
+}
+
+/**
+ * Build a raw/formatted amount pair for a token
+ */
+export function toTokenAmount(raw: string | bigint, decimals: number): TokenAmount {
+  return {
+    raw: raw.toString(),
+    formatted: formatUnits(BigInt(raw), decimals)
+  };
+}
+
+/**
+ * Minimum destination amount after applying slippage
+ */
+export function getMinAmountAfterSlippage(amount: string | bigint, slippage: number): bigint {
+  return BigInt(amount) * BigInt(10_000 - slippageToBps(slippage)) / 10_000n;
+}
+
+/**
+ * Maximum source amount after applying slippage (exact-output swaps)
+ */
+export function getMaxAmountAfterSlippage(amount: string | bigint, slippage: number): bigint {
+  return BigInt(amount) * BigInt(10_000 + slippageToBps(slippage)) / 10_000n;
+}
+
+/**
+ * Effective rate (toToken per 1 fromToken) computed with bigint math to avoid float rounding
+ */
+export function getEffectiveRate(srcAmount: string | bigint, srcDecimals: number, destAmount: string | bigint, destDecimals: number): string {
+  const src = BigInt(srcAmount);
+  if (src === 0n) {
+    return '0';
+  }
+
+  const scaledDest = BigInt(destAmount) * 10n ** BigInt(srcDecimals + RATE_PRECISION);
+  return formatUnits(scaledDest / (src * 10n ** BigInt(destDecimals)), RATE_PRECISION);
+}
+
+/**
+ * Parse a VeloraDEX USD value, undefined when the API has no price for the token
+ */
+function parseUsd(value: string | undefined): number | undefined {
+  const usd = Number(value);
+  return value !== undefined && Number.isFinite(usd) && usd > 0 ? usd : undefined;
+}
+
+/**
+ * Percentage of the USD value lost between source and destination (negative when the route gains value)
+ */
+export function getPriceImpactPercent(priceRoute: { srcUSD?: string; destUSD?: string }): number | undefined {
+  const srcUSD = parseUsd(priceRoute.srcUSD);
+  const destUSD = parseUsd(priceRoute.destUSD);
+  if (srcUSD === undefined || destUSD === undefined) {
+    return undefined;
+  }
+
+  return roundPercent((srcUSD - destUSD) / srcUSD * 100);
+}
+
+/**
+ * Gas cost in USD as a percentage of the traded value
+ */
+export function getGasToTradePercent(priceRoute: { srcUSD?: string; gasCostUSD?: string }): number | undefined {
+  const srcUSD = parseUsd(priceRoute.srcUSD);
+  const gasCostUSD = Number(priceRoute.gasCostUSD);
+  if (srcUSD === undefined || priceRoute.gasCostUSD === undefined || !Number.isFinite(gasCostUSD)) {
+    return undefined;
+  }
+
+  return roundPercent(gasCostUSD / srcUSD * 100);
+}
+
+/**
+ * USD value of the source side of the trade
+ */
+export function getNotionalUsd(priceRoute: { srcUSD?: string }): number | undefined {
+  return parseUsd(priceRoute.srcUSD);
+}
+
+/**
+ * How much worse the full amount prices than a small probe of the same pair, in basis points.
+ * SELL compares the output per input, BUY the input per output. Never negative.
+ */
+export function getDepthImpactBps(
+  probe: { srcAmount: string; destAmount: string },
+  full: { srcAmount: string; destAmount: string },
+  side: SwapSideType
+): number | undefined {
+  const [probeSrc, probeDest, fullSrc, fullDest] = [probe.srcAmount, probe.destAmount, full.srcAmount, full.destAmount].map(amount => BigInt(amount));
+  if (probeSrc === 0n || probeDest === 0n || fullSrc === 0n || fullDest === 0n) {
+    return undefined;
+  }
+
+  // Full rate relative to the probe rate, scaled to basis points
+  const relativeBps = side === 'BUY'
+    ? fullSrc * probeDest * 10_000n / (fullDest * probeSrc) - 10_000n
+    : 10_000n - fullDest * probeSrc * 10_000n / (fullSrc * probeDest);
+
+  return Math.max(Number(relativeBps), 0);
+}
+
+function roundPercent(percent: number): number {
+  return Math.round(percent * 10_000) / 10_000;
+}
+
+/**
+ * Collect the unique exchanges used across a VeloraDEX route
+ */
+export function getRouteExchanges(priceRoute: any): string[] {
+  const exchanges = new Set<string>();
+
+  for (const route of priceRoute?.bestRoute ?? []) {
+    for (const swap of route.swaps ?? []) {
+      for (const swapExchange of swap.swapExchanges ?? []) {
+        if (swapExchange.exchange) {
+          exchanges.add(swapExchange.exchange);
+        }
+      }
+    }
+  }
+
+  return [...exchanges];
+}
+
+/**
+ * Normalize a VeloraDEX price route into a human-readable quote summary
+ */
+export function summarizePriceRoute(
+  priceRoute: any,
+  chainId: number,
+  fromToken: TokenInfo,
+  toToken: TokenInfo,
+  slippage: number,
+  side: SwapSideType = 'SELL'
+): SwapQuoteSummary {
+  // SELL fixes the source amount and bounds the output, BUY fixes the output and bounds the input
+  const minAmountReceived = side === 'BUY'
+    ? BigInt(priceRoute.destAmount)
+    : getMinAmountAfterSlippage(priceRoute.destAmount, slippage);
+
+  return {
+    chainId,
+    side,
+    fromToken,
+    toToken,
+    srcAmount: toTokenAmount(priceRoute.srcAmount, fromToken.decimals),
+    destAmount: toTokenAmount(priceRoute.destAmount, toToken.decimals),
+    rate: getEffectiveRate(priceRoute.srcAmount, fromToken.decimals, priceRoute.destAmount, toToken.decimals),
+    srcUSD: priceRoute.srcUSD,
+    destUSD: priceRoute.destUSD,
+    gasCost: priceRoute.gasCost,
+    gasCostUSD: priceRoute.gasCostUSD,
+    priceImpactPercent: getPriceImpactPercent(priceRoute),
+    gasToTradePercent: getGasToTradePercent(priceRoute),
+    exchanges: getRouteExchanges(priceRoute),
+    slippage,
+    minAmountReceived: toTokenAmount(minAmountReceived, toToken.decimals),
+    ...(side === 'BUY' && { maxAmountSpent: toTokenAmount(getMaxAmountAfterSlippage(priceRoute.srcAmount, slippage), fromToken.decimals) })
+  };
+}
@@ -0,0 +1,34 @@
+import { decodeErrorResult, type Hex } from 'viem';
+
+// Solidity's built-in Error(string) and Panic(uint256)
+const BUILTIN_ERRORS_ABI = [
+  {
+    inputs: [{ name: 'message', type: 'string' }],
+    name: 'Error',
+    type: 'error'
+  },
+  {
+    inputs: [{ name: 'code', type: 'uint256' }],
+    name: 'Panic',
+    type: 'error'
+  }
+] as const;
+
+/**
+ * Decode revert data into a readable reason: the Error(string) message, the Panic code,
+ * or the selector of a custom error
+ */
+export function decodeRevertReason(data?: string, fallbackMessage = 'execution reverted'): string {
+  if (!data || data === '0x') {
+    return fallbackMessage;
+  }
+
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: BUILTIN_ERRORS_ABI, data: data as Hex });
+    return errorName === 'Error'
+      ? String(args[0])
+      : `Panic(0x${(args[0] as bigint).toString(16)})`;
+  } catch (error) {
+    return `Custom error ${data.slice(0, 10)}`;
+  }
+}
@@ -0,0 +1,45 @@
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { SUPPORTED_CHAINS } from '../types/index.js';
+
+const publicClients = new Map<string, PublicClient>();
+
+/**
+ * Get the RPC URL for a chain, preferring a `<CHAIN>_RPC_URL` environment override
+ * (e.g. ARBITRUM_RPC_URL) over the public default in SUPPORTED_CHAINS
+ */
+export function getRpcUrl(chainName: string): string {
+  const normalizedChainName = chainName.toUpperCase();
+  const rpcUrl = process.env[`${normalizedChainName}_RPC_URL`] || SUPPORTED_CHAINS[normalizedChainName]?.rpcUrl;
+
+  if (!rpcUrl) {
+    throw new Error(`No RPC URL configured for chain ${chainName}`);
+  }
+
+  return rpcUrl;
+}
+
+/**
+ * Get a viem public client for a chain, cached per RPC URL
+ */
+export function getPublicClient(chainName: string): PublicClient {
+  return getClientForUrl(getRpcUrl(chainName));
+}
+
+/**
+ * Get the client used for transaction simulation, which needs eth_simulateV1 support.
+ * `<CHAIN>_SIMULATION_RPC_URL` (e.g. BASE_SIMULATION_RPC_URL) overrides the regular RPC.
+ */
+export function getSimulationClient(chainName: string): PublicClient {
+  const simulationRpcUrl = process.env[`${chainName.toUpperCase()}_SIMULATION_RPC_URL`];
+  return simulationRpcUrl ? getClientForUrl(simulationRpcUrl) : getPublicClient(chainName);
+}
+
+function getClientForUrl(rpcUrl: string): PublicClient {
+  let client = publicClients.get(rpcUrl);
+  if (!client) {
+    client = createPublicClient({ transport: http(rpcUrl) });
+    publicClients.set(rpcUrl, client);
+  }
+
+  return client;
+}
@@ -0,0 +1,215 @@
+import { getAddress, isAddress } from 'viem';
+import defaultTokenList from '../tokenlists/default.tokenlist.json';
+import { SUPPORTED_CHAINS, type TokenInfo, type TokenList, type TokenListToken, type TokenSearchResult } from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+// The bundled list wins over remote lists unless they are registered with a higher priority
+export const DEFAULT_LIST_PRIORITY = 100;
+export const REMOTE_LIST_PRIORITY = 10;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const LIST_FETCH_TIMEOUT_MS = 5_000;
+const FAILED_LIST_RETRY_MS = 5 * 60_000;
+
+interface RegistryEntry extends TokenListToken {
+  source: string;
+  priority: number;
+}
+
+/**
+ * Token metadata merged from Uniswap-format token lists. Entries are deduped by chainId/address,
+ * keeping the one from the highest priority list (the first registered on ties). A symbol that maps
+ * to several addresses at the same top priority is ambiguous and must be passed as an address.
+ */
+export class TokenRegistry {
+  private byAddress = new Map<string, RegistryEntry>(); // `${chainId}:${address.lower}`
+  private listLoads = new Map<string, Promise<void>>(); // Loaded or still loading, by URL
+  private failedLists = new Map<string, number>(); // URL to when it may be fetched again
+
+  /**
+   * Merge a token list into the registry, skipping entries with an invalid address or decimals
+   */
+  addList(list: TokenList, priority: number = REMOTE_LIST_PRIORITY): void {
+    for (const token of list.tokens) {
+      if (!isAddress(token.address, { strict: false }) || !Number.isInteger(token.decimals) || !token.symbol) {
+        continue;
+      }
+
+      const key = `${token.chainId}:${token.address.toLowerCase()}`;
+      const existing = this.byAddress.get(key);
+      if (existing && existing.priority >= priority) {
+        continue;
+      }
+
+      this.byAddress.set(key, {
+        chainId: token.chainId,
+        address: getAddress(token.address.toLowerCase()),
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        ...(token.logoURI && { logoURI: token.logoURI }),
+        ...(token.tags && { tags: token.tags }),
+        source: list.name,
+        priority
+      });
+    }
+  }
+
+  /**
+   * Fetch and merge remote token lists, each URL is only loaded once and concurrent callers wait for
+   * the same fetch. Lists that fail or time out are skipped so a broken URL never blocks swaps,
+   * and are not fetched again for a few minutes.
+   */
+  async loadFromUrls(urls: string[], priority: number = REMOTE_LIST_PRIORITY): Promise<void> {
+    await Promise.all(urls.map(url => {
+      const retryAt = this.failedLists.get(url);
+      if (retryAt !== undefined && Date.now() < retryAt) {
+        return undefined;
+      }
+
+      let load = this.listLoads.get(url);
+      if (!load) {
+        load = this.fetchList(url, priority);
+        this.listLoads.set(url, load);
+      }
+      return load;
+    }));
+  }
+
+  /**
+   * Find a token by symbol (case-insensitive), throwing when the symbol is ambiguous
+   */
+  findBySymbol(chainId: number, symbol: string): TokenListToken | undefined {
+    const normalizedSymbol = symbol.toUpperCase();
+    const candidates = this.entries(chainId)
+      .filter(entry => entry.symbol.toUpperCase() === normalizedSymbol)
+      .sort((a, b) => b.priority - a.priority);
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const topCandidates = candidates.filter(entry => entry.priority === candidates[0].priority);
+    if (topCandidates.length > 1) {
+      const addresses = topCandidates.map(entry => `${entry.address} (${entry.name})`).join(', ');
+      throw new ValidationError(
+        'UNKNOWN_TOKEN',
+        `Symbol ${symbol} is ambiguous on chain ${chainId}, pass one of these addresses instead: ${addresses}`,
+        undefined,
+        { candidates: topCandidates.map(toToken) }
+      );
+    }
+
+    return toToken(topCandidates[0]);
+  }
+
+  /**
+   * Find a token by contract address
+   */
+  findByAddress(chainId: number, address: string): TokenListToken | undefined {
+    const entry = this.byAddress.get(`${chainId}:${address.toLowerCase()}`);
+    return entry && toToken(entry);
+  }
+
+  /**
+   * Every known token of a chain
+   */
+  listTokens(chainId: number): TokenListToken[] {
+    return this.entries(chainId).map(toToken);
+  }
+
+  /**
+   * Search by address, symbol or name. Exact address and symbol matches rank first,
+   * then symbol prefixes, then name matches.
+   */
+  search(query: string, options: { chainId?: number; limit?: number } = {}): TokenSearchResult[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const rank = (entry: RegistryEntry): number | undefined => {
+      const symbol = entry.symbol.toLowerCase();
+      if (entry.address.toLowerCase() === normalizedQuery || symbol === normalizedQuery) return 0;
+      if (symbol.startsWith(normalizedQuery)) return 1;
+      if (entry.name.toLowerCase().includes(normalizedQuery)) return 2;
+      return undefined;
+    };
+
+    return this.entries(options.chainId)
+      .map(entry => ({ entry, rank: rank(entry) }))
+      .filter((match): match is { entry: RegistryEntry; rank: number } => match.rank !== undefined)
+      .sort((a, b) => a.rank - b.rank || b.entry.priority - a.entry.priority || a.entry.chainId - b.entry.chainId)
+      .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT)
+      .map(({ entry }) => ({
+        ...toToken(entry),
+        chain: getChainName(entry.chainId) ?? String(entry.chainId),
+        source: entry.source
+      }));
+  }
+
+  private async fetchList(url: string, priority: number): Promise<void> {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(LIST_FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.addList(await response.json() as TokenList, priority);
+      this.failedLists.delete(url);
+    } catch (error) {
+      this.listLoads.delete(url);
+      this.failedLists.set(url, Date.now() + FAILED_LIST_RETRY_MS);
+      console.warn(`Could not load token list ${url}:`, error);
+    }
+  }
+
+  private entries(chainId?: number): RegistryEntry[] {
+    const entries = [...this.byAddress.values()];
+    return chainId === undefined ? entries : entries.filter(entry => entry.chainId === chainId);
+  }
+}
+
+function toToken({ source, priority, ...token }: RegistryEntry): TokenListToken {
+  return token;
+}
+
+function getChainName(chainId: number): string | undefined {
+  return Object.entries(SUPPORTED_CHAINS).find(([, chain]) => chain.id === chainId)?.[0];
+}
+
+let registry: TokenRegistry | undefined;
+
+/**
+ * Shared registry, seeded with the bundled default list
+ */
+export function getTokenRegistry(): TokenRegistry {
+  if (!registry) {
+    registry = new TokenRegistry();
+    registry.addList(defaultTokenList as TokenList, DEFAULT_LIST_PRIORITY);
+  }
+
+  return registry;
+}
+
+/**
+ * The chain's USDC, which USD values are quoted against
+ */
+export function findUsdc(chainId: number): TokenInfo | undefined {
+  try {
+    const usdc = getTokenRegistry().findBySymbol(chainId, 'USDC');
+    return usdc && { symbol: usdc.symbol, address: usdc.address, decimals: usdc.decimals };
+  } catch (error) {
+    // Ambiguous once remote lists add another USDC, values are then unavailable
+    return undefined;
+  }
+}
+
+/**
+ * Load the lists in TOKEN_LIST_URLS (comma separated) into the shared registry
+ */
+export async function loadConfiguredTokenLists(): Promise<void> {
+  const urls = (process.env.TOKEN_LIST_URLS ?? '').split(',').map(url => url.trim()).filter(Boolean);
+  if (urls.length > 0) {
+    await getTokenRegistry().loadFromUrls(urls);
+  }
+}